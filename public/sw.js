@@ -1,16 +1,29 @@
 // Service worker for focus timer notifications when tab is closed/background
 // Uses waitUntil to keep alive until timer ends, then shows notification with sound+vibration
+// Also persists the rolling window of habit reminders and any calendar reminders,
+// and delivers them when due
 
 const NOTIFICATION_TAG = "focus-timer-end";
+const REMINDER_CACHE = "habit-reminders";
+const REMINDER_KEY = "/__habit-reminders";
+const CALENDAR_REMINDER_KEY = "/__calendar-reminders";
+const REMINDER_GRACE_MS = 60 * 60 * 1000; // Reminders missed by more than an hour are dropped
 let pendingTimeoutId = null;
 let pendingResolve = null;
+let reminderWait = null;
 
 self.addEventListener("install", (event) => {
   event.waitUntil(self.skipWaiting());
 });
 
 self.addEventListener("activate", (event) => {
-  event.waitUntil(self.clients.claim());
+  event.waitUntil(self.clients.claim().then(deliverDueReminders));
+});
+
+self.addEventListener("periodicsync", (event) => {
+  if (event.tag === "habit-reminders") {
+    event.waitUntil(deliverDueReminders());
+  }
 });
 
 // Use chunked timeouts (max 1 min) - long timeouts get throttled/killed on mobile
@@ -55,6 +68,27 @@ self.addEventListener("message", (event) => {
     });
 
     event.waitUntil(promise);
+  } else if (event.data?.type === "SYNC_HABIT_REMINDERS") {
+    event.waitUntil(
+      saveReminders(event.data.reminders || [])
+        .then(deliverDueReminders)
+        .then(waitForNextReminder)
+    );
+  } else if (event.data?.type === "SCHEDULE_CALENDAR_REMINDER") {
+    const { reminder } = event.data;
+    event.waitUntil(
+      loadReminders(CALENDAR_REMINDER_KEY)
+        .then((reminders) => saveReminders([...reminders.filter((r) => r.id !== reminder.id), reminder], CALENDAR_REMINDER_KEY))
+        .then(deliverDueReminders)
+        .then(waitForNextReminder)
+    );
+  } else if (event.data?.type === "CANCEL_CALENDAR_REMINDER") {
+    const { id } = event.data;
+    event.waitUntil(
+      loadReminders(CALENDAR_REMINDER_KEY)
+        .then((reminders) => saveReminders(reminders.filter((r) => r.id !== id), CALENDAR_REMINDER_KEY))
+        .then(waitForNextReminder)
+    );
   } else if (event.data?.type === "CANCEL_TIMER_END") {
     if (pendingTimeoutId) {
       clearTimeout(pendingTimeoutId);
@@ -73,7 +107,7 @@ self.addEventListener("message", (event) => {
 // Notification click: focus existing window or open/focus the app
 self.addEventListener("notificationclick", (event) => {
   event.notification.close();
-  const focusUrl = new URL("/focus", self.location.origin).href;
+  const focusUrl = new URL(event.notification.data?.url || "/focus", self.location.origin).href;
   event.waitUntil(
     self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((clients) => {
       const visible = clients.find((c) => c.visibilityState === "visible");
@@ -103,3 +137,90 @@ function showFocusNotification(title, body) {
   };
   return self.registration.showNotification(title || "Focus session complete!", opts);
 }
+
+// Reminders are stored in Cache Storage so they survive worker restarts
+async function loadReminders(key = REMINDER_KEY) {
+  const cache = await caches.open(REMINDER_CACHE);
+  const response = await cache.match(key);
+  return response ? response.json() : [];
+}
+
+async function saveReminders(reminders, key = REMINDER_KEY) {
+  const cache = await caches.open(REMINDER_CACHE);
+  await cache.put(key, new Response(JSON.stringify(reminders)));
+}
+
+async function deliverDueReminders() {
+  const now = Date.now();
+  const isDue = (r) => r.at <= now;
+  const isFresh = (r) => now - r.at <= REMINDER_GRACE_MS;
+
+  const reminders = await loadReminders();
+  const due = reminders.filter(isDue);
+  if (due.length > 0) {
+    await Promise.all(
+      due.filter(isFresh).map((r) =>
+        self.registration.showNotification(r.title, {
+          body: r.body,
+          icon: "/icon-192.png",
+          badge: "/icon-192.png",
+          tag: `habit-reminder-${r.id}`,
+          data: { url: r.url || "/habits" },
+        })
+      )
+    );
+    await saveReminders(reminders.filter((r) => !isDue(r)));
+  }
+
+  const calendarReminders = await loadReminders(CALENDAR_REMINDER_KEY);
+  const calendarDue = calendarReminders.filter(isDue);
+  if (calendarDue.length > 0) {
+    await Promise.all(calendarDue.filter(isFresh).map(deliverCalendarReminder));
+    await saveReminders(calendarReminders.filter((r) => !isDue(r)), CALENDAR_REMINDER_KEY);
+  }
+}
+
+// An open tab shows calendar reminders itself, so focus mode can hold them
+async function deliverCalendarReminder(reminder) {
+  const clients = await self.clients.matchAll({ type: "window" });
+  const client = clients.find((c) => c.visibilityState === "visible") || clients[0];
+  if (client) {
+    client.postMessage({ type: "CALENDAR_REMINDER_DUE", reminder });
+    return;
+  }
+  await self.registration.showNotification(reminder.title, {
+    body: reminder.body,
+    icon: "/icon-192.png",
+    badge: "/icon-192.png",
+    tag: `calendar-reminder-${reminder.id}`,
+    data: { url: reminder.url || "/calendar" },
+  });
+}
+
+// Keep the worker alive until the next reminder, in chunks like the focus timer.
+// A new sync cancels the previous wait so only one chain runs at a time.
+function cancelReminderWait() {
+  if (reminderWait) {
+    clearTimeout(reminderWait.timeoutId);
+    reminderWait.resolve(false);
+    reminderWait = null;
+  }
+}
+
+async function waitForNextReminder() {
+  cancelReminderWait();
+
+  const reminders = [...(await loadReminders()), ...(await loadReminders(CALENDAR_REMINDER_KEY))];
+  if (reminders.length === 0) return;
+
+  const next = Math.min(...reminders.map((r) => r.at));
+  const chunk = Math.min(Math.max(0, next - Date.now()), 60000);
+  const elapsed = await new Promise((resolve) => {
+    reminderWait = { resolve, timeoutId: setTimeout(() => resolve(true), chunk) };
+  });
+  if (!elapsed) return;
+  reminderWait = null;
+
+  await deliverDueReminders();
+  return waitForNextReminder();
+}
@@ -13,7 +13,9 @@ import { ErrorBoundary } from "@/components/ErrorBoundary";
 
 const Dashboard = lazy(() => import("./pages/Dashboard"));
 const Habits = lazy(() => import("./pages/Habits"));
+const HabitDetail = lazy(() => import("./pages/HabitDetail"));
 const Focus = lazy(() => import("./pages/Focus"));
+const Tasks = lazy(() => import("./pages/Tasks"));
 const Insights = lazy(() => import("./pages/Insights"));
 const Settings = lazy(() => import("./pages/Settings"));
 const Profile = lazy(() => import("./pages/Profile"));
@@ -63,7 +65,9 @@ const App = () => {
                     <Routes>
                       <Route path="/" element={<Suspense fallback={<PageLoader />}><Dashboard /></Suspense>} />
                       <Route path="/habits" element={<Suspense fallback={<PageLoader />}><Habits /></Suspense>} />
+                      <Route path="/habits/:id" element={<Suspense fallback={<PageLoader />}><HabitDetail /></Suspense>} />
                       <Route path="/focus" element={<Suspense fallback={<PageLoader />}><Focus /></Suspense>} />
+                      <Route path="/tasks" element={<Suspense fallback={<PageLoader />}><Tasks /></Suspense>} />
                       <Route path="/journal" element={<Suspense fallback={<PageLoader />}><Journal /></Suspense>} />
                       <Route path="/calendar" element={<Suspense fallback={<PageLoader />}><Calendar /></Suspense>} />
                       <Route path="/activity" element={<Suspense fallback={<PageLoader />}><Activity /></Suspense>} />
@@ -9,10 +9,14 @@ import { useFocusStore } from "@/store/focusStore";
 import { useCalendarStore, EVENT_COLORS } from "@/store/calendarStore";
 import { useJournalStore } from "@/store/journalStore";
 import { useActivityStore } from "@/store/activityStore";
+import { useTaskStore } from "@/store/taskStore";
+import { useSettingsStore } from "@/store/settingsStore";
 import { format, subDays, addDays } from "date-fns";
-import { calculateStreak, calculateCompletionRate } from "@/lib/utils";
-import { toast } from "sonner";
-import { HABIT_COLORS } from "@/types";
+import {
+  calculateStreak, calculateCompletionRate, isHabitPausedOnDate, isQuitHabit, calculateCleanRun, getSlipLogs,
+} from "@/lib/utils";
+import { toast } from "@/lib/toast";
+import { HABIT_COLORS, type Habit, type HabitSchedule } from "@/types";
 import { useSpeech } from "@/hooks/useSpeech";
 import { useNavigate } from "react-router-dom";
 
@@ -32,16 +36,23 @@ interface ParsedEvent {
 interface ParsedHabit {
   name: string;
   description?: string;
-  scheduleType?: "daily" | "weekdays" | "customDays" | "timesPerWeek";
+  scheduleType?: HabitSchedule["type"];
   daysOfWeek?: number[];
   timesPerWeek?: number;
-  goalType?: "check" | "count";
+  intervalDays?: number;
+  daysOfMonth?: number[];
+  weekOfMonth?: number;
+  timesPerMonth?: number;
+  goalType?: Habit["goalType"];
+  focusKeyword?: string;
+  kind?: Habit["kind"];
   goalTarget?: number;
 }
 
 interface ParsedFocus {
   duration: number;
   task?: string;
+  taskId?: string;
   mode?: "pomodoro" | "timer" | "stopwatch";
 }
 
@@ -65,11 +76,13 @@ export function AIAssistant() {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const navigate = useNavigate();
   
-  const { habits, logs, addHabit } = useHabitStore();
+  const { habits, logs, pauses, addHabit } = useHabitStore();
   const { sessions, timer, startTimer } = useFocusStore();
+  const tasks = useTaskStore((s) => s.tasks);
   const { events, addEvent } = useCalendarStore();
   const { entries: journalEntries, addEntry } = useJournalStore();
   const { activities, isTracking, startTracking, stopTracking, distanceKm } = useActivityStore();
+  const weekStartsMonday = useSettingsStore((s) => s.settings.weekStartsMonday);
 
   // Speech hook for voice input/output
   const { 
@@ -185,6 +198,11 @@ export function AIAssistant() {
             type: habitData.scheduleType || "daily",
             daysOfWeek: habitData.daysOfWeek,
             timesPerWeek: habitData.timesPerWeek,
+            intervalDays: habitData.intervalDays,
+            startDate: habitData.scheduleType === "interval" ? format(new Date(), "yyyy-MM-dd") : undefined,
+            daysOfMonth: habitData.daysOfMonth,
+            weekOfMonth: habitData.weekOfMonth,
+            timesPerMonth: habitData.timesPerMonth,
           };
           
           addHabit({
@@ -192,8 +210,12 @@ export function AIAssistant() {
             description: habitData.description || "",
             color: HABIT_COLORS[Math.floor(Math.random() * HABIT_COLORS.length)],
             schedule: schedule as any,
-            goalType: habitData.goalType || "check",
+            kind: habitData.kind || "build",
+            goalType: habitData.kind === "quit" ? "check" : habitData.goalType || "check",
             goalTarget: habitData.goalTarget,
+            focusLink: habitData.goalType === "duration" && habitData.focusKeyword
+              ? { keyword: habitData.focusKeyword }
+              : undefined,
           });
 
           toast.success(`Habit "${habitData.name}" created!`, {
@@ -207,15 +229,20 @@ export function AIAssistant() {
           const focusData = parsed.focus as ParsedFocus;
           
           const duration = focusData.duration ? focusData.duration * 60 : undefined;
-          const mode = focusData.mode === "stopwatch" ? "deepFocus" : "pomodoro";
+          // A stopwatch counts up in flow mode; a plain timer runs down like deep focus
+          const mode = focusData.mode === "stopwatch" ? "flow" : focusData.mode === "timer" ? "deepFocus" : "pomodoro";
+          // Link by id, falling back to an open task with the same title
+          const linkedTask = tasks.find(t => t.id === focusData.taskId)
+            || tasks.find(t => t.status !== "done" && t.title.toLowerCase() === focusData.task?.trim().toLowerCase());
           
-          startTimer(mode, focusData.task, duration);
-          navigate("/focus");
-
+          // Confirm before starting, or focus mode would hold this for the break
           toast.success("Focus session started!", {
-            description: `${focusData.duration || 25} minute session`,
+            description: mode === "flow" ? "Open-ended flow session" : `${focusData.duration || 25} minute session`,
             icon: <Timer className="w-4 h-4" />,
           });
+
+          startTimer(mode, linkedTask?.title ?? focusData.task, duration, linkedTask?.id);
+          navigate("/focus");
         }
 
         // Handle activity tracking
@@ -283,7 +310,7 @@ export function AIAssistant() {
         console.log("Failed to parse AI action JSON:", e);
       }
     }
-  }, [addEvent, addHabit, parseNaturalDate, startTimer, startTracking, stopTracking, isTracking, distanceKm, addEntry, navigate]);
+  }, [addEvent, addHabit, parseNaturalDate, startTimer, tasks, startTracking, stopTracking, isTracking, distanceKm, addEntry, navigate]);
   
 
   const buildContext = useCallback(() => {
@@ -292,11 +319,27 @@ export function AIAssistant() {
     
     // Habit stats
     const activeHabits = habits.filter(h => !h.archived);
-    const habitStats = activeHabits.map(h => ({
-      name: h.name,
-      streak: calculateStreak(h, logs).current,
-      completionRate: calculateCompletionRate(h, logs, 7),
-    }));
+    const habitStats = activeHabits.map(h => {
+      // Quit habits report slips, never completions
+      if (isQuitHabit(h)) {
+        const cleanRun = calculateCleanRun(h, logs);
+        return {
+          name: h.name,
+          kind: "quit",
+          daysSinceLastSlip: cleanRun.current,
+          longestCleanRun: cleanRun.best,
+          slipsLast7Days: getSlipLogs(h, logs).filter(l => last7Days.includes(l.date)).length,
+          paused: isHabitPausedOnDate(h, new Date(), pauses),
+        };
+      }
+
+      return {
+        name: h.name,
+        streak: calculateStreak(h, logs, weekStartsMonday, pauses).current,
+        completionRate: calculateCompletionRate(h, logs, 7, pauses),
+        paused: isHabitPausedOnDate(h, new Date(), pauses),
+      };
+    });
     
     // Today's events
     const todayEvents = events.filter(e => e.date === today);
@@ -305,6 +348,9 @@ export function AIAssistant() {
     const recentFocus = sessions.filter(s => last7Days.includes(s.date));
     const totalFocusMinutes = recentFocus.reduce((acc, s) => acc + s.durationMinutes, 0);
     
+    // Open tasks the assistant can start focus sessions on
+    const openTasks = tasks.filter(t => t.status !== "done");
+
     // Recent journal entries
     const recentJournal = journalEntries.slice(0, 3);
 
@@ -330,6 +376,15 @@ export function AIAssistant() {
         totalMinutesLast7Days: totalFocusMinutes,
         sessionsCount: recentFocus.length,
       },
+      tasks: openTasks.slice(0, 20).map(t => ({
+        id: t.id,
+        title: t.title,
+        project: t.project,
+        dueDate: t.dueDate,
+        status: t.status,
+        actualPomodoros: t.actualPomodoros,
+        estimatedPomodoros: t.estimatedPomodoros,
+      })),
       activity: {
         totalActivities: activities.length,
         totalDistanceKm: totalDistance,
@@ -343,7 +398,7 @@ export function AIAssistant() {
       },
       recentJournalMoods: recentJournal.map(j => j.mood).filter(Boolean),
     };
-  }, [habits, logs, events, sessions, journalEntries, activities, isTracking, distanceKm, timer.isRunning]);
+  }, [habits, logs, events, sessions, journalEntries, activities, isTracking, distanceKm, timer.isRunning, weekStartsMonday, pauses, tasks]);
   
   const sendMessage = async () => {
     if (!input.trim() || isLoading) return;
@@ -6,22 +6,24 @@ import { useFocusStore } from "@/store/focusStore";
 import { formatTime } from "@/lib/utils";
 
 export function FocusMiniBanner() {
-  const { timer, getTimeRemaining, pauseTimer, resumeTimer } = useFocusStore();
-  const [timeRemaining, setTimeRemaining] = useState(getTimeRemaining());
+  const { timer, getTimeRemaining, getElapsedTime, pauseTimer, resumeTimer } = useFocusStore();
+  const isFlow = timer.mode === "flow";
+  const [displaySeconds, setDisplaySeconds] = useState(0);
 
   useEffect(() => {
     if (!timer.isRunning) return;
 
-    const interval = setInterval(() => {
-      setTimeRemaining(getTimeRemaining());
-    }, 1000);
+    // Flow sessions have no set length, so they count up instead
+    const update = () => setDisplaySeconds(isFlow ? getElapsedTime() : Math.ceil(getTimeRemaining()));
+    update();
+    const interval = setInterval(update, 1000);
 
     return () => clearInterval(interval);
-  }, [timer.isRunning, timer.isPaused, getTimeRemaining]);
+  }, [timer.isRunning, timer.isPaused, isFlow, getTimeRemaining, getElapsedTime]);
 
   if (!timer.isRunning) return null;
 
-  const phaseLabel = timer.phase === "work" ? "Focus" : timer.phase === "break" ? "Break" : "Long Break";
+  const phaseLabel = isFlow ? "Flow" : timer.phase === "work" ? "Focus" : timer.phase === "break" ? "Break" : "Long Break";
 
   return (
     <AnimatePresence>
@@ -48,7 +50,7 @@ export function FocusMiniBanner() {
               
               <div className="flex items-center gap-3">
                 <span className="font-mono font-bold text-primary">
-                  {formatTime(Math.ceil(timeRemaining))}
+                  {formatTime(displaySeconds)}
                 </span>
                 <button
                   onClick={(e) => {
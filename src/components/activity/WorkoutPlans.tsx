@@ -21,20 +21,11 @@ import {
   Smartphone,
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { toast } from "sonner";
+import { toast } from "@/lib/toast";
 import { motion, AnimatePresence } from "framer-motion";
 import { useMotionDetection } from "@/hooks/useMotionDetection";
 import { cn } from "@/lib/utils";
-
-interface Exercise {
-  name: string;
-  duration: number | null;
-  reps: number | null;
-  rest: number;
-  instructions?: string;
-  imageUrl?: string;
-  targetMuscles?: string[];
-}
+import { getExerciseDetails, type Exercise } from "@/lib/exercises";
 
 interface WorkoutPlan {
   id: string;
@@ -61,72 +52,6 @@ const difficultyColors: Record<string, string> = {
   advanced: "bg-red-500/20 text-red-500",
 };
 
-// Default exercise library with images and instructions
-const defaultExercises: Record<string, Partial<Exercise>> = {
-  "jumping jacks": {
-    instructions: "Stand with feet together, jump while spreading legs and raising arms overhead, return to start position.",
-    imageUrl: "https://images.unsplash.com/photo-1571019614242-c5c5dee9f50b?w=400&h=300&fit=crop",
-    targetMuscles: ["full body", "cardio"],
-  },
-  "push-ups": {
-    instructions: "Place hands shoulder-width apart, lower chest to floor keeping body straight, push back up. Keep core engaged.",
-    imageUrl: "https://images.unsplash.com/photo-1598971639058-fab3c3109a00?w=400&h=300&fit=crop",
-    targetMuscles: ["chest", "triceps", "shoulders"],
-  },
-  "squats": {
-    instructions: "Stand with feet shoulder-width apart, lower hips back and down as if sitting in a chair, keep chest up and knees behind toes.",
-    imageUrl: "https://images.unsplash.com/photo-1574680096145-d05b474e2155?w=400&h=300&fit=crop",
-    targetMuscles: ["quads", "glutes", "hamstrings"],
-  },
-  "plank": {
-    instructions: "Rest on forearms and toes, keep body in straight line from head to heels, engage core and hold position.",
-    imageUrl: "https://images.unsplash.com/photo-1566241142559-40e1dab266c6?w=400&h=300&fit=crop",
-    targetMuscles: ["core", "shoulders"],
-  },
-  "lunges": {
-    instructions: "Step forward with one leg, lower back knee toward ground, front knee stays behind toes, push back to start.",
-    imageUrl: "https://images.unsplash.com/photo-1434608519344-49d77a699e1d?w=400&h=300&fit=crop",
-    targetMuscles: ["quads", "glutes", "hamstrings"],
-  },
-  "burpees": {
-    instructions: "Squat down, kick feet back to plank, do a push-up, jump feet forward, explosively jump up with arms overhead.",
-    imageUrl: "https://images.unsplash.com/photo-1599058945522-28d584b6f0ff?w=400&h=300&fit=crop",
-    targetMuscles: ["full body", "cardio"],
-  },
-  "mountain climbers": {
-    instructions: "Start in plank position, alternately drive knees toward chest rapidly while keeping hips low.",
-    imageUrl: "https://images.unsplash.com/photo-1434682881908-b43d0467b798?w=400&h=300&fit=crop",
-    targetMuscles: ["core", "cardio", "shoulders"],
-  },
-  "high knees": {
-    instructions: "Run in place, bringing knees up to hip level alternately, pump arms for momentum.",
-    imageUrl: "https://images.unsplash.com/photo-1476480862126-209bfaa8edc8?w=400&h=300&fit=crop",
-    targetMuscles: ["legs", "cardio"],
-  },
-  "crunches": {
-    instructions: "Lie on back with knees bent, hands behind head, curl upper body toward knees, lower slowly.",
-    imageUrl: "https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?w=400&h=300&fit=crop",
-    targetMuscles: ["abs", "core"],
-  },
-  "bicep curls": {
-    instructions: "Hold weights at sides, curl toward shoulders keeping elbows stationary, lower slowly.",
-    imageUrl: "https://images.unsplash.com/photo-1581009146145-b5ef050c149a?w=400&h=300&fit=crop",
-    targetMuscles: ["biceps", "forearms"],
-  },
-};
-
-function getExerciseDetails(exercise: Exercise): Exercise {
-  const key = exercise.name.toLowerCase();
-  const defaults = defaultExercises[key];
-  
-  return {
-    ...exercise,
-    instructions: exercise.instructions || defaults?.instructions || "Perform the exercise with proper form.",
-    imageUrl: exercise.imageUrl || defaults?.imageUrl,
-    targetMuscles: exercise.targetMuscles || defaults?.targetMuscles || [],
-  };
-}
-
 export function WorkoutPlans() {
   const [plans, setPlans] = useState<WorkoutPlan[]>([]);
   const [selectedPlan, setSelectedPlan] = useState<WorkoutPlan | null>(null);
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from "react";
+import { Dumbbell, SkipForward, Check, Smartphone, Activity, X } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useFocusStore } from "@/store/focusStore";
+import { useMotionDetection } from "@/hooks/useMotionDetection";
+import { getBreakWorkoutPosition, getBreakWorkoutSeconds } from "@/lib/exercises";
+import { alarmSound } from "@/lib/audio";
+import { formatTime } from "@/lib/utils";
+import { toast } from "sonner";
+
+/**
+ * Offers and runs the movement routine for a pomodoro break. It runs on the
+ * break timer, so pausing the timer pauses the workout too.
+ */
+export function BreakWorkoutCard() {
+  const breakWorkout = useFocusStore((s) => s.breakWorkout);
+  const isPaused = useFocusStore((s) => s.timer.isPaused);
+  const { startBreakWorkout, getBreakWorkoutElapsed, advanceBreakWorkout, recordBreakReps, endBreakWorkout } = useFocusStore();
+  const {
+    isSupported: motionSupported,
+    isTracking: motionTracking,
+    repCount,
+    intensity,
+    startTracking: startMotion,
+    stopTracking: stopMotion,
+    resetCount,
+  } = useMotionDetection();
+
+  const [elapsed, setElapsed] = useState(getBreakWorkoutElapsed());
+  const lastStepRef = useRef("");
+  const isActive = breakWorkout?.startedAt !== null && breakWorkout?.startedAt !== undefined;
+
+  useEffect(() => {
+    if (!isActive) return;
+    setElapsed(getBreakWorkoutElapsed());
+    if (isPaused) return;
+    const interval = setInterval(() => setElapsed(getBreakWorkoutElapsed()), 250);
+    return () => clearInterval(interval);
+  }, [isActive, isPaused, getBreakWorkoutElapsed, breakWorkout?.skippedSeconds]);
+
+  const exercises = breakWorkout?.exercises || [];
+  const position = getBreakWorkoutPosition(exercises, elapsed);
+  const exercise = exercises[position.index];
+  const isFinished = isActive && position.index >= exercises.length;
+
+  // Chime on every move to the next exercise or rest, like the timer's check-ins
+  useEffect(() => {
+    if (!isActive) return;
+    const step = `${position.index}-${position.isResting}`;
+    if (lastStepRef.current && lastStepRef.current !== step) {
+      alarmSound.playCheckIn();
+      resetCount();
+    }
+    lastStepRef.current = step;
+  }, [isActive, position.index, position.isResting, resetCount]);
+
+  useEffect(() => {
+    if (!isFinished) return;
+    stopMotion();
+    endBreakWorkout();
+    toast.success("Break workout done — nice moving!");
+  }, [isFinished, stopMotion, endBreakWorkout]);
+
+  // Motion counting finishes a rep exercise once the target is reached
+  useEffect(() => {
+    if (!isActive || !exercise?.reps || position.isResting || repCount < exercise.reps) return;
+    recordBreakReps(position.index, repCount);
+    advanceBreakWorkout();
+  }, [isActive, exercise?.reps, position.index, position.isResting, repCount, recordBreakReps, advanceBreakWorkout]);
+
+  useEffect(() => () => stopMotion(), [stopMotion]);
+
+  if (!breakWorkout || isFinished) return null;
+
+  const totalMinutes = Math.round(getBreakWorkoutSeconds(exercises) / 60);
+
+  const handleStart = () => {
+    alarmSound.warmUp();
+    startBreakWorkout();
+  };
+
+  const handleStop = () => {
+    stopMotion();
+    endBreakWorkout();
+  };
+
+  const handleDone = () => {
+    if (exercise?.reps && repCount > 0) recordBreakReps(position.index, repCount);
+    advanceBreakWorkout();
+  };
+
+  if (!isActive) {
+    return (
+      <Card className="glass border-0 bg-background/40">
+        <CardContent className="p-4 space-y-3">
+          <div className="flex items-start gap-3">
+            <Dumbbell className="w-5 h-5 text-success shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-sm font-medium">Move for {totalMinutes} minutes?</p>
+              <p className="text-xs text-muted-foreground">{exercises.map((e) => e.name).join(" • ")}</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" className="flex-1 rounded-lg" onClick={handleStart}>
+              Start workout
+            </Button>
+            <Button size="sm" variant="ghost" className="rounded-lg" onClick={endBreakWorkout}>
+              Not now
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const next = exercises[position.index + 1];
+
+  return (
+    <Card className="glass border-0 bg-background/40">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Exercise {position.index + 1} of {exercises.length}</span>
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={handleStop}>
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        </div>
+        <Progress value={((position.index + (position.isResting ? 1 : 0)) / exercises.length) * 100} className="h-1.5" />
+
+        {position.isResting ? (
+          <div className="text-center py-2">
+            <p className="text-sm text-muted-foreground">Rest — next up {next?.name}</p>
+            <p className="font-mono text-3xl font-semibold tabular-nums mt-1">{formatTime(position.secondsLeft)}</p>
+          </div>
+        ) : (
+          <div className="text-center py-2 space-y-1">
+            {exercise.imageUrl && (
+              <img src={exercise.imageUrl} alt={exercise.name} className="w-full h-28 object-cover rounded-lg mb-2" />
+            )}
+            <p className="text-lg font-semibold">{exercise.name}</p>
+            {exercise.reps ? (
+              <p className="text-sm text-primary">{repCount} / {exercise.reps} reps</p>
+            ) : null}
+            <p className="font-mono text-3xl font-semibold tabular-nums">{formatTime(position.secondsLeft)}</p>
+            <p className="text-xs text-muted-foreground line-clamp-2">{exercise.instructions}</p>
+          </div>
+        )}
+
+        {!position.isResting && exercise.reps && motionSupported && (
+          motionTracking ? (
+            <div className="space-y-1">
+              <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+                <Activity className="w-3 h-3 animate-pulse text-primary" />
+                Counting reps from motion
+              </div>
+              <Progress value={intensity} className="h-1" />
+            </div>
+          ) : (
+            <Button variant="outline" size="sm" className="w-full gap-2 rounded-lg" onClick={() => void startMotion()}>
+              <Smartphone className="w-4 h-4" />
+              Count reps with motion
+            </Button>
+          )
+        )}
+
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1 rounded-lg" onClick={handleDone}>
+            {position.isResting ? <SkipForward className="w-4 h-4 mr-1" /> : <Check className="w-4 h-4 mr-1" />}
+            {position.isResting ? "Skip rest" : "Done"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { Play, Pause, SkipForward } from "lucide-react";
+import { useFocusStore } from "@/store/focusStore";
+import { useFocusPipStore } from "@/store/focusPipStore";
+import { skipFocusPhase } from "@/lib/pictureInPicture";
+import { formatTime } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+
+/**
+ * The focus timer inside the Document Picture-in-Picture window. Rendered once
+ * in AppLayout; shows nothing until the window is opened.
+ */
+export function FocusPipTimer() {
+  const pipWindow = useFocusPipStore((s) => s.pipWindow);
+  const close = useFocusPipStore((s) => s.close);
+  const isRunning = useFocusStore((s) => s.timer.isRunning);
+
+  // Nothing to show once the session is stopped
+  useEffect(() => {
+    if (!isRunning) close();
+  }, [isRunning, close]);
+
+  if (!pipWindow) return null;
+  return createPortal(<PipTimerContent win={pipWindow} />, pipWindow.document.body);
+}
+
+function PipTimerContent({ win }: { win: Window }) {
+  const { timer, getTimeRemaining, getElapsedTime, pauseTimer, resumeTimer } = useFocusStore();
+  const [, setTick] = useState(0);
+
+  // The PiP window stays visible, so its timers aren't throttled like a background tab's
+  useEffect(() => {
+    const interval = win.setInterval(() => setTick((t) => t + 1), 250);
+    return () => win.clearInterval(interval);
+  }, [win]);
+
+  const isWorkPhase = timer.phase === "work";
+  const phaseLabel = timer.mode === "flow" ? "Flow" : isWorkPhase ? "Focus" : timer.phase === "break" ? "Break" : "Long Break";
+  const seconds = timer.mode === "flow" ? getElapsedTime() : Math.max(0, Math.ceil(getTimeRemaining()));
+
+  return (
+    <div className="h-screen bg-background text-foreground flex flex-col items-center justify-center gap-2 px-4 select-none">
+      <div className="flex items-center gap-2 text-sm max-w-full">
+        <span className={`font-medium ${isWorkPhase ? "text-primary" : "text-success"}`}>
+          {timer.isPaused ? `${phaseLabel} · Paused` : phaseLabel}
+        </span>
+        {timer.task && <span className="text-muted-foreground truncate">· {timer.task}</span>}
+      </div>
+      <span className="font-mono text-5xl font-semibold tracking-tighter tabular-nums">
+        {formatTime(seconds)}
+      </span>
+      <div className="flex items-center gap-2">
+        <Button
+          size="icon"
+          variant="secondary"
+          className="rounded-xl"
+          onClick={() => (timer.isPaused ? resumeTimer() : pauseTimer())}
+        >
+          {timer.isPaused ? <Play className="w-4 h-4 fill-current" /> : <Pause className="w-4 h-4" />}
+        </Button>
+        {timer.mode === "pomodoro" && (
+          <Button size="icon" variant="outline" className="rounded-xl" onClick={skipFocusPhase}>
+            <SkipForward className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
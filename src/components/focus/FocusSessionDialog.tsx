@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useFocusStore } from "@/store/focusStore";
+import { useTaskStore } from "@/store/taskStore";
+import { cn, findOverlappingSession } from "@/lib/utils";
+import { FOCUS_MODE_LABELS, type FocusMode, type FocusSession } from "@/types";
+import { toast } from "sonner";
+
+interface FocusSessionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  editingSession: FocusSession | null; // null logs a new past session
+}
+
+const NO_TASK = "none";
+
+export function FocusSessionDialog({ open, onOpenChange, editingSession }: FocusSessionDialogProps) {
+  const { sessions, addSession, updateSession, deleteSession } = useFocusStore();
+  const tasks = useTaskStore((s) => s.tasks);
+
+  // A new entry defaults to a pomodoro that just ended
+  const initialStart = editingSession ? new Date(editingSession.startTime) : new Date(Date.now() - 25 * 60 * 1000);
+  const [date, setDate] = useState(format(initialStart, "yyyy-MM-dd"));
+  const [time, setTime] = useState(format(initialStart, "HH:mm"));
+  const [duration, setDuration] = useState(String(editingSession?.durationMinutes ?? 25));
+  const [mode, setMode] = useState<FocusMode>(editingSession?.mode || "pomodoro");
+  const [task, setTask] = useState(editingSession?.task || "");
+  const [taskId, setTaskId] = useState(editingSession?.taskId || NO_TASK);
+  const [note, setNote] = useState(editingSession?.note || "");
+  const [completed, setCompleted] = useState(editingSession?.completed ?? true);
+
+  const startTime = new Date(`${date}T${time}`).getTime();
+  const durationMinutes = parseInt(duration, 10);
+
+  const error = (() => {
+    if (!Number.isFinite(startTime)) return "Pick a start date and time";
+    if (!(durationMinutes > 0) || durationMinutes > 720) return "Duration must be between 1 and 720 minutes";
+    if (startTime + durationMinutes * 60 * 1000 > Date.now()) return "The session can't end in the future";
+    const overlap = findOverlappingSession(sessions, startTime, durationMinutes, editingSession?.id);
+    if (overlap) {
+      return `Overlaps a ${overlap.durationMinutes}m session on ${format(overlap.startTime, "MMM d 'at' HH:mm")}`;
+    }
+    return null;
+  })();
+
+  // Picking a task fills in its title; the free text stays editable
+  const handleTaskChange = (value: string) => {
+    setTaskId(value);
+    const linked = tasks.find((t) => t.id === value);
+    if (linked) setTask(linked.title);
+  };
+
+  const handleSave = async () => {
+    if (error) return;
+
+    const values = {
+      startTime,
+      durationMinutes,
+      mode,
+      task: task.trim() || undefined,
+      taskId: taskId === NO_TASK ? undefined : taskId,
+      note: note.trim() || undefined,
+      completed,
+    };
+
+    if (editingSession) {
+      await updateSession(editingSession.id, values);
+      toast.success("Session updated");
+    } else {
+      await addSession({ ...values, date });
+      toast.success(`Logged ${durationMinutes} minutes of focus`);
+    }
+    onOpenChange(false);
+  };
+
+  const handleDelete = async () => {
+    if (!editingSession || !confirm("Delete this focus session?")) return;
+    await deleteSession(editingSession.id);
+    toast.success("Session deleted");
+    onOpenChange(false);
+  };
+
+  const selectableTasks = tasks.filter((t) => t.status !== "done" || t.id === editingSession?.taskId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glass-strong rounded-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editingSession ? "Edit session" : "Log past session"}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 mt-2">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2 col-span-1">
+              <Label htmlFor="session-date">Date</Label>
+              <Input id="session-date" type="date" value={date} max={format(new Date(), "yyyy-MM-dd")} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-time">Start</Label>
+              <Input id="session-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="session-duration">Minutes</Label>
+              <Input
+                id="session-duration"
+                type="number"
+                min={1}
+                max={720}
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Mode</Label>
+            <div className="flex gap-2">
+              {(Object.keys(FOCUS_MODE_LABELS) as FocusMode[]).map((m) => (
+                <button
+                  key={m}
+                  type="button"
+                  onClick={() => setMode(m)}
+                  className={cn(
+                    "flex-1 px-3 py-2 rounded-lg text-xs font-medium transition-colors",
+                    mode === m ? "bg-primary text-primary-foreground" : "bg-secondary/60 hover:bg-secondary"
+                  )}
+                >
+                  {FOCUS_MODE_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {selectableTasks.length > 0 && (
+            <div className="space-y-2">
+              <Label>Linked task</Label>
+              <Select value={taskId} onValueChange={handleTaskChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TASK}>No linked task</SelectItem>
+                  {selectableTasks.map((t) => (
+                    <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="session-task">What you worked on</Label>
+            <Input id="session-task" value={task} onChange={(e) => setTask(e.target.value)} placeholder="Optional" />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="session-note">Note</Label>
+            <Textarea id="session-note" value={note} onChange={(e) => setNote(e.target.value)} rows={2} placeholder="Optional" />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="session-completed">Finished</Label>
+              <p className="text-xs text-muted-foreground">Only finished sessions count toward habits and task pomodoros</p>
+            </div>
+            <Switch id="session-completed" checked={completed} onCheckedChange={setCompleted} />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex gap-2">
+            {editingSession && (
+              <Button variant="outline" size="icon" className="shrink-0 text-destructive" onClick={handleDelete}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+            <Button className="flex-1" onClick={handleSave} disabled={!!error}>
+              {editingSession ? "Save changes" : "Log session"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
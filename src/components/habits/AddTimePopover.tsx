@@ -0,0 +1,63 @@
+import { useState, type ReactNode } from "react";
+import { useHabitStore } from "@/store/habitStore";
+import { getToday } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { Habit } from "@/types";
+import { toast } from "@/lib/toast";
+
+const QUICK_AMOUNTS = [15, 30, 60];
+
+interface AddTimePopoverProps {
+  habit: Habit;
+  children: ReactNode;
+}
+
+// Manual time entry for duration habits, on top of linked focus sessions
+export function AddTimePopover({ habit, children }: AddTimePopoverProps) {
+  const { addHabitProgress } = useHabitStore();
+  const [open, setOpen] = useState(false);
+  const [customMinutes, setCustomMinutes] = useState("");
+
+  const addMinutes = async (minutes: number) => {
+    if (minutes <= 0) return;
+    await addHabitProgress(habit.id, getToday(), minutes);
+    toast.success(`Added ${minutes} min to ${habit.name}`);
+    setCustomMinutes("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-56 space-y-3" align="end" onClick={e => e.stopPropagation()}>
+        <p className="text-sm font-medium">Add time</p>
+        <div className="grid grid-cols-3 gap-2">
+          {QUICK_AMOUNTS.map(minutes => (
+            <Button key={minutes} size="sm" variant="outline" onClick={() => addMinutes(minutes)}>
+              +{minutes}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            min={1}
+            value={customMinutes}
+            onChange={e => setCustomMinutes(e.target.value)}
+            placeholder="Minutes"
+            className="h-9"
+          />
+          <Button
+            size="sm"
+            className="gradient-primary text-primary-foreground"
+            onClick={() => addMinutes(parseInt(customMinutes) || 0)}
+          >
+            Add
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
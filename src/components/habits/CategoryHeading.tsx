@@ -0,0 +1,25 @@
+import { getHabitIcon } from "@/components/habits/habitIcons";
+import type { HabitCategory } from "@/types";
+
+interface CategoryHeadingProps {
+  category?: HabitCategory;
+  count: number;
+}
+
+export function CategoryHeading({ category, count }: CategoryHeadingProps) {
+  const Icon = getHabitIcon(category?.icon);
+  const color = category?.color || "hsl(var(--muted-foreground))";
+
+  return (
+    <div className="flex items-center gap-2">
+      <div
+        className="w-6 h-6 rounded-md flex items-center justify-center"
+        style={{ backgroundColor: category ? category.color + "20" : "hsl(var(--muted))" }}
+      >
+        <Icon className="w-3.5 h-3.5" style={{ color }} />
+      </div>
+      <h3 className="text-sm font-semibold">{category?.name || "Uncategorized"}</h3>
+      <span className="text-xs text-muted-foreground">{count}</span>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { Check, Edit, Plus, Trash2 } from "lucide-react";
+import { useHabitStore } from "@/store/habitStore";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { HABIT_ICONS, getHabitIcon } from "@/components/habits/habitIcons";
+import { HABIT_COLORS, type HabitCategory } from "@/types";
+import { toast } from "@/lib/toast";
+
+interface CategoryManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CategoryManagerDialog({ open, onOpenChange }: CategoryManagerDialogProps) {
+  const { habits, categories, addCategory, updateCategory, deleteCategory } = useHabitStore();
+  const [editing, setEditing] = useState<HabitCategory | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState<string>(HABIT_COLORS[0]);
+  const [icon, setIcon] = useState<string | undefined>();
+
+  const startEditing = (category: HabitCategory | "new") => {
+    setEditing(category);
+    setName(category === "new" ? "" : category.name);
+    setColor(category === "new" ? HABIT_COLORS[categories.length % HABIT_COLORS.length] : category.color);
+    setIcon(category === "new" ? undefined : category.icon);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    if (editing === "new") {
+      await addCategory({ name: name.trim(), color, icon });
+      toast.success("Category created");
+    } else if (editing) {
+      await updateCategory(editing.id, { name: name.trim(), color, icon });
+      toast.success("Category updated");
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = async (category: HabitCategory) => {
+    if (!confirm(`Delete "${category.name}"? Its habits will become uncategorized.`)) return;
+    await deleteCategory(category.id);
+    toast.success("Category deleted");
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) setEditing(null);
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="glass-strong max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Categories</DialogTitle>
+        </DialogHeader>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Name</Label>
+              <Input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="e.g., Health, Work, Learning"
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Color</Label>
+              <div className="flex gap-2">
+                {HABIT_COLORS.map(c => (
+                  <button
+                    key={c}
+                    type="button"
+                    onClick={() => setColor(c)}
+                    className="w-9 h-9 rounded-xl flex items-center justify-center"
+                    style={{ backgroundColor: c }}
+                  >
+                    {color === c && <Check className="w-4 h-4 text-white" />}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Icon</Label>
+              <div className="grid grid-cols-5 gap-2">
+                {HABIT_ICONS.map(({ id, icon: Icon }) => (
+                  <button
+                    key={id}
+                    type="button"
+                    onClick={() => setIcon(id)}
+                    className={cn(
+                      "aspect-square rounded-xl flex items-center justify-center transition-all",
+                      icon === id
+                        ? "ring-2 ring-primary ring-offset-2 ring-offset-background"
+                        : "bg-secondary/50 hover:bg-secondary"
+                    )}
+                    style={icon === id ? { backgroundColor: color + "20" } : {}}
+                  >
+                    <Icon className="w-5 h-5" style={{ color: icon === id ? color : "hsl(var(--muted-foreground))" }} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button
+                className="flex-1 gradient-primary text-primary-foreground"
+                disabled={!name.trim()}
+                onClick={handleSave}
+              >
+                {editing === "new" ? "Create category" : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {categories.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Group related habits together, like Health or Work.
+              </p>
+            )}
+            {categories.map(category => {
+              const Icon = getHabitIcon(category.icon);
+              const habitCount = habits.filter(h => h.categoryId === category.id).length;
+              return (
+                <div key={category.id} className="flex items-center gap-3 p-3 rounded-xl bg-secondary/50">
+                  <div
+                    className="w-9 h-9 rounded-lg flex items-center justify-center flex-shrink-0"
+                    style={{ backgroundColor: category.color + "20" }}
+                  >
+                    <Icon className="w-4 h-4" style={{ color: category.color }} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm truncate">{category.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {habitCount} habit{habitCount !== 1 ? "s" : ""}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(category)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(category)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button variant="outline" className="w-full" onClick={() => startEditing("new")}>
+              <Plus className="w-4 h-4 mr-2" />
+              New category
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,255 @@
+import { useMemo, useRef, useState } from "react";
+import { Download, FileUp, Upload } from "lucide-react";
+import { useHabitStore } from "@/store/habitStore";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn, getToday } from "@/lib/utils";
+import {
+  HABIT_CSV_FIELDS, LOG_CSV_FIELDS, guessCsvMapping, habitsToCsv, logsToCsv, parseCsv, planHabitImport,
+  planLogImport, type CsvImportKind,
+} from "@/lib/habitCsv";
+import { HABIT_COLORS } from "@/types";
+import { toast } from "@/lib/toast";
+
+interface HabitCsvDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const UNMAPPED = "none";
+
+function downloadCsv(csv: string, filename: string) {
+  const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function HabitCsvDialog({ open, onOpenChange }: HabitCsvDialogProps) {
+  const { habits, logs, categories, importHabits, importLogs } = useHabitStore();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [kind, setKind] = useState<CsvImportKind>("habits");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Record<string, number | null>>({});
+  const [isImporting, setIsImporting] = useState(false);
+
+  const fields = kind === "habits" ? HABIT_CSV_FIELDS : LOG_CSV_FIELDS;
+  const missingRequired = fields.filter(f => f.required && (mapping[f.key] === null || mapping[f.key] === undefined));
+
+  const plan = useMemo(() => {
+    if (rows.length === 0 || missingRequired.length > 0) return null;
+    return kind === "habits"
+      ? { kind, ...planHabitImport(rows, mapping, habits, categories) }
+      : { kind, ...planLogImport(rows, mapping, habits, logs) };
+  }, [kind, rows, mapping, habits, logs, categories, missingRequired.length]);
+
+  const importCount = plan ? (plan.kind === "habits" ? plan.habits.length : plan.logs.length) : 0;
+
+  const reset = () => {
+    setFileName(null);
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+  };
+
+  const selectKind = (next: CsvImportKind) => {
+    setKind(next);
+    setMapping(guessCsvMapping(headers, next === "habits" ? HABIT_CSV_FIELDS : LOG_CSV_FIELDS));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast.error("That file has no rows to import");
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(headerRow);
+    setRows(dataRows);
+    setMapping(guessCsvMapping(headerRow, fields));
+  };
+
+  const handleExport = (what: CsvImportKind) => {
+    if (what === "habits") {
+      downloadCsv(habitsToCsv(habits, categories), `habits-${getToday()}.csv`);
+    } else {
+      downloadCsv(logsToCsv(logs, habits), `habit-logs-${getToday()}.csv`);
+    }
+    toast.success("CSV exported");
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsImporting(true);
+
+    if (plan.kind === "habits") {
+      await importHabits(plan.habits);
+      toast.success(`Imported ${plan.habits.length} habit${plan.habits.length !== 1 ? "s" : ""}`);
+    } else {
+      // Logs for habits that don't exist yet get a simple daily habit to belong to
+      await importHabits(plan.missingHabits.map((name, i) => ({
+        name,
+        color: HABIT_COLORS[i % HABIT_COLORS.length],
+        schedule: { type: "daily" },
+        goalType: "check",
+        archived: false,
+      })));
+
+      const habitIds = new Map(useHabitStore.getState().habits.map(h => [h.name.trim().toLowerCase(), h.id]));
+      await importLogs(plan.logs.flatMap(log => {
+        const habitId = habitIds.get(log.habitName.toLowerCase());
+        return habitId ? [{ habitId, date: log.date, status: log.status, value: log.value, note: log.note }] : [];
+      }));
+      toast.success(`Imported ${plan.logs.length} log${plan.logs.length !== 1 ? "s" : ""}`);
+    }
+
+    setIsImporting(false);
+    reset();
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="glass-strong max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Habits CSV</DialogTitle>
+        </DialogHeader>
+
+        <Tabs defaultValue="import">
+          <TabsList className="grid grid-cols-2 w-full">
+            <TabsTrigger value="import">Import</TabsTrigger>
+            <TabsTrigger value="export">Export</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-3 pt-2">
+            <p className="text-sm text-muted-foreground">
+              Download your habits and their history as spreadsheets.
+            </p>
+            <Button variant="outline" className="w-full justify-start" onClick={() => handleExport("habits")}>
+              <Download className="w-4 h-4 mr-2" />
+              Habits ({habits.length})
+            </Button>
+            <Button variant="outline" className="w-full justify-start" onClick={() => handleExport("logs")}>
+              <Download className="w-4 h-4 mr-2" />
+              Habit logs ({logs.length})
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4 pt-2">
+            <div className="grid grid-cols-2 gap-2">
+              {(["habits", "logs"] as const).map(k => (
+                <button
+                  key={k}
+                  type="button"
+                  onClick={() => selectKind(k)}
+                  className={cn(
+                    "p-3 rounded-xl text-sm font-medium transition-all",
+                    kind === k ? "bg-primary/15 text-primary ring-1 ring-primary" : "bg-secondary/50 hover:bg-secondary"
+                  )}
+                >
+                  {k === "habits" ? "Habits" : "Habit logs"}
+                </button>
+              ))}
+            </div>
+
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={e => {
+                void handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+            <Button variant="outline" className="w-full" onClick={() => fileInput.current?.click()}>
+              <FileUp className="w-4 h-4 mr-2" />
+              {fileName || "Choose CSV file"}
+            </Button>
+
+            {headers.length > 0 && (
+              <div className="space-y-3">
+                <div>
+                  <Label className="text-sm font-medium">Match columns</Label>
+                  <p className="text-xs text-muted-foreground">{rows.length} rows found</p>
+                </div>
+                {fields.map(field => (
+                  <div key={field.key} className="flex items-center gap-3">
+                    <span className="text-sm w-32 flex-shrink-0">
+                      {field.label}
+                      {field.required && <span className="text-destructive"> *</span>}
+                    </span>
+                    <Select
+                      value={mapping[field.key] === null || mapping[field.key] === undefined ? UNMAPPED : String(mapping[field.key])}
+                      onValueChange={v => setMapping(m => ({ ...m, [field.key]: v === UNMAPPED ? null : Number(v) }))}
+                    >
+                      <SelectTrigger className="h-9 flex-1">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                        {headers.map((header, i) => (
+                          <SelectItem key={i} value={String(i)}>{header || `Column ${i + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+
+                {missingRequired.length > 0 ? (
+                  <p className="text-xs text-destructive">
+                    Choose a column for {missingRequired.map(f => f.label).join(" and ")}
+                  </p>
+                ) : plan && (
+                  <div className="p-3 rounded-xl bg-secondary/50 text-sm space-y-1">
+                    <p>
+                      <span className="font-medium">{importCount}</span> {kind === "habits" ? "habits" : "logs"} to import
+                    </p>
+                    {plan.duplicates > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {plan.duplicates} duplicate{plan.duplicates !== 1 ? "s" : ""} skipped
+                        {kind === "habits" ? " (same name)" : " (same habit and date)"}
+                      </p>
+                    )}
+                    {plan.invalid > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {plan.invalid} row{plan.invalid !== 1 ? "s" : ""} missing required values
+                      </p>
+                    )}
+                    {plan.kind === "logs" && plan.missingHabits.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        New habits will be created for: {plan.missingHabits.join(", ")}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <Button
+                  className="w-full gradient-primary text-primary-foreground"
+                  disabled={!plan || importCount === 0 || isImporting}
+                  onClick={handleImport}
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  {isImporting ? "Importing..." : "Import"}
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState, type ReactNode } from "react";
+import { format } from "date-fns";
+import { Snowflake } from "lucide-react";
+import { useHabitStore } from "@/store/habitStore";
+import {
+  getFreezesRemaining, getProgressStatus, getToday, isFutureDate, isHabitDueOnDate, isQuitHabit,
+} from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { Habit, HabitLog, HabitLogStatus } from "@/types";
+
+interface HabitDayEditorProps {
+  habit: Habit;
+  date: string;
+  log: HabitLog | undefined;
+  children: ReactNode;
+}
+
+// Edit a single day's log: status, value and note
+export function HabitDayEditor({ habit, date, log, children }: HabitDayEditorProps) {
+  const { logs, pauses, logHabitForDate, clearHabitLog, spendFreeze } = useHabitStore();
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState(0);
+  const [note, setNote] = useState("");
+
+  const isQuit = isQuitHabit(habit);
+  const hasValue = !isQuit && habit.goalType !== "check";
+  const day = new Date(date + "T12:00:00");
+  const canFreeze =
+    !isQuit &&
+    date < getToday() &&
+    log?.status !== "done" &&
+    log?.status !== "frozen" &&
+    isHabitDueOnDate(habit, day, pauses) &&
+    getFreezesRemaining(habit, logs, day) > 0;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) {
+      setValue(log?.value ?? (hasValue ? habit.goalTarget ?? 1 : 1));
+      setNote(log?.note || "");
+    }
+    setOpen(isOpen);
+  };
+
+  const save = async (status: HabitLogStatus, logValue?: number) => {
+    await logHabitForDate(habit.id, date, status, logValue, note.trim() || undefined);
+    setOpen(false);
+  };
+
+  const freeze = async () => {
+    await spendFreeze(habit.id, date);
+    setOpen(false);
+  };
+
+  const clear = async () => {
+    await clearHabitLog(habit.id, date);
+    setOpen(false);
+  };
+
+  if (isFutureDate(date)) return <>{children}</>;
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        <p className="text-sm font-medium">{format(day, "EEE, MMM d, yyyy")}</p>
+
+        {(hasValue || isQuit) && (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min={isQuit ? 1 : 0}
+              value={value}
+              onChange={e => setValue(parseInt(e.target.value) || 0)}
+              className="h-9 text-center"
+            />
+            <span className="text-xs text-muted-foreground whitespace-nowrap">
+              {isQuit
+                ? "slips"
+                : `/ ${habit.goalTarget || 1}${habit.goalType === "duration" ? " min" : ""}`}
+            </span>
+          </div>
+        )}
+
+        <Textarea
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="Add a note..."
+          className="min-h-[60px] resize-none text-sm"
+        />
+
+        <div className="flex gap-2">
+          {isQuit ? (
+            <Button size="sm" variant="destructive" className="flex-1" onClick={() => save("slipped", Math.max(1, value))}>
+              Log slip
+            </Button>
+          ) : (
+            <>
+              <Button
+                size="sm"
+                className="flex-1 gradient-primary text-primary-foreground"
+                onClick={() => (hasValue ? save(getProgressStatus(habit, value), value) : save("done"))}
+              >
+                {hasValue ? "Save" : "Done"}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => save("skipped")}>
+                Skip
+              </Button>
+            </>
+          )}
+          {canFreeze && (
+            <Button size="sm" variant="outline" onClick={freeze} title="Use a streak freeze">
+              <Snowflake className="w-4 h-4" />
+            </Button>
+          )}
+          {log && (
+            <Button size="sm" variant="ghost" onClick={clear}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
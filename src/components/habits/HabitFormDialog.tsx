@@ -1,10 +1,6 @@
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { 
-  Dumbbell, Book, Droplets, Moon, Sun, Coffee, Heart, Brain, 
-  Footprints, Apple, Pill, Music, Pencil, Code, Languages,
-  Flame, Sparkles, Check, Bell
-} from "lucide-react";
+import { Flame, Sparkles, Check, Bell, Snowflake, Timer, Ban, Plus, X } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,8 +8,13 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
-import { HABIT_COLORS, DAY_NAMES, type Habit } from "@/types";
-import { cn } from "@/lib/utils";
+import { HABIT_COLORS, DAY_NAMES, type Habit, type HabitFocusLink, type HabitSchedule } from "@/types";
+import { cn, formatOrdinal, getScheduleLabel, getToday } from "@/lib/utils";
+import { HABIT_ICONS, getHabitIcon } from "@/components/habits/habitIcons";
+import {
+  HABIT_TEMPLATES, HABIT_TEMPLATE_GROUPS, type HabitTemplate, type HabitTemplateGroup,
+} from "@/components/habits/habitTemplates";
+import { useHabitStore } from "@/store/habitStore";
 
 interface HabitFormDialogProps {
   open: boolean;
@@ -27,43 +28,16 @@ export interface HabitFormData {
   description?: string;
   color: string;
   icon?: string;
-  schedule: {
-    type: "daily" | "weekdays" | "customDays" | "timesPerWeek";
-    daysOfWeek?: number[];
-    timesPerWeek?: number;
-  };
-  goalType: "check" | "count";
+  categoryId?: string;
+  kind: "build" | "quit";
+  schedule: HabitSchedule;
+  goalType: Habit["goalType"];
   goalTarget?: number;
-  reminderTime?: string;
+  focusLink?: HabitFocusLink;
+  reminderTimes?: string[];
+  freezesPerMonth: number;
 }
 
-const HABIT_TEMPLATES = [
-  { name: "Exercise", icon: "dumbbell", color: HABIT_COLORS[3], schedule: "daily" },
-  { name: "Read", icon: "book", color: HABIT_COLORS[4], schedule: "daily" },
-  { name: "Drink Water", icon: "droplets", color: HABIT_COLORS[6], schedule: "daily" },
-  { name: "Meditate", icon: "brain", color: HABIT_COLORS[4], schedule: "daily" },
-  { name: "Sleep Early", icon: "moon", color: HABIT_COLORS[3], schedule: "daily" },
-  { name: "Morning Routine", icon: "sun", color: HABIT_COLORS[0], schedule: "daily" },
-] as const;
-
-const ICONS = [
-  { id: "dumbbell", icon: Dumbbell, label: "Exercise" },
-  { id: "book", icon: Book, label: "Reading" },
-  { id: "droplets", icon: Droplets, label: "Water" },
-  { id: "moon", icon: Moon, label: "Sleep" },
-  { id: "sun", icon: Sun, label: "Morning" },
-  { id: "coffee", icon: Coffee, label: "Coffee" },
-  { id: "heart", icon: Heart, label: "Health" },
-  { id: "brain", icon: Brain, label: "Mind" },
-  { id: "footprints", icon: Footprints, label: "Steps" },
-  { id: "apple", icon: Apple, label: "Nutrition" },
-  { id: "pill", icon: Pill, label: "Medicine" },
-  { id: "music", icon: Music, label: "Music" },
-  { id: "pencil", icon: Pencil, label: "Writing" },
-  { id: "code", icon: Code, label: "Coding" },
-  { id: "languages", icon: Languages, label: "Language" },
-] as const;
-
 const COLOR_NAMES: Record<string, string> = {
   "#F59E0B": "Amber",
   "#EF4444": "Red",
@@ -80,39 +54,87 @@ const SCHEDULE_OPTIONS = [
   { value: "weekdays", label: "Weekdays", desc: "Mon–Fri only" },
   { value: "customDays", label: "Custom days", desc: "Pick specific days" },
   { value: "timesPerWeek", label: "Flexible", desc: "X times per week" },
+  { value: "interval", label: "Every few days", desc: "Every N days" },
+  { value: "monthlyDays", label: "Monthly dates", desc: "e.g. the 1st and 15th" },
+  { value: "monthlyWeekday", label: "Monthly weekday", desc: "e.g. last Friday" },
+  { value: "timesPerMonth", label: "Monthly goal", desc: "X times per month" },
 ] as const;
 
+const WEEK_OF_MONTH_OPTIONS = [
+  { value: 1, label: "1st" },
+  { value: 2, label: "2nd" },
+  { value: 3, label: "3rd" },
+  { value: 4, label: "4th" },
+  { value: -1, label: "Last" },
+] as const;
+
+const FOCUS_MODE_OPTIONS: { value: HabitFocusLink["mode"]; label: string }[] = [
+  { value: undefined, label: "Any mode" },
+  { value: "pomodoro", label: "Pomodoro" },
+  { value: "deepFocus", label: "Deep focus" },
+  { value: "flow", label: "Flow" },
+];
+
 export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: HabitFormDialogProps) {
   const [step, setStep] = useState<"template" | "details" | "schedule">(editingHabit ? "details" : "template");
+  const [templateGroup, setTemplateGroup] = useState<HabitTemplateGroup>("Health");
   
   // Form state
   const [name, setName] = useState(editingHabit?.name || "");
   const [description, setDescription] = useState(editingHabit?.description || "");
-  const [scheduleType, setScheduleType] = useState<"daily" | "weekdays" | "customDays" | "timesPerWeek">(
+  const [scheduleType, setScheduleType] = useState<HabitSchedule["type"]>(
     editingHabit?.schedule.type || "daily"
   );
-  const [customDays, setCustomDays] = useState<number[]>(editingHabit?.schedule.daysOfWeek || [1, 2, 3, 4, 5]);
+  const [customDays, setCustomDays] = useState<number[]>(
+    editingHabit?.schedule.type === "customDays" ? editingHabit.schedule.daysOfWeek || [] : [1, 2, 3, 4, 5]
+  );
   const [timesPerWeek, setTimesPerWeek] = useState(editingHabit?.schedule.timesPerWeek || 3);
+  const [intervalDays, setIntervalDays] = useState(editingHabit?.schedule.intervalDays || 2);
+  const [startDate, setStartDate] = useState(editingHabit?.schedule.startDate || getToday());
+  const [daysOfMonth, setDaysOfMonth] = useState<number[]>(editingHabit?.schedule.daysOfMonth || [1]);
+  const [weekOfMonth, setWeekOfMonth] = useState(editingHabit?.schedule.weekOfMonth || 1);
+  const [monthWeekday, setMonthWeekday] = useState(
+    editingHabit?.schedule.type === "monthlyWeekday" ? editingHabit.schedule.daysOfWeek?.[0] ?? 5 : 5
+  );
+  const [timesPerMonth, setTimesPerMonth] = useState(editingHabit?.schedule.timesPerMonth || 4);
   const [color, setColor] = useState<string>(editingHabit?.color || HABIT_COLORS[0]);
   const [selectedIcon, setSelectedIcon] = useState<string | null>(null);
-  const [goalType, setGoalType] = useState<"check" | "count">(editingHabit?.goalType || "check");
+  const categories = useHabitStore((s) => s.categories);
+  const [categoryId, setCategoryId] = useState<string | undefined>(editingHabit?.categoryId);
+  const [kind, setKind] = useState<"build" | "quit">(editingHabit?.kind || "build");
+  const [goalType, setGoalType] = useState<Habit["goalType"]>(editingHabit?.goalType || "check");
   const [goalTarget, setGoalTarget] = useState(editingHabit?.goalTarget || 1);
-  const [reminderEnabled, setReminderEnabled] = useState(!!editingHabit?.reminderTime);
-  const [reminderTime, setReminderTime] = useState(editingHabit?.reminderTime || "09:00");
+  const [focusKeyword, setFocusKeyword] = useState(editingHabit?.focusLink?.keyword || "");
+  const [focusMode, setFocusMode] = useState<HabitFocusLink["mode"]>(editingHabit?.focusLink?.mode);
+  const [reminderEnabled, setReminderEnabled] = useState(!!editingHabit?.reminderTimes?.length);
+  const [reminderTimes, setReminderTimes] = useState<string[]>(editingHabit?.reminderTimes || ["09:00"]);
+  const [freezesPerMonth, setFreezesPerMonth] = useState(editingHabit?.freezesPerMonth || 0);
 
   const resetForm = () => {
     setStep("template");
+    setTemplateGroup("Health");
     setName("");
     setDescription("");
     setScheduleType("daily");
     setCustomDays([1, 2, 3, 4, 5]);
     setTimesPerWeek(3);
+    setIntervalDays(2);
+    setStartDate(getToday());
+    setDaysOfMonth([1]);
+    setWeekOfMonth(1);
+    setMonthWeekday(5);
+    setTimesPerMonth(4);
     setColor(HABIT_COLORS[0]);
     setSelectedIcon(null);
+    setCategoryId(undefined);
+    setKind("build");
     setGoalType("check");
     setGoalTarget(1);
+    setFocusKeyword("");
+    setFocusMode(undefined);
     setReminderEnabled(false);
-    setReminderTime("09:00");
+    setReminderTimes(["09:00"]);
+    setFreezesPerMonth(0);
   };
 
   const handleOpenChange = (isOpen: boolean) => {
@@ -120,14 +142,37 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
     onOpenChange(isOpen);
   };
 
-  const selectTemplate = (template: typeof HABIT_TEMPLATES[number]) => {
+  const selectTemplate = (template: HabitTemplate) => {
+    const { schedule } = template;
     setName(template.name);
+    setDescription(template.description || "");
     setColor(template.color);
     setSelectedIcon(template.icon);
-    setScheduleType(template.schedule as any);
+    setKind(template.kind || "build");
+    setScheduleType(schedule.type);
+    if (schedule.daysOfWeek) setCustomDays(schedule.daysOfWeek);
+    if (schedule.timesPerWeek) setTimesPerWeek(schedule.timesPerWeek);
+    if (schedule.intervalDays) setIntervalDays(schedule.intervalDays);
+    if (schedule.daysOfMonth) setDaysOfMonth(schedule.daysOfMonth);
+    if (schedule.timesPerMonth) setTimesPerMonth(schedule.timesPerMonth);
+    setGoalType(template.goalType);
+    setGoalTarget(template.goalTarget || 1);
     setStep("details");
   };
 
+  const buildSchedule = (): HabitSchedule => ({
+    type: scheduleType,
+    daysOfWeek: scheduleType === "customDays"
+      ? customDays
+      : scheduleType === "monthlyWeekday" ? [monthWeekday] : undefined,
+    timesPerWeek: scheduleType === "timesPerWeek" ? timesPerWeek : undefined,
+    intervalDays: scheduleType === "interval" ? intervalDays : undefined,
+    startDate: scheduleType === "interval" ? startDate : undefined,
+    daysOfMonth: scheduleType === "monthlyDays" ? daysOfMonth : undefined,
+    weekOfMonth: scheduleType === "monthlyWeekday" ? weekOfMonth : undefined,
+    timesPerMonth: scheduleType === "timesPerMonth" ? timesPerMonth : undefined,
+  });
+
   const handleSave = () => {
     if (!name.trim()) return;
     
@@ -136,14 +181,16 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
       description: description.trim() || undefined,
       color,
       icon: selectedIcon || undefined,
-      schedule: {
-        type: scheduleType,
-        daysOfWeek: scheduleType === "customDays" ? customDays : undefined,
-        timesPerWeek: scheduleType === "timesPerWeek" ? timesPerWeek : undefined,
-      },
+      categoryId,
+      kind,
+      schedule: buildSchedule(),
       goalType,
-      goalTarget: goalType === "count" ? goalTarget : undefined,
-      reminderTime: reminderEnabled ? reminderTime : undefined,
+      goalTarget: goalType !== "check" ? goalTarget : undefined,
+      focusLink: goalType === "duration" && (focusKeyword.trim() || focusMode)
+        ? { keyword: focusKeyword.trim() || undefined, mode: focusMode }
+        : undefined,
+      reminderTimes: reminderEnabled && reminderTimes.length > 0 ? reminderTimes : undefined,
+      freezesPerMonth,
     });
     
     resetForm();
@@ -158,12 +205,15 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
     );
   };
 
-  const getIconComponent = (iconId: string | null) => {
-    const found = ICONS.find(i => i.id === iconId);
-    return found?.icon || Flame;
+  const toggleDayOfMonth = (day: number) => {
+    setDaysOfMonth(prev =>
+      prev.includes(day)
+        ? prev.filter(d => d !== day)
+        : [...prev, day].sort((a, b) => (a === -1 ? 32 : a) - (b === -1 ? 32 : b))
+    );
   };
 
-  const IconComponent = getIconComponent(selectedIcon);
+  const IconComponent = getHabitIcon(selectedIcon);
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
@@ -187,12 +237,27 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
               >
                 <div>
                   <p className="text-sm text-muted-foreground mb-4">Quick start with a template or create from scratch</p>
+                  <div className="flex gap-2 overflow-x-auto pb-3 -mx-1 px-1" data-no-page-swipe>
+                    {HABIT_TEMPLATE_GROUPS.map(group => (
+                      <button
+                        key={group}
+                        type="button"
+                        onClick={() => setTemplateGroup(group)}
+                        className={cn(
+                          "px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-colors",
+                          templateGroup === group ? "bg-primary text-primary-foreground" : "bg-secondary/50 hover:bg-secondary"
+                        )}
+                      >
+                        {group}
+                      </button>
+                    ))}
+                  </div>
                   <div className="grid grid-cols-2 gap-3">
-                    {HABIT_TEMPLATES.map((template) => {
-                      const TIcon = getIconComponent(template.icon);
+                    {HABIT_TEMPLATES.filter(t => t.group === templateGroup).map((template) => {
+                      const TIcon = getHabitIcon(template.icon);
                       return (
                         <motion.button
-                          key={template.name}
+                          key={template.id}
                           whileHover={{ scale: 1.02 }}
                           whileTap={{ scale: 0.98 }}
                           onClick={() => selectTemplate(template)}
@@ -205,7 +270,11 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
                             <TIcon className="w-5 h-5" style={{ color: template.color }} />
                           </div>
                           <p className="font-medium">{template.name}</p>
-                          <p className="text-xs text-muted-foreground mt-0.5 capitalize">{template.schedule}</p>
+                          <p className="text-xs text-muted-foreground mt-0.5">
+                            {template.kind === "quit" ? "Quit habit" : getScheduleLabel(template)}
+                            {template.goalType === "count" && ` · ${template.goalTarget}×`}
+                            {template.goalType === "duration" && ` · ${template.goalTarget} min`}
+                          </p>
                         </motion.button>
                       );
                     })}
@@ -260,10 +329,7 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
                       className="px-3 py-1 rounded-full text-xs font-medium"
                       style={{ backgroundColor: color + "20", color }}
                     >
-                      {scheduleType === "daily" ? "Daily" : 
-                       scheduleType === "weekdays" ? "Weekdays" : 
-                       scheduleType === "timesPerWeek" ? `${timesPerWeek}×/week` :
-                       `${customDays.length} days`}
+                      {getScheduleLabel({ schedule: buildSchedule() })}
                     </div>
                   </div>
                 </Card>
@@ -291,11 +357,51 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
                   />
                 </div>
 
+                {/* Category */}
+                {categories.length > 0 && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Category</Label>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        type="button"
+                        onClick={() => setCategoryId(undefined)}
+                        className={cn(
+                          "px-3 py-1.5 rounded-full border text-xs font-medium transition-all",
+                          !categoryId
+                            ? "border-primary bg-primary/5 text-primary"
+                            : "border-border/50 hover:border-border"
+                        )}
+                      >
+                        None
+                      </button>
+                      {categories.map(category => {
+                        const CategoryIcon = getHabitIcon(category.icon);
+                        return (
+                          <button
+                            key={category.id}
+                            type="button"
+                            onClick={() => setCategoryId(category.id)}
+                            className={cn(
+                              "flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-xs font-medium transition-all",
+                              categoryId === category.id
+                                ? "border-primary bg-primary/5"
+                                : "border-border/50 hover:border-border"
+                            )}
+                          >
+                            <CategoryIcon className="w-3.5 h-3.5" style={{ color: category.color }} />
+                            {category.name}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {/* Icon Selection */}
                 <div className="space-y-2">
                   <Label className="text-sm font-medium">Icon</Label>
                   <div className="grid grid-cols-5 gap-2">
-                    {ICONS.map(({ id, icon: Icon }) => (
+                    {HABIT_ICONS.map(({ id, icon: Icon }) => (
                       <motion.button
                         key={id}
                         whileHover={{ scale: 1.1 }}
@@ -343,45 +449,110 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
                   <p className="text-xs text-muted-foreground">{COLOR_NAMES[color]}</p>
                 </div>
 
-                {/* Goal Type */}
+                {/* Habit Kind */}
                 <div className="space-y-2">
-                  <Label className="text-sm font-medium">Goal Type</Label>
+                  <Label className="text-sm font-medium">Habit Type</Label>
                   <div className="grid grid-cols-2 gap-3">
                     <button
                       type="button"
-                      onClick={() => setGoalType("check")}
+                      onClick={() => setKind("build")}
                       className={cn(
                         "p-4 rounded-xl border text-left transition-all",
-                        goalType === "check" 
-                          ? "border-primary bg-primary/5" 
+                        kind === "build"
+                          ? "border-primary bg-primary/5"
                           : "border-border/50 hover:border-border"
                       )}
                     >
                       <div className="w-8 h-8 rounded-lg bg-success/20 flex items-center justify-center mb-2">
-                        <Check className="w-4 h-4 text-success" />
+                        <Flame className="w-4 h-4 text-success" />
                       </div>
-                      <p className="font-medium text-sm">Check off</p>
-                      <p className="text-xs text-muted-foreground">Done or not done</p>
+                      <p className="font-medium text-sm">Build</p>
+                      <p className="text-xs text-muted-foreground">Something to do</p>
                     </button>
                     <button
                       type="button"
-                      onClick={() => setGoalType("count")}
+                      onClick={() => {
+                        setKind("quit");
+                        setGoalType("check");
+                        setScheduleType("daily");
+                        setFreezesPerMonth(0);
+                      }}
                       className={cn(
                         "p-4 rounded-xl border text-left transition-all",
-                        goalType === "count" 
-                          ? "border-primary bg-primary/5" 
+                        kind === "quit"
+                          ? "border-primary bg-primary/5"
                           : "border-border/50 hover:border-border"
                       )}
                     >
-                      <div className="w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center mb-2 font-bold text-sm text-primary">
-                        #
+                      <div className="w-8 h-8 rounded-lg bg-destructive/20 flex items-center justify-center mb-2">
+                        <Ban className="w-4 h-4 text-destructive" />
                       </div>
-                      <p className="font-medium text-sm">Count</p>
-                      <p className="text-xs text-muted-foreground">Track a number</p>
+                      <p className="font-medium text-sm">Quit</p>
+                      <p className="text-xs text-muted-foreground">Something to stop</p>
                     </button>
                   </div>
                 </div>
 
+                {/* Goal Type */}
+                {kind === "build" && (
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium">Goal Type</Label>
+                    <div className="grid grid-cols-3 gap-3">
+                      <button
+                        type="button"
+                        onClick={() => setGoalType("check")}
+                        className={cn(
+                          "p-4 rounded-xl border text-left transition-all",
+                          goalType === "check" 
+                            ? "border-primary bg-primary/5" 
+                            : "border-border/50 hover:border-border"
+                        )}
+                      >
+                        <div className="w-8 h-8 rounded-lg bg-success/20 flex items-center justify-center mb-2">
+                          <Check className="w-4 h-4 text-success" />
+                        </div>
+                        <p className="font-medium text-sm">Check off</p>
+                        <p className="text-xs text-muted-foreground">Done or not done</p>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setGoalType("count")}
+                        className={cn(
+                          "p-4 rounded-xl border text-left transition-all",
+                          goalType === "count" 
+                            ? "border-primary bg-primary/5" 
+                            : "border-border/50 hover:border-border"
+                        )}
+                      >
+                        <div className="w-8 h-8 rounded-lg bg-primary/20 flex items-center justify-center mb-2 font-bold text-sm text-primary">
+                          #
+                        </div>
+                        <p className="font-medium text-sm">Count</p>
+                        <p className="text-xs text-muted-foreground">Track a number</p>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (goalType !== "duration") setGoalTarget(30);
+                          setGoalType("duration");
+                        }}
+                        className={cn(
+                          "p-4 rounded-xl border text-left transition-all",
+                          goalType === "duration"
+                            ? "border-primary bg-primary/5"
+                            : "border-border/50 hover:border-border"
+                        )}
+                      >
+                        <div className="w-8 h-8 rounded-lg bg-accent/20 flex items-center justify-center mb-2">
+                          <Timer className="w-4 h-4 text-accent" />
+                        </div>
+                        <p className="font-medium text-sm">Duration</p>
+                        <p className="text-xs text-muted-foreground">Minutes per day</p>
+                      </button>
+                    </div>
+                  </div>
+                )}
+
                 {goalType === "count" && (
                   <motion.div 
                     initial={{ opacity: 0, height: 0 }}
@@ -416,6 +587,75 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
                     </div>
                   </motion.div>
                 )}
+
+                {goalType === "duration" && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: "auto" }}
+                    className="space-y-4"
+                  >
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Minutes per Day</Label>
+                      <div className="flex items-center gap-3">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setGoalTarget(Math.max(5, goalTarget - 5))}
+                        >
+                          -
+                        </Button>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={goalTarget}
+                          onChange={e => setGoalTarget(parseInt(e.target.value) || 1)}
+                          className="w-20 text-center"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setGoalTarget(goalTarget + 5)}
+                        >
+                          +
+                        </Button>
+                        <span className="text-sm text-muted-foreground">min</span>
+                      </div>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">Count Focus Sessions</Label>
+                      <Input
+                        value={focusKeyword}
+                        onChange={e => setFocusKeyword(e.target.value)}
+                        placeholder="Task contains (e.g., Spanish)"
+                      />
+                      <div className="grid grid-cols-3 gap-2">
+                        {FOCUS_MODE_OPTIONS.map(option => (
+                          <button
+                            key={option.label}
+                            type="button"
+                            onClick={() => setFocusMode(option.value)}
+                            className={cn(
+                              "py-2 rounded-lg border text-xs font-medium transition-all",
+                              focusMode === option.value
+                                ? "border-primary bg-primary/5 text-primary"
+                                : "border-border/50 hover:border-border"
+                            )}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {focusKeyword.trim() || focusMode
+                          ? "Completed focus sessions that match add their minutes automatically"
+                          : "Add a task keyword or pick a mode to log focus time automatically"}
+                      </p>
+                    </div>
+                  </motion.div>
+                )}
               </motion.div>
             )}
 
@@ -428,25 +668,31 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
                 exit={{ opacity: 0, x: -20 }}
                 className="space-y-6"
               >
-                <div className="space-y-3">
-                  {SCHEDULE_OPTIONS.map((option) => (
-                    <motion.button
-                      key={option.value}
-                      whileTap={{ scale: 0.98 }}
-                      type="button"
-                      onClick={() => setScheduleType(option.value)}
-                      className={cn(
-                        "w-full p-4 rounded-xl border text-left transition-all",
-                        scheduleType === option.value 
-                          ? "border-primary bg-primary/5" 
-                          : "border-border/50 hover:border-border"
-                      )}
-                    >
-                      <p className="font-medium">{option.label}</p>
-                      <p className="text-sm text-muted-foreground">{option.desc}</p>
-                    </motion.button>
-                  ))}
-                </div>
+                {kind === "quit" ? (
+                  <p className="text-sm text-muted-foreground">
+                    Quit habits are tracked every day. Log a slip whenever it happens.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-3">
+                    {SCHEDULE_OPTIONS.map((option) => (
+                      <motion.button
+                        key={option.value}
+                        whileTap={{ scale: 0.98 }}
+                        type="button"
+                        onClick={() => setScheduleType(option.value)}
+                        className={cn(
+                          "w-full p-3 rounded-xl border text-left transition-all",
+                          scheduleType === option.value 
+                            ? "border-primary bg-primary/5" 
+                            : "border-border/50 hover:border-border"
+                        )}
+                      >
+                        <p className="font-medium text-sm">{option.label}</p>
+                        <p className="text-xs text-muted-foreground">{option.desc}</p>
+                      </motion.button>
+                    ))}
+                  </div>
+                )}
 
                 <AnimatePresence mode="wait">
                   {scheduleType === "customDays" && (
@@ -516,14 +762,212 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
                       </p>
                     </motion.div>
                   )}
+
+                  {scheduleType === "interval" && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: "auto" }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className="space-y-3"
+                    >
+                      <Label className="text-sm font-medium">Repeat every</Label>
+                      <div className="flex items-center gap-3">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setIntervalDays(Math.max(2, intervalDays - 1))}
+                        >
+                          -
+                        </Button>
+                        <Input
+                          type="number"
+                          min={2}
+                          max={365}
+                          value={intervalDays}
+                          onChange={e => setIntervalDays(Math.max(2, parseInt(e.target.value) || 2))}
+                          className="w-20 text-center"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setIntervalDays(Math.min(365, intervalDays + 1))}
+                        >
+                          +
+                        </Button>
+                        <span className="text-sm text-muted-foreground">days</span>
+                      </div>
+                      <Label className="text-sm font-medium">Starting from</Label>
+                      <Input
+                        type="date"
+                        value={startDate}
+                        onChange={e => setStartDate(e.target.value || getToday())}
+                      />
+                    </motion.div>
+                  )}
+
+                  {scheduleType === "monthlyDays" && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: "auto" }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className="space-y-3"
+                    >
+                      <Label className="text-sm font-medium">Select dates</Label>
+                      <div className="grid grid-cols-7 gap-2">
+                        {[...Array.from({ length: 31 }, (_, i) => i + 1), -1].map((day) => (
+                          <button
+                            key={day}
+                            type="button"
+                            onClick={() => toggleDayOfMonth(day)}
+                            className={cn(
+                              "aspect-square rounded-lg text-xs font-medium transition-all flex items-center justify-center",
+                              day === -1 && "col-span-2 aspect-auto",
+                              daysOfMonth.includes(day)
+                                ? "text-primary-foreground shadow-glow"
+                                : "bg-secondary text-muted-foreground hover:text-foreground"
+                            )}
+                            style={daysOfMonth.includes(day) ? { backgroundColor: color } : {}}
+                          >
+                            {day === -1 ? "Last day" : day}
+                          </button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground text-center">
+                        {daysOfMonth.length === 0
+                          ? "Pick at least one date"
+                          : `On the ${daysOfMonth.map(d => (d === -1 ? "last day" : formatOrdinal(d))).join(", ")}`}
+                      </p>
+                    </motion.div>
+                  )}
+
+                  {scheduleType === "monthlyWeekday" && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: "auto" }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className="space-y-3"
+                    >
+                      <Label className="text-sm font-medium">Which week?</Label>
+                      <div className="grid grid-cols-5 gap-2">
+                        {WEEK_OF_MONTH_OPTIONS.map((option) => (
+                          <button
+                            key={option.value}
+                            type="button"
+                            onClick={() => setWeekOfMonth(option.value)}
+                            className={cn(
+                              "h-10 rounded-xl text-sm font-medium transition-all",
+                              weekOfMonth === option.value
+                                ? "text-primary-foreground shadow-glow"
+                                : "bg-secondary text-muted-foreground hover:text-foreground"
+                            )}
+                            style={weekOfMonth === option.value ? { backgroundColor: color } : {}}
+                          >
+                            {option.label}
+                          </button>
+                        ))}
+                      </div>
+                      <Label className="text-sm font-medium">Which day?</Label>
+                      <div className="grid grid-cols-7 gap-2">
+                        {DAY_NAMES.map((day, i) => (
+                          <button
+                            key={day}
+                            type="button"
+                            onClick={() => setMonthWeekday(i)}
+                            className={cn(
+                              "aspect-square rounded-xl text-sm font-medium transition-all flex items-center justify-center",
+                              monthWeekday === i
+                                ? "text-primary-foreground shadow-glow"
+                                : "bg-secondary text-muted-foreground hover:text-foreground"
+                            )}
+                            style={monthWeekday === i ? { backgroundColor: color } : {}}
+                          >
+                            {day}
+                          </button>
+                        ))}
+                      </div>
+                    </motion.div>
+                  )}
+
+                  {scheduleType === "timesPerMonth" && (
+                    <motion.div
+                      initial={{ opacity: 0, height: 0 }}
+                      animate={{ opacity: 1, height: "auto" }}
+                      exit={{ opacity: 0, height: 0 }}
+                      className="space-y-3"
+                    >
+                      <Label className="text-sm font-medium">How many times per month?</Label>
+                      <div className="flex items-center gap-3">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setTimesPerMonth(Math.max(1, timesPerMonth - 1))}
+                        >
+                          -
+                        </Button>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={31}
+                          value={timesPerMonth}
+                          onChange={e => setTimesPerMonth(Math.min(31, Math.max(1, parseInt(e.target.value) || 1)))}
+                          className="w-20 text-center"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          onClick={() => setTimesPerMonth(Math.min(31, timesPerMonth + 1))}
+                        >
+                          +
+                        </Button>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {timesPerMonth} time{timesPerMonth !== 1 ? "s" : ""} per month, any days you choose
+                      </p>
+                    </motion.div>
+                  )}
                 </AnimatePresence>
 
+                {/* Streak Freezes */}
+                {kind === "build" && (
+                  <div className="pt-4 border-t border-border/50 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Snowflake className="w-4 h-4 text-primary" />
+                      <Label className="text-sm font-medium">Streak freezes per month</Label>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2">
+                      {[0, 1, 2, 3].map((n) => (
+                        <button
+                          key={n}
+                          type="button"
+                          onClick={() => setFreezesPerMonth(n)}
+                          className={cn(
+                            "h-10 rounded-xl text-sm font-medium transition-all",
+                            freezesPerMonth === n
+                              ? "text-primary-foreground shadow-glow"
+                              : "bg-secondary text-muted-foreground hover:text-foreground"
+                          )}
+                          style={freezesPerMonth === n ? { backgroundColor: color } : {}}
+                        >
+                          {n === 0 ? "None" : n}
+                        </button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Spend a freeze on a missed day to keep your streak alive
+                    </p>
+                  </div>
+                )}
+
                 {/* Reminder Section */}
                 <div className="pt-4 border-t border-border/50 space-y-3">
                   <div className="flex items-center justify-between">
                     <div className="flex items-center gap-2">
                       <Bell className="w-4 h-4 text-primary" />
-                      <Label className="text-sm font-medium">Daily Reminder</Label>
+                      <Label className="text-sm font-medium">Reminders</Label>
                     </div>
                     <Switch
                       checked={reminderEnabled}
@@ -536,15 +980,42 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
                       initial={{ opacity: 0, height: 0 }}
                       animate={{ opacity: 1, height: "auto" }}
                       exit={{ opacity: 0, height: 0 }}
+                      className="space-y-2"
                     >
-                      <Input
-                        type="time"
-                        value={reminderTime}
-                        onChange={(e) => setReminderTime(e.target.value)}
-                        className="w-full"
-                      />
-                      <p className="text-xs text-muted-foreground mt-2">
-                        You'll receive a notification at this time when the habit is due
+                      {reminderTimes.map((time, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <Input
+                            type="time"
+                            value={time}
+                            onChange={(e) => setReminderTimes(prev => prev.map((t, i) => (i === index ? e.target.value : t)))}
+                            className="flex-1"
+                          />
+                          {reminderTimes.length > 1 && (
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setReminderTimes(prev => prev.filter((_, i) => i !== index))}
+                            >
+                              <X className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                      {reminderTimes.length < 5 && (
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={() => setReminderTimes(prev => [...prev, "18:00"])}
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          Add time
+                        </Button>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        You'll be reminded at these times on days the habit is due, until it's done
                       </p>
                     </motion.div>
                   )}
@@ -577,7 +1048,7 @@ export function HabitFormDialog({ open, onOpenChange, editingHabit, onSave }: Ha
           {step === "schedule" && (
             <Button 
               onClick={handleSave}
-              disabled={!name.trim()}
+              disabled={!name.trim() || (scheduleType === "monthlyDays" && daysOfMonth.length === 0)}
               className="gradient-primary text-primary-foreground shadow-glow"
             >
               {editingHabit ? "Save Changes" : "Create Habit"}
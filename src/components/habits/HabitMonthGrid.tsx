@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Snowflake } from "lucide-react";
+import { addMonths, endOfMonth, format, getDay, isSameMonth, startOfMonth } from "date-fns";
+import { useHabitStore } from "@/store/habitStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import {
+  cn, getToday, isFutureDate, isHabitDueOnDate, isHabitPausedOnDate, getFreezesRemaining, isQuitHabit, isHabitCompletedOnDate,
+} from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { HabitDayEditor } from "@/components/habits/HabitDayEditor";
+import { DAY_NAMES, type Habit, type HabitLog } from "@/types";
+import { toast } from "@/lib/toast";
+
+interface HabitMonthGridProps {
+  habit: Habit;
+  logs: HabitLog[];
+}
+
+export function HabitMonthGrid({ habit, logs }: HabitMonthGridProps) {
+  const { pauses, logHabitForDate, clearHabitLog, spendFreeze, logSlip } = useHabitStore();
+  const weekStartsMonday = useSettingsStore((s) => s.settings.weekStartsMonday);
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+
+  const today = getToday();
+  const color = habit.color || "hsl(var(--primary))";
+  const isCurrentMonth = isSameMonth(month, new Date());
+  const isQuit = isQuitHabit(habit);
+
+  const daysInMonth = endOfMonth(month).getDate();
+  const leadingBlanks = (getDay(month) - (weekStartsMonday ? 1 : 0) + 7) % 7;
+  const weekdayLabels = weekStartsMonday ? [...DAY_NAMES.slice(1), DAY_NAMES[0]] : [...DAY_NAMES];
+
+  const days = Array.from({ length: daysInMonth }, (_, i) => {
+    const date = new Date(month.getFullYear(), month.getMonth(), i + 1);
+    const dateStr = format(date, "yyyy-MM-dd");
+    return {
+      date,
+      dateStr,
+      log: logs.find(l => l.habitId === habit.id && l.date === dateStr),
+    };
+  });
+
+  // A freeze can cover a missed past day while this month's budget lasts
+  const canFreeze = (date: Date, dateStr: string, log: HabitLog | undefined) =>
+    dateStr < today &&
+    log?.status !== "done" &&
+    log?.status !== "frozen" &&
+    isHabitDueOnDate(habit, date, pauses) &&
+    getFreezesRemaining(habit, logs, date) > 0;
+
+  // Check habits cycle empty → done → skipped → (frozen) → empty on each tap
+  const cycleStatus = (date: Date, dateStr: string, log: HabitLog | undefined) => {
+    if (isFutureDate(dateStr)) {
+      toast.error("You can't log a habit for a future date");
+      return;
+    }
+
+    // Quit habits toggle a slip on and off
+    if (isQuit) {
+      if (log?.status === "slipped") clearHabitLog(habit.id, dateStr);
+      else logSlip(habit.id, dateStr);
+      return;
+    }
+
+    if (!log) {
+      logHabitForDate(habit.id, dateStr, "done");
+    } else if (log.status === "done") {
+      logHabitForDate(habit.id, dateStr, "skipped", undefined, log.note);
+    } else if (log.status === "skipped" && canFreeze(date, dateStr, log)) {
+      spendFreeze(habit.id, dateStr);
+    } else {
+      clearHabitLog(habit.id, dateStr);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setMonth(m => addMonths(m, -1))}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <p className="text-sm font-medium">{format(month, "MMMM yyyy")}</p>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          disabled={isCurrentMonth}
+          onClick={() => setMonth(m => addMonths(m, 1))}
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 mb-1">
+        {weekdayLabels.map(day => (
+          <div key={day} className="text-center text-2xs text-muted-foreground">{day}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {Array.from({ length: leadingBlanks }, (_, i) => (
+          <div key={`blank-${i}`} />
+        ))}
+        {days.map(({ date, dateStr, log }) => {
+          const isFuture = dateStr > today;
+          const isPaused = isHabitPausedOnDate(habit, date, pauses);
+          const isDue = isHabitDueOnDate(habit, date, pauses);
+          const isDone = isHabitCompletedOnDate(habit, logs, dateStr);
+          const isSlipped = log?.status === "slipped";
+          const isSkipped = log?.status === "skipped";
+          const isFrozen = log?.status === "frozen";
+          const isPartial = log?.status === "partial";
+
+          const cellClassName = cn(
+            "aspect-square w-full rounded-md flex items-center justify-center text-xs font-medium transition-all",
+            isDone && "text-primary-foreground",
+            isSkipped && "bg-muted text-muted-foreground line-through",
+            isFrozen && "bg-primary/15 text-primary",
+            isPartial && "text-foreground",
+            isSlipped && "bg-destructive/80 text-destructive-foreground",
+            !log && !isDone && "bg-secondary text-muted-foreground",
+            !log && !isDue && "opacity-50",
+            !log && isPaused && "border border-dashed border-muted-foreground/40",
+            dateStr === today && "ring-2 ring-primary ring-offset-1 ring-offset-background",
+            isFuture ? "opacity-30 cursor-not-allowed" : "hover:scale-105"
+          );
+          const cellStyle = isDone
+            ? { backgroundColor: color }
+            : isPartial
+              ? { backgroundColor: `color-mix(in srgb, ${color} 35%, transparent)` }
+              : {};
+          const cellTitle = isPaused
+            ? `${dateStr} (paused)`
+            : isFrozen
+              ? `${dateStr} (freeze used)`
+              : isSlipped ? `${dateStr} (${log.value || 1} slip${(log.value || 1) !== 1 ? "s" : ""})` : dateStr;
+          const cellLabel = isFrozen ? <Snowflake className="w-3 h-3" /> : date.getDate();
+
+          if (habit.goalType !== "check" && !isQuit && !isFuture) {
+            return (
+              <HabitDayEditor key={dateStr} habit={habit} date={dateStr} log={log}>
+                <button type="button" className={cellClassName} style={cellStyle} title={cellTitle}>
+                  {log?.value ?? cellLabel}
+                </button>
+              </HabitDayEditor>
+            );
+          }
+
+          return (
+            <button
+              key={dateStr}
+              type="button"
+              disabled={isFuture}
+              className={cellClassName}
+              style={cellStyle}
+              title={cellTitle}
+              onClick={() => cycleStatus(date, dateStr, log)}
+            >
+              {cellLabel}
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-2">
+        {isQuit
+          ? "Tap a day to log a slip or clear it"
+          : habit.goalType === "count"
+            ? "Tap a day to set its count or mark it skipped"
+            : habit.goalType === "duration"
+              ? "Tap a day to set its minutes or mark it skipped"
+              : habit.freezesPerMonth
+                ? "Tap a day to mark it done, skipped, frozen or clear it"
+                : "Tap a day to mark it done, skipped or clear it"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Pause, Play, Snowflake, Trash2 } from "lucide-react";
+import { useHabitStore } from "@/store/habitStore";
+import { formatDate, getActivePause, getFreezesRemaining, getToday } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { Habit } from "@/types";
+import { toast } from "@/lib/toast";
+
+interface HabitPauseSectionProps {
+  habit: Habit;
+}
+
+export function HabitPauseSection({ habit }: HabitPauseSectionProps) {
+  const { logs, pauses, addPause, endPause, deletePause } = useHabitStore();
+  const [showForm, setShowForm] = useState(false);
+  const [startDate, setStartDate] = useState(getToday());
+  const [endDate, setEndDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const activePause = getActivePause(habit, pauses);
+  const habitPauses = pauses
+    .filter(p => p.habitId === habit.id)
+    .sort((a, b) => b.startDate.localeCompare(a.startDate));
+  const freezesRemaining = getFreezesRemaining(habit, logs);
+
+  const handleAddPause = async () => {
+    if (endDate && endDate < startDate) {
+      toast.error("End date must be after the start date");
+      return;
+    }
+
+    await addPause({
+      habitId: habit.id,
+      startDate,
+      endDate: endDate || undefined,
+      reason: reason.trim() || undefined,
+    });
+    toast.success("Habit paused. Your streak is safe.");
+    setShowForm(false);
+    setStartDate(getToday());
+    setEndDate("");
+    setReason("");
+  };
+
+  const formatRange = (start: string, end?: string) =>
+    end ? `${formatDate(start)} – ${formatDate(end)}` : `Since ${formatDate(start)}`;
+
+  return (
+    <div className="space-y-3">
+      {(habit.freezesPerMonth || 0) > 0 && (
+        <div className="flex items-center gap-2 text-sm">
+          <Snowflake className="w-4 h-4 text-primary" />
+          <span>
+            {freezesRemaining} of {habit.freezesPerMonth} streak freeze{habit.freezesPerMonth !== 1 ? "s" : ""} left this month
+          </span>
+        </div>
+      )}
+
+      {activePause ? (
+        <div className="p-3 rounded-xl bg-secondary/50 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <p className="text-sm font-medium">
+              {activePause.habitId ? "Paused" : "Vacation mode"}
+            </p>
+            <p className="text-xs text-muted-foreground truncate">
+              {formatRange(activePause.startDate, activePause.endDate)}
+              {activePause.reason ? ` · ${activePause.reason}` : ""}
+            </p>
+          </div>
+          {activePause.habitId && (
+            <Button size="sm" variant="outline" onClick={() => endPause(activePause.id)}>
+              <Play className="w-4 h-4 mr-1" />
+              Resume
+            </Button>
+          )}
+        </div>
+      ) : showForm ? (
+        <div className="p-3 rounded-xl border border-border/50 space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">From</Label>
+              <Input type="date" value={startDate} onChange={e => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Until (optional)</Label>
+              <Input type="date" value={endDate} min={startDate} onChange={e => setEndDate(e.target.value)} />
+            </div>
+          </div>
+          <Input
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Reason (e.g., sick, travelling)"
+          />
+          <div className="flex gap-2">
+            <Button size="sm" className="flex-1 gradient-primary text-primary-foreground" onClick={handleAddPause}>
+              Pause habit
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" className="w-full" onClick={() => setShowForm(true)}>
+          <Pause className="w-4 h-4 mr-2" />
+          Pause habit
+        </Button>
+      )}
+
+      {habitPauses.filter(p => p.id !== activePause?.id).length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Pause history</p>
+          {habitPauses.filter(p => p.id !== activePause?.id).map(pause => (
+            <div key={pause.id} className="flex items-center justify-between text-xs">
+              <span>
+                {formatRange(pause.startDate, pause.endDate)}
+                {pause.reason ? ` · ${pause.reason}` : ""}
+              </span>
+              <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => deletePause(pause.id)}>
+                <Trash2 className="w-3 h-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import { Reorder } from "framer-motion";
+import { GripVertical } from "lucide-react";
+import type { Habit } from "@/types";
+
+interface HabitReorderListProps {
+  habits: Habit[];
+  onReorder: (orderedIds: string[]) => void;
+}
+
+// Drag rows to reorder; the new order is saved when a drag ends
+export function HabitReorderList({ habits, onReorder }: HabitReorderListProps) {
+  const [items, setItems] = useState(habits);
+
+  useEffect(() => {
+    setItems(habits);
+  }, [habits]);
+
+  return (
+    <Reorder.Group axis="y" values={items} onReorder={setItems} className="space-y-2">
+      {items.map(habit => (
+        <Reorder.Item
+          key={habit.id}
+          value={habit}
+          onDragEnd={() => onReorder(items.map(h => h.id))}
+          className="flex items-center gap-3 p-3 rounded-xl glass cursor-grab active:cursor-grabbing touch-none select-none"
+        >
+          <GripVertical className="w-4 h-4 text-muted-foreground flex-shrink-0" />
+          <div
+            className="w-3 h-3 rounded-full flex-shrink-0"
+            style={{ backgroundColor: habit.color || "hsl(var(--primary))" }}
+          />
+          <span className="font-medium text-sm truncate">{habit.name}</span>
+        </Reorder.Item>
+      ))}
+    </Reorder.Group>
+  );
+}
@@ -0,0 +1,36 @@
+import { Activity } from "lucide-react";
+import { useHabitStore } from "@/store/habitStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import { calculateHabitStrength } from "@/lib/utils";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import type { Habit, HabitLog } from "@/types";
+
+interface HabitStrengthCardProps {
+  habit: Habit;
+  logs: HabitLog[];
+}
+
+export function HabitStrengthCard({ habit, logs }: HabitStrengthCardProps) {
+  const pauses = useHabitStore((s) => s.pauses);
+  const weekStartsMonday = useSettingsStore((s) => s.settings.weekStartsMonday);
+  const strength = calculateHabitStrength(habit, logs, weekStartsMonday, pauses);
+
+  return (
+    <Card className="glass">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-2">
+          <p className="text-sm font-medium flex items-center gap-2">
+            <Activity className="w-4 h-4 text-primary" />
+            Habit strength
+          </p>
+          <span className="text-lg font-bold">{strength}%</span>
+        </div>
+        <Progress value={strength} className="h-2" />
+        <p className="text-xs text-muted-foreground mt-2">
+          Grows with each completion and fades gradually after misses
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+import type { CSSProperties } from "react";
+import { addDays, format, startOfWeek } from "date-fns";
+import { useHabitStore } from "@/store/habitStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import { cn, isHabitCompletedOnDate, isHabitPausedOnDate, isQuitHabit } from "@/lib/utils";
+import { HabitDayEditor } from "@/components/habits/HabitDayEditor";
+import type { Habit, HabitLog } from "@/types";
+
+const WEEKS = 53;
+
+interface HabitYearHeatmapProps {
+  habit: Habit;
+  logs: HabitLog[];
+}
+
+// GitHub-style grid of the last year, one column per week; tap a day to edit it
+export function HabitYearHeatmap({ habit, logs }: HabitYearHeatmapProps) {
+  const pauses = useHabitStore((s) => s.pauses);
+  const weekStartsMonday = useSettingsStore((s) => s.settings.weekStartsMonday);
+
+  const today = new Date();
+  const todayStr = format(today, "yyyy-MM-dd");
+  const createdStr = format(habit.createdAt, "yyyy-MM-dd");
+  const color = habit.color || "hsl(var(--primary))";
+  const isQuit = isQuitHabit(habit);
+
+  const firstDay = addDays(startOfWeek(today, { weekStartsOn: weekStartsMonday ? 1 : 0 }), -(WEEKS - 1) * 7);
+  const weeks = Array.from({ length: WEEKS }, (_, w) =>
+    Array.from({ length: 7 }, (_, d) => {
+      const date = addDays(firstDay, w * 7 + d);
+      const dateStr = format(date, "yyyy-MM-dd");
+      return { date, dateStr, log: logs.find(l => l.habitId === habit.id && l.date === dateStr) };
+    })
+  );
+
+  // Count and duration habits shade by progress toward the goal
+  const getIntensity = (dateStr: string, log: HabitLog | undefined): number => {
+    if (isQuit) return isHabitCompletedOnDate(habit, logs, dateStr) ? 1 : 0;
+    if (!log || (log.status !== "done" && log.status !== "partial")) return 0;
+    if (habit.goalType === "check") return 1;
+    return Math.min(1, (log.value || 0) / (habit.goalTarget || 1));
+  };
+
+  const getCellStyle = (dateStr: string, log: HabitLog | undefined): CSSProperties => {
+    const intensity = getIntensity(dateStr, log);
+    if (intensity === 0) return {};
+    return { backgroundColor: `color-mix(in srgb, ${color} ${Math.round(25 + intensity * 75)}%, transparent)` };
+  };
+
+  return (
+    <div className="overflow-x-auto pb-2" data-no-page-swipe>
+      <div className="inline-flex flex-col gap-1">
+        <div className="flex gap-[3px] text-[10px] text-muted-foreground h-3">
+          {weeks.map((week, w) => {
+            const first = week[0].date;
+            const showMonth = w === 0 || first.getDate() <= 7;
+            return (
+              <div key={w} className="w-3 whitespace-nowrap">
+                {showMonth ? format(first, "MMM") : ""}
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex gap-[3px]">
+          {weeks.map((week, w) => (
+            <div key={w} className="flex flex-col gap-[3px]">
+              {week.map(({ date, dateStr, log }) => {
+                if (dateStr > todayStr) return <div key={dateStr} className="w-3 h-3" />;
+
+                const cell = (
+                  <button
+                    type="button"
+                    title={`${format(date, "MMM d, yyyy")}${log?.note ? ` — ${log.note}` : ""}`}
+                    className={cn(
+                      "w-3 h-3 rounded-sm bg-secondary/60 transition-transform hover:scale-125",
+                      log?.status === "skipped" && "bg-muted-foreground/30",
+                      log?.status === "frozen" && "bg-primary/15",
+                      log?.status === "slipped" && "bg-destructive",
+                      isHabitPausedOnDate(habit, date, pauses) && !log && "opacity-40",
+                      dateStr < createdStr && !log && "opacity-50",
+                      dateStr === todayStr && "ring-1 ring-primary"
+                    )}
+                    style={getCellStyle(dateStr, log)}
+                  />
+                );
+
+                return (
+                  <HabitDayEditor key={dateStr} habit={habit} date={dateStr} log={log}>
+                    {cell}
+                  </HabitDayEditor>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useState, type ReactNode } from "react";
+import { useHabitStore } from "@/store/habitStore";
+import { getToday } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { Habit } from "@/types";
+import { toast } from "@/lib/toast";
+
+interface LogSlipPopoverProps {
+  habit: Habit;
+  children: ReactNode;
+}
+
+export function LogSlipPopover({ habit, children }: LogSlipPopoverProps) {
+  const { logSlip } = useHabitStore();
+  const [open, setOpen] = useState(false);
+  const [note, setNote] = useState("");
+
+  const handleLogSlip = async () => {
+    await logSlip(habit.id, getToday(), note.trim() || undefined);
+    toast("Slip logged. Tomorrow is a fresh start.");
+    setNote("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end" onClick={e => e.stopPropagation()}>
+        <p className="text-sm font-medium">Log a slip today</p>
+        <Input
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="What triggered it? (optional)"
+          className="h-9"
+        />
+        <div className="flex gap-2">
+          <Button size="sm" variant="destructive" className="flex-1" onClick={handleLogSlip}>
+            Log slip
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,60 @@
+import { differenceInCalendarDays, parseISO, startOfDay } from "date-fns";
+import { Trash2 } from "lucide-react";
+import { useHabitStore } from "@/store/habitStore";
+import { formatDate, getSlipLogs } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import type { Habit, HabitLog } from "@/types";
+
+interface RelapseTimelineProps {
+  habit: Habit;
+  logs: HabitLog[];
+}
+
+export function RelapseTimeline({ habit, logs }: RelapseTimelineProps) {
+  const { clearHabitLog } = useHabitStore();
+  const slips = getSlipLogs(habit, logs);
+
+  if (slips.length === 0) {
+    return <p className="text-sm text-muted-foreground">No slips logged. Keep it up!</p>;
+  }
+
+  // Clean days leading up to each slip, newest first
+  const timeline = slips
+    .map((slip, i) => ({
+      slip,
+      cleanBefore: i === 0
+        ? Math.max(0, differenceInCalendarDays(parseISO(slip.date), startOfDay(habit.createdAt)))
+        : differenceInCalendarDays(parseISO(slip.date), parseISO(slips[i - 1].date)) - 1,
+    }))
+    .reverse();
+
+  return (
+    <div className="relative space-y-3 pl-4 border-l-2 border-destructive/30">
+      {timeline.map(({ slip, cleanBefore }) => (
+        <div key={slip.id} className="relative flex items-start justify-between gap-2">
+          <div className="absolute -left-[21px] top-1.5 w-2.5 h-2.5 rounded-full bg-destructive" />
+          <div className="min-w-0">
+            <p className="text-sm font-medium">
+              {formatDate(slip.date, "EEE, MMM d, yyyy")}
+              {(slip.value || 1) > 1 && (
+                <span className="text-xs text-muted-foreground"> · {slip.value} slips</span>
+              )}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              After {cleanBefore} clean day{cleanBefore !== 1 ? "s" : ""}
+            </p>
+            {slip.note && <p className="text-xs mt-1">{slip.note}</p>}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 flex-shrink-0"
+            onClick={() => clearHabitLog(habit.id, slip.date)}
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
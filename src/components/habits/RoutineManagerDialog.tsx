@@ -0,0 +1,225 @@
+import { useState } from "react";
+import { Reorder } from "framer-motion";
+import { Edit, GripVertical, Play, Plus, Timer, Trash2, X } from "lucide-react";
+import { useHabitStore } from "@/store/habitStore";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn, isQuitHabit, ROUTINE_SECTIONS } from "@/lib/utils";
+import { ROUTINE_SECTION_META } from "@/components/habits/routineSections";
+import type { Routine, RoutineSection, RoutineStep } from "@/types";
+import { toast } from "@/lib/toast";
+
+interface RoutineManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPlay: (routine: Routine) => void;
+}
+
+export function RoutineManagerDialog({ open, onOpenChange, onPlay }: RoutineManagerDialogProps) {
+  const { habits, routines, addRoutine, updateRoutine, deleteRoutine } = useHabitStore();
+  const [editing, setEditing] = useState<Routine | "new" | null>(null);
+  const [name, setName] = useState("");
+  const [section, setSection] = useState<RoutineSection>("morning");
+  const [steps, setSteps] = useState<RoutineStep[]>([]);
+
+  // Quit habits have nothing to tick off, so they can't be routine steps
+  const availableHabits = habits.filter(h => !h.archived && !isQuitHabit(h) && !steps.some(s => s.habitId === h.id));
+
+  const startEditing = (routine: Routine | "new") => {
+    setEditing(routine);
+    setName(routine === "new" ? "" : routine.name);
+    setSection(routine === "new" ? "morning" : routine.section);
+    setSteps(routine === "new" ? [] : routine.steps.filter(s => habits.some(h => h.id === s.habitId)));
+  };
+
+  const updateStepMinutes = (habitId: string, minutes: number) => {
+    setSteps(current => current.map(s =>
+      s.habitId === habitId ? { ...s, durationMinutes: minutes > 0 ? minutes : undefined } : s
+    ));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim() || steps.length === 0) return;
+
+    if (editing === "new") {
+      await addRoutine({ name: name.trim(), section, steps });
+      toast.success("Routine created");
+    } else if (editing) {
+      await updateRoutine(editing.id, { name: name.trim(), section, steps });
+      toast.success("Routine updated");
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = async (routine: Routine) => {
+    if (!confirm(`Delete "${routine.name}"? Its habits are kept.`)) return;
+    await deleteRoutine(routine.id);
+    toast.success("Routine deleted");
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) setEditing(null);
+    onOpenChange(isOpen);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="glass-strong max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{editing === "new" ? "New routine" : editing ? "Edit routine" : "Routines"}</DialogTitle>
+        </DialogHeader>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Name</Label>
+              <Input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="e.g., Morning kickstart"
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Time of day</Label>
+              <div className="grid grid-cols-3 gap-2">
+                {ROUTINE_SECTIONS.map(s => {
+                  const { label, icon: Icon } = ROUTINE_SECTION_META[s];
+                  return (
+                    <button
+                      key={s}
+                      type="button"
+                      onClick={() => setSection(s)}
+                      className={cn(
+                        "flex flex-col items-center gap-1 p-3 rounded-xl text-sm transition-all",
+                        section === s ? "bg-primary/15 text-primary ring-1 ring-primary" : "bg-secondary/50 hover:bg-secondary"
+                      )}
+                    >
+                      <Icon className="w-4 h-4" />
+                      {label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Steps</Label>
+              {steps.length === 0 && (
+                <p className="text-xs text-muted-foreground">Add habits below in the order you do them.</p>
+              )}
+              <Reorder.Group axis="y" values={steps} onReorder={setSteps} className="space-y-2">
+                {steps.map((step, i) => {
+                  const habit = habits.find(h => h.id === step.habitId);
+                  return (
+                    <Reorder.Item
+                      key={step.habitId}
+                      value={step}
+                      className="flex items-center gap-2 p-2 rounded-xl bg-secondary/50 select-none"
+                    >
+                      <GripVertical className="w-4 h-4 text-muted-foreground flex-shrink-0 cursor-grab touch-none" />
+                      <span className="text-xs text-muted-foreground w-4">{i + 1}</span>
+                      <div
+                        className="w-2.5 h-2.5 rounded-full flex-shrink-0"
+                        style={{ backgroundColor: habit?.color || "hsl(var(--primary))" }}
+                      />
+                      <span className="text-sm flex-1 truncate">{habit?.name}</span>
+                      <Timer className="w-3.5 h-3.5 text-muted-foreground" />
+                      <Input
+                        type="number"
+                        min={0}
+                        max={180}
+                        value={step.durationMinutes ?? ""}
+                        onChange={e => updateStepMinutes(step.habitId, parseInt(e.target.value) || 0)}
+                        placeholder="min"
+                        className="h-8 w-16 text-center"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setSteps(current => current.filter(s => s.habitId !== step.habitId))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </Reorder.Item>
+                  );
+                })}
+              </Reorder.Group>
+
+              {availableHabits.length > 0 && (
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {availableHabits.map(habit => (
+                    <button
+                      key={habit.id}
+                      type="button"
+                      onClick={() => setSteps(current => [...current, { habitId: habit.id }])}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs bg-secondary/50 hover:bg-secondary"
+                    >
+                      <Plus className="w-3 h-3" />
+                      {habit.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="ghost" onClick={() => setEditing(null)}>
+                Cancel
+              </Button>
+              <Button
+                className="flex-1 gradient-primary text-primary-foreground"
+                disabled={!name.trim() || steps.length === 0}
+                onClick={handleSave}
+              >
+                {editing === "new" ? "Create routine" : "Save"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {routines.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                Chain habits you do together, like a morning or wind-down routine, and play them step by step.
+              </p>
+            )}
+            {ROUTINE_SECTIONS.flatMap(s => routines.filter(r => r.section === s)).map(routine => {
+              const { label, icon: Icon } = ROUTINE_SECTION_META[routine.section];
+              const stepCount = routine.steps.filter(s => habits.some(h => h.id === s.habitId)).length;
+              return (
+                <div key={routine.id} className="flex items-center gap-3 p-3 rounded-xl bg-secondary/50">
+                  <div className="w-9 h-9 rounded-lg flex items-center justify-center flex-shrink-0 bg-primary/10">
+                    <Icon className="w-4 h-4 text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-sm truncate">{routine.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {label} • {stepCount} step{stepCount !== 1 ? "s" : ""}
+                    </p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onPlay(routine)}>
+                    <Play className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => startEditing(routine)}>
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDelete(routine)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+            <Button variant="outline" className="w-full" onClick={() => startEditing("new")}>
+              <Plus className="w-4 h-4 mr-2" />
+              New routine
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
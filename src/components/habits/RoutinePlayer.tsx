@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Check, ChevronLeft, Pause, Play, RotateCcw, SkipForward } from "lucide-react";
+import { useHabitStore } from "@/store/habitStore";
+import { useFocusStore } from "@/store/focusStore";
+import { alarmSound } from "@/lib/audio";
+import { cn, formatTime, getRoutineStepsForDate, getToday, isHabitCompletedOnDate } from "@/lib/utils";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ROUTINE_SECTION_META } from "@/components/habits/routineSections";
+import type { Routine } from "@/types";
+
+interface RoutinePlayerProps {
+  routine: Routine | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Walks through a routine's due habits one at a time, logging each via logHabit
+export function RoutinePlayer({ routine, onOpenChange }: RoutinePlayerProps) {
+  const { habits, logs, pauses, logHabit } = useHabitStore();
+  const alarm = useFocusStore((s) => s.preset.alarmSound);
+  const [index, setIndex] = useState(0);
+  const [remaining, setRemaining] = useState(0); // Seconds left on the step timer
+  const [endsAt, setEndsAt] = useState<number | null>(null);
+
+  const today = getToday();
+  const steps = routine ? getRoutineStepsForDate(routine, habits, new Date(), pauses) : [];
+  const current = steps[index];
+  const isFinished = !!routine && index >= steps.length;
+  const completedCount = steps.filter(({ habit }) => isHabitCompletedOnDate(habit, logs, today)).length;
+
+  // Start at the first step that isn't done yet
+  useEffect(() => {
+    if (!routine) return;
+    const state = useHabitStore.getState();
+    const due = getRoutineStepsForDate(routine, state.habits, new Date(), state.pauses);
+    const firstPending = due.findIndex(({ habit }) => !isHabitCompletedOnDate(habit, state.logs, getToday()));
+    setIndex(firstPending === -1 ? 0 : firstPending);
+  }, [routine]);
+
+  // Reset the step timer whenever the step changes
+  const stepMinutes = current?.step.durationMinutes;
+  useEffect(() => {
+    setEndsAt(null);
+    setRemaining((stepMinutes || 0) * 60);
+  }, [index, routine, stepMinutes]);
+
+  // Count down from a fixed end time so the timer stays accurate in the background
+  useEffect(() => {
+    if (!endsAt) return;
+    const tick = () => {
+      const left = Math.max(0, Math.round((endsAt - Date.now()) / 1000));
+      setRemaining(left);
+      if (left === 0) {
+        setEndsAt(null);
+        alarmSound.playAlarm(alarm);
+      }
+    };
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [endsAt, alarm]);
+
+  const toggleTimer = () => {
+    if (endsAt) {
+      setEndsAt(null);
+    } else {
+      alarmSound.warmUp();
+      setEndsAt(Date.now() + remaining * 1000);
+    }
+  };
+
+  const completeStep = async () => {
+    if (!current) return;
+    const { habit } = current;
+    if (!isHabitCompletedOnDate(habit, logs, today)) {
+      await logHabit(habit.id, "done", habit.goalType === "check" ? undefined : habit.goalTarget);
+    }
+    setIndex(i => i + 1);
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setEndsAt(null);
+    onOpenChange(open);
+  };
+
+  const SectionIcon = routine ? ROUTINE_SECTION_META[routine.section].icon : null;
+
+  return (
+    <Dialog open={!!routine} onOpenChange={handleOpenChange}>
+      <DialogContent className="glass-strong max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {SectionIcon && <SectionIcon className="w-5 h-5 text-primary" />}
+            {routine?.name}
+          </DialogTitle>
+        </DialogHeader>
+
+        {steps.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Nothing in this routine is due today.</p>
+        ) : (
+          <div className="space-y-6">
+            {/* Step progress */}
+            <div className="flex gap-1">
+              {steps.map(({ habit }, i) => (
+                <button
+                  key={habit.id}
+                  type="button"
+                  onClick={() => setIndex(i)}
+                  className={cn(
+                    "h-1.5 flex-1 rounded-full transition-colors",
+                    isHabitCompletedOnDate(habit, logs, today)
+                      ? "bg-success"
+                      : i === index ? "bg-primary" : "bg-secondary"
+                  )}
+                />
+              ))}
+            </div>
+
+            <AnimatePresence mode="wait">
+              {isFinished ? (
+                <motion.div
+                  key="finished"
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  className="text-center space-y-3 py-4"
+                >
+                  <div className="w-16 h-16 rounded-full bg-success/20 flex items-center justify-center mx-auto">
+                    <Check className="w-8 h-8 text-success" />
+                  </div>
+                  <p className="text-lg font-semibold">
+                    {completedCount === steps.length ? "Routine complete!" : "End of routine"}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {completedCount} of {steps.length} habits done today
+                  </p>
+                  <div className="flex gap-2 justify-center pt-2">
+                    {completedCount < steps.length && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setIndex(steps.findIndex(({ habit }) => !isHabitCompletedOnDate(habit, logs, today)))}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Review skipped
+                      </Button>
+                    )}
+                    <Button className="gradient-primary text-primary-foreground" onClick={() => handleOpenChange(false)}>
+                      Close
+                    </Button>
+                  </div>
+                </motion.div>
+              ) : current && (
+                <motion.div
+                  key={current.habit.id}
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: -20 }}
+                  className="text-center space-y-4"
+                >
+                  <p className="text-xs text-muted-foreground">Step {index + 1} of {steps.length}</p>
+                  <div
+                    className="w-16 h-16 rounded-full mx-auto flex items-center justify-center"
+                    style={{ backgroundColor: (current.habit.color || "hsl(var(--primary))") + "25" }}
+                  >
+                    {isHabitCompletedOnDate(current.habit, logs, today) ? (
+                      <Check className="w-7 h-7" style={{ color: current.habit.color || "hsl(var(--primary))" }} />
+                    ) : (
+                      <span className="text-xl font-bold" style={{ color: current.habit.color || "hsl(var(--primary))" }}>
+                        {index + 1}
+                      </span>
+                    )}
+                  </div>
+                  <div>
+                    <p className="text-xl font-semibold">{current.habit.name}</p>
+                    {current.habit.description && (
+                      <p className="text-sm text-muted-foreground mt-1">{current.habit.description}</p>
+                    )}
+                    {current.habit.goalType !== "check" && current.habit.goalTarget && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Goal: {current.habit.goalTarget}{current.habit.goalType === "duration" ? " min" : ""}
+                      </p>
+                    )}
+                  </div>
+
+                  {stepMinutes ? (
+                    <div className="space-y-2">
+                      <p className={cn("text-4xl font-mono font-bold", remaining === 0 && "text-success")}>
+                        {formatTime(remaining)}
+                      </p>
+                      <Button variant="outline" size="sm" onClick={toggleTimer} disabled={remaining === 0}>
+                        {endsAt ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+                        {endsAt ? "Pause" : "Start timer"}
+                      </Button>
+                    </div>
+                  ) : null}
+
+                  <div className="flex gap-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      disabled={index === 0}
+                      onClick={() => setIndex(i => i - 1)}
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button variant="outline" className="flex-1" onClick={() => setIndex(i => i + 1)}>
+                      <SkipForward className="w-4 h-4 mr-2" />
+                      Skip
+                    </Button>
+                    <Button className="flex-1 gradient-primary text-primary-foreground" onClick={completeStep}>
+                      <Check className="w-4 h-4 mr-2" />
+                      {isHabitCompletedOnDate(current.habit, logs, today) ? "Next" : "Done"}
+                    </Button>
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,28 @@
+import {
+  Dumbbell, Book, Droplets, Moon, Sun, Coffee, Heart, Brain,
+  Footprints, Apple, Pill, Music, Pencil, Code, Languages, Flame,
+} from "lucide-react";
+
+// Icon set shared by habits and habit categories
+export const HABIT_ICONS = [
+  { id: "dumbbell", icon: Dumbbell, label: "Exercise" },
+  { id: "book", icon: Book, label: "Reading" },
+  { id: "droplets", icon: Droplets, label: "Water" },
+  { id: "moon", icon: Moon, label: "Sleep" },
+  { id: "sun", icon: Sun, label: "Morning" },
+  { id: "coffee", icon: Coffee, label: "Coffee" },
+  { id: "heart", icon: Heart, label: "Health" },
+  { id: "brain", icon: Brain, label: "Mind" },
+  { id: "footprints", icon: Footprints, label: "Steps" },
+  { id: "apple", icon: Apple, label: "Nutrition" },
+  { id: "pill", icon: Pill, label: "Medicine" },
+  { id: "music", icon: Music, label: "Music" },
+  { id: "pencil", icon: Pencil, label: "Writing" },
+  { id: "code", icon: Code, label: "Coding" },
+  { id: "languages", icon: Languages, label: "Language" },
+] as const;
+
+export function getHabitIcon(iconId: string | null | undefined) {
+  const found = HABIT_ICONS.find(i => i.id === iconId);
+  return found?.icon || Flame;
+}
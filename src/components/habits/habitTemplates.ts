@@ -0,0 +1,171 @@
+import { HABIT_COLORS, type Habit, type HabitSchedule } from "@/types";
+
+export interface HabitTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  group: HabitTemplateGroup;
+  icon: string; // Id from the habit icon set
+  color: string;
+  kind?: Habit["kind"];
+  schedule: HabitSchedule;
+  goalType: Habit["goalType"];
+  goalTarget?: number;
+}
+
+export type HabitTemplateGroup = "Health" | "Mind" | "Learning" | "Productivity" | "Quit";
+
+export const HABIT_TEMPLATE_GROUPS: HabitTemplateGroup[] = ["Health", "Mind", "Learning", "Productivity", "Quit"];
+
+// Built-in starting points; picking one prefills the habit form
+export const HABIT_TEMPLATES: HabitTemplate[] = [
+  {
+    id: "hydration",
+    name: "Hydration",
+    description: "8 glasses of water",
+    group: "Health",
+    icon: "droplets",
+    color: HABIT_COLORS[6],
+    schedule: { type: "daily" },
+    goalType: "count",
+    goalTarget: 8,
+  },
+  {
+    id: "workout",
+    name: "Workout",
+    group: "Health",
+    icon: "dumbbell",
+    color: HABIT_COLORS[1],
+    schedule: { type: "timesPerWeek", timesPerWeek: 3 },
+    goalType: "check",
+  },
+  {
+    id: "walk",
+    name: "Walk 10k steps",
+    group: "Health",
+    icon: "footprints",
+    color: HABIT_COLORS[7],
+    schedule: { type: "daily" },
+    goalType: "count",
+    goalTarget: 10000,
+  },
+  {
+    id: "vitamins",
+    name: "Take vitamins",
+    group: "Health",
+    icon: "pill",
+    color: HABIT_COLORS[2],
+    schedule: { type: "daily" },
+    goalType: "check",
+  },
+  {
+    id: "sleep-early",
+    name: "Lights out by 11",
+    group: "Health",
+    icon: "moon",
+    color: HABIT_COLORS[3],
+    schedule: { type: "daily" },
+    goalType: "check",
+  },
+  {
+    id: "meditate",
+    name: "Meditate",
+    description: "10 minutes of quiet",
+    group: "Mind",
+    icon: "brain",
+    color: HABIT_COLORS[4],
+    schedule: { type: "daily" },
+    goalType: "duration",
+    goalTarget: 10,
+  },
+  {
+    id: "gratitude",
+    name: "Gratitude journal",
+    description: "Write down three good things",
+    group: "Mind",
+    icon: "pencil",
+    color: HABIT_COLORS[5],
+    schedule: { type: "daily" },
+    goalType: "count",
+    goalTarget: 3,
+  },
+  {
+    id: "read",
+    name: "Read 20 pages",
+    group: "Learning",
+    icon: "book",
+    color: HABIT_COLORS[4],
+    schedule: { type: "daily" },
+    goalType: "count",
+    goalTarget: 20,
+  },
+  {
+    id: "language",
+    name: "Language practice",
+    group: "Learning",
+    icon: "languages",
+    color: HABIT_COLORS[2],
+    schedule: { type: "weekdays" },
+    goalType: "duration",
+    goalTarget: 15,
+  },
+  {
+    id: "practice-instrument",
+    name: "Practice an instrument",
+    group: "Learning",
+    icon: "music",
+    color: HABIT_COLORS[5],
+    schedule: { type: "customDays", daysOfWeek: [1, 3, 5] },
+    goalType: "duration",
+    goalTarget: 30,
+  },
+  {
+    id: "deep-work",
+    name: "Deep work",
+    description: "Two focused hours on the most important task",
+    group: "Productivity",
+    icon: "code",
+    color: HABIT_COLORS[3],
+    schedule: { type: "weekdays" },
+    goalType: "duration",
+    goalTarget: 120,
+  },
+  {
+    id: "plan-day",
+    name: "Plan tomorrow",
+    group: "Productivity",
+    icon: "sun",
+    color: HABIT_COLORS[0],
+    schedule: { type: "weekdays" },
+    goalType: "check",
+  },
+  {
+    id: "inbox-zero",
+    name: "Inbox zero",
+    group: "Productivity",
+    icon: "coffee",
+    color: HABIT_COLORS[7],
+    schedule: { type: "timesPerWeek", timesPerWeek: 2 },
+    goalType: "check",
+  },
+  {
+    id: "no-smoking",
+    name: "No smoking",
+    group: "Quit",
+    icon: "heart",
+    color: HABIT_COLORS[1],
+    kind: "quit",
+    schedule: { type: "daily" },
+    goalType: "check",
+  },
+  {
+    id: "no-doomscrolling",
+    name: "No doomscrolling",
+    group: "Quit",
+    icon: "brain",
+    color: HABIT_COLORS[5],
+    kind: "quit",
+    schedule: { type: "daily" },
+    goalType: "check",
+  },
+];
@@ -0,0 +1,8 @@
+import { Moon, Sun, Sunrise } from "lucide-react";
+import type { RoutineSection } from "@/types";
+
+export const ROUTINE_SECTION_META: Record<RoutineSection, { label: string; icon: typeof Sun }> = {
+  morning: { label: "Morning", icon: Sunrise },
+  afternoon: { label: "Afternoon", icon: Sun },
+  evening: { label: "Evening", icon: Moon },
+};
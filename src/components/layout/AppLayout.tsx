@@ -2,8 +2,14 @@ import { ReactNode, useEffect } from "react";
 import { Sidebar } from "./Navigation";
 import { SwipeableBottomNav, SwipeableNavigation } from "./SwipeableNavigation";
 import { AIAssistant } from "@/components/AIAssistant";
+import { FocusPipTimer } from "@/components/focus/FocusPipTimer";
 import { useSettingsStore } from "@/store/settingsStore";
 import { useDataInitialization } from "@/hooks/useDataInitialization";
+import { useHabitReminders } from "@/hooks/useHabitReminders";
+import { useFocusAmbience } from "@/hooks/useFocusAmbience";
+import { useFocusTimerSync } from "@/hooks/useFocusTimerSync";
+import { useFocusMode } from "@/hooks/useFocusMode";
+import { useNotificationTaps } from "@/hooks/useNotificationTaps";
 
 interface AppLayoutProps {
   children: ReactNode;
@@ -15,6 +21,21 @@ export function AppLayout({ children }: AppLayoutProps) {
   // Initialize all store data when user is authenticated
   useDataInitialization();
 
+  // Keep habit reminders scheduled for the week ahead
+  useHabitReminders();
+
+  // Ambient focus sound follows the timer on every page
+  useFocusAmbience();
+
+  // The running timer is shared with the user's other devices
+  useFocusTimerSync();
+
+  // Focus mode holds notifications during work phases and sums them up at the break
+  useFocusMode();
+
+  // Tapping a native notification opens the page it's about
+  useNotificationTaps();
+
   // Initialize theme on mount
   useEffect(() => {
     const root = document.documentElement;
@@ -42,6 +63,7 @@ export function AppLayout({ children }: AppLayoutProps) {
       </main>
       <SwipeableBottomNav />
       <AIAssistant />
+      <FocusPipTimer />
     </div>
   );
 }
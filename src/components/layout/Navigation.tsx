@@ -1,5 +1,5 @@
 import { NavLink, useLocation } from "react-router-dom";
-import { Home, Target, Timer, BarChart3, Settings, BookOpen, CalendarDays, MapPin, StickyNote, Navigation, Github, Sparkles } from "lucide-react";
+import { Home, Target, Timer, BarChart3, Settings, BookOpen, CalendarDays, MapPin, StickyNote, Navigation, Github, Sparkles, ListTodo } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { motion } from "framer-motion";
 import {
@@ -63,6 +63,7 @@ export function BottomNav() {
 
 const sidebarNavItems = [
   ...navItems,
+  { to: "/tasks", icon: ListTodo, label: "Tasks" },
   { to: "/activity", icon: MapPin, label: "Activity" },
   { to: "/navigate", icon: Navigation, label: "Navigate" },
   { to: "/calendar", icon: CalendarDays, label: "Calendar" },
@@ -1,13 +1,14 @@
 import { ReactNode, useCallback, useRef, useState, type PointerEvent } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { motion, AnimatePresence, PanInfo } from "framer-motion";
-import { Home, Target, Timer, BookOpen, CalendarDays, BarChart3, Settings, MapPin, StickyNote, Navigation, Github, Sparkles } from "lucide-react";
+import { Home, Target, Timer, BookOpen, CalendarDays, BarChart3, Settings, MapPin, StickyNote, Navigation, Github, Sparkles, ListTodo } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const navItems = [
   { to: "/", icon: Home, label: "Home" },
   { to: "/habits", icon: Target, label: "Habits" },
   { to: "/focus", icon: Timer, label: "Focus" },
+  { to: "/tasks", icon: ListTodo, label: "Tasks" },
   { to: "/github", icon: Github, label: "GitHub" },
   { to: "/activity", icon: MapPin, label: "Activity" },
   { to: "/navigate", icon: Navigation, label: "Navigate" },
@@ -5,6 +5,8 @@ import { useFocusStore } from "@/store/focusStore";
 import { useJournalStore } from "@/store/journalStore";
 import { useCalendarStore } from "@/store/calendarStore";
 import { useNotesStore } from "@/store/notesStore";
+import { useTaskStore } from "@/store/taskStore";
+import { useNotificationQueueStore } from "@/store/notificationQueueStore";
 
 /**
  * Hook to initialize all store data when user is authenticated.
@@ -16,15 +18,19 @@ export function useDataInitialization() {
   
   const fetchHabits = useHabitStore((s) => s.fetchHabits);
   const fetchSessions = useFocusStore((s) => s.fetchSessions);
+  const fetchPresets = useFocusStore((s) => s.fetchPresets);
   const fetchEntries = useJournalStore((s) => s.fetchEntries);
   const fetchEvents = useCalendarStore((s) => s.fetchEvents);
   const fetchNotes = useNotesStore((s) => s.fetchNotes);
+  const fetchTasks = useTaskStore((s) => s.fetchTasks);
   
   // Clear data functions
   const clearHabits = useHabitStore((s) => s.clearAllData);
   const clearFocus = useFocusStore((s) => s.clearAllData);
   const clearJournal = useJournalStore((s) => s.clearAllData);
   const clearCalendar = useCalendarStore((s) => s.clearAllData);
+  const clearTasks = useTaskStore((s) => s.clearAllData);
+  const clearNotificationQueue = useNotificationQueueStore((s) => s.clearAllData);
 
   useEffect(() => {
     if (loading) return;
@@ -37,9 +43,11 @@ export function useDataInitialization() {
       Promise.all([
         fetchHabits(),
         fetchSessions(),
+        fetchPresets(),
         fetchEntries(),
         fetchEvents(),
         fetchNotes(),
+        fetchTasks(),
       ]).catch((error) => {
         console.error("Error initializing data:", error);
       });
@@ -50,6 +58,8 @@ export function useDataInitialization() {
       clearFocus();
       clearJournal();
       clearCalendar();
+      clearTasks();
+      clearNotificationQueue();
     }
-  }, [user, loading, fetchHabits, fetchSessions, fetchEntries, fetchEvents, fetchNotes, clearHabits, clearFocus, clearJournal, clearCalendar]);
+  }, [user, loading, fetchHabits, fetchSessions, fetchPresets, fetchEntries, fetchEvents, fetchNotes, fetchTasks, clearHabits, clearFocus, clearJournal, clearCalendar, clearTasks, clearNotificationQueue]);
 }
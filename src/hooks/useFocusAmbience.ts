@@ -0,0 +1,32 @@
+import { useEffect, useRef } from "react";
+import { useFocusStore } from "@/store/focusStore";
+import { ambientSound, DEFAULT_AMBIENT_VOLUME } from "@/lib/audio";
+
+/**
+ * Plays the active preset's ambient sound during work phases and fades it out
+ * on breaks, pauses and when the timer stops. Lives in the app layout so the
+ * sound keeps going while you move between pages.
+ */
+export function useFocusAmbience() {
+  const isRunning = useFocusStore((s) => s.timer.isRunning);
+  const isPaused = useFocusStore((s) => s.timer.isPaused);
+  const phase = useFocusStore((s) => s.timer.phase);
+  const sound = useFocusStore((s) => s.preset.ambientSound);
+  const volumes = useFocusStore((s) => s.preset.ambientVolumes);
+  // A timer synced from another device plays there, not here
+  const isOwner = useFocusStore((s) => s.isTimerOwner());
+  const wasActiveRef = useRef(false);
+
+  const volume = sound && sound !== "none" ? volumes?.[sound] ?? DEFAULT_AMBIENT_VOLUME : 0;
+
+  useEffect(() => {
+    const active = isOwner && isRunning && !isPaused && phase === "work" && !!sound && sound !== "none";
+    if (active) {
+      ambientSound.play(sound, volume);
+    } else if (wasActiveRef.current) {
+      // Only fade what a session started, so previews on the Focus page can finish
+      ambientSound.fadeOut();
+    }
+    wasActiveRef.current = active;
+  }, [isOwner, isRunning, isPaused, phase, sound, volume]);
+}
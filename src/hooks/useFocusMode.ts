@@ -0,0 +1,54 @@
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { useFocusStore } from "@/store/focusStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import { useNotificationQueueStore } from "@/store/notificationQueueStore";
+import { holdNativeCalendarReminders, scheduleNotification } from "@/lib/notifications";
+import { getFocusModeQuietUntil, isFocusModeSilencing } from "@/lib/focusMode";
+import { NOTIFICATION_SOURCE_LABELS, type HeldNotification, type NotificationSource } from "@/types";
+
+const SUMMARY_DURATION_MS = 10000;
+
+/**
+ * Runs focus mode: native calendar reminders due during a work phase are taken
+ * off the OS schedule, and when the phase ends everything held comes back as
+ * one summary. Call this once in a top-level component (e.g., AppLayout).
+ */
+export function useFocusMode() {
+  const timer = useFocusStore((s) => s.timer);
+  const settings = useSettingsStore((s) => s.settings);
+  const silencing = isFocusModeSilencing(timer, settings);
+  const calendarQuietUntil = getFocusModeQuietUntil(timer, settings, "calendarReminders");
+
+  useEffect(() => {
+    if (calendarQuietUntil !== null) void holdNativeCalendarReminders(calendarQuietUntil);
+  }, [calendarQuietUntil]);
+
+  // Also runs on launch, for anything held when the app was closed mid-phase
+  useEffect(() => {
+    if (silencing) return;
+    const held = useNotificationQueueStore.getState().release();
+    const now = Date.now();
+
+    // The phase ended before these were due, so they go back on the schedule
+    held
+      .filter((h) => h.at > now && h.notificationId !== undefined)
+      .forEach((h) => void scheduleNotification(h.notificationId as number, h.title, h.body || "", new Date(h.at), h.url));
+
+    const due = held.filter((h) => h.at <= now);
+    if (due.length === 0) return;
+    toast(`While you focused: ${due.length} held ${due.length === 1 ? "notification" : "notifications"}`, {
+      description: summarizeHeld(due),
+      duration: SUMMARY_DURATION_MS,
+    });
+  }, [silencing]);
+}
+
+// "Habit reminders: Time for: Read, Time for: Walk • In-app messages: Habit created"
+function summarizeHeld(held: HeldNotification[]): string {
+  const bySource = new Map<NotificationSource, string[]>();
+  held.forEach((h) => bySource.set(h.source, [...(bySource.get(h.source) || []), h.title]));
+  return [...bySource.entries()]
+    .map(([source, titles]) => `${NOTIFICATION_SOURCE_LABELS[source]}: ${titles.join(", ")}`)
+    .join(" • ");
+}
@@ -0,0 +1,52 @@
+import { useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useFocusStore } from "@/store/focusStore";
+
+/**
+ * Keeps the running focus timer in step across the user's devices. Local timer
+ * changes are pushed to focus_timer_state and changes from other devices arrive
+ * over realtime. Call this once in a top-level component (e.g., AppLayout).
+ */
+export function useFocusTimerSync() {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const { fetchTimerState, pushTimerState, applyRemoteTimer } = useFocusStore.getState();
+    void fetchTimerState();
+
+    // applyRemoteTimer also moves timerChangedAt, which tells remote changes
+    // apart from local ones so they aren't echoed back
+    const unsubscribe = useFocusStore.subscribe((state, prev) => {
+      if (state.timer !== prev.timer && state.timerChangedAt === prev.timerChangedAt) {
+        void pushTimerState();
+      }
+    });
+
+    const channel = supabase
+      .channel(`focus-timer-${user.id}`)
+      .on<Tables<"focus_timer_state">>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "focus_timer_state", filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType !== "DELETE") applyRemoteTimer(payload.new);
+        }
+      )
+      .subscribe();
+
+    // Realtime drops while the app is in the background, so catch up on return
+    const handleVisibility = () => {
+      if (document.visibilityState === "visible") void fetchTimerState();
+    };
+    document.addEventListener("visibilitychange", handleVisibility);
+
+    return () => {
+      unsubscribe();
+      supabase.removeChannel(channel);
+      document.removeEventListener("visibilitychange", handleVisibility);
+    };
+  }, [user]);
+}
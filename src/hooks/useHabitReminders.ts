@@ -1,51 +1,124 @@
-import { useEffect, useCallback } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { addDays, format } from "date-fns";
 import { useHabitStore } from "@/store/habitStore";
-import { requestNotificationPermission, scheduleNotification, cancelNotification } from "@/lib/notifications";
-import { isHabitDueToday } from "@/lib/utils";
-import { toast } from "sonner";
+import { useFocusStore } from "@/store/focusStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import { useNotificationQueueStore } from "@/store/notificationQueueStore";
+import {
+  requestNotificationPermission,
+  syncHabitReminderNotifications,
+  type ScheduledReminder,
+} from "@/lib/notifications";
+import { isHabitDueOnDate, isHabitCompletedOnDate, isQuitHabit } from "@/lib/utils";
+import { getFocusModeQuietUntil } from "@/lib/focusMode";
+import type { Habit, HabitLog, HabitPause, HeldNotification } from "@/types";
 
+const REMINDER_WINDOW_DAYS = 7;
+const ROLL_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Keeps a rolling 7-day window of habit reminders scheduled. The window is
+ * rebuilt whenever habits, logs or pauses change, so archiving, editing or
+ * completing a habit early cancels the reminders that no longer apply.
+ * Reminders due during a focus-mode work phase are held for the break.
+ */
 export function useHabitReminders() {
-  const { habits } = useHabitStore();
-
-  const scheduleHabitReminders = useCallback(async () => {
-    // Request permission first
-    const hasPermission = await requestNotificationPermission();
-    if (!hasPermission) {
-      console.log("Notification permission not granted");
-      return;
-    }
+  const { habits, logs, pauses } = useHabitStore();
+  const timer = useFocusStore((s) => s.timer);
+  const settings = useSettingsStore((s) => s.settings);
+  const setHeldReminders = useNotificationQueueStore((s) => s.setHeldReminders);
+  const [now, setNow] = useState(() => Date.now());
+  const lastSignature = useRef<string | null>(null);
 
-    // Schedule reminders for habits with reminder times
-    const today = new Date();
-    const todayStr = today.toISOString().split("T")[0];
-
-    for (const habit of habits) {
-      if (habit.archived || !habit.reminderTime) continue;
-      if (!isHabitDueToday(habit)) continue;
-
-      const [hours, minutes] = habit.reminderTime.split(":").map(Number);
-      const reminderDate = new Date(todayStr);
-      reminderDate.setHours(hours, minutes, 0, 0);
-
-      // Only schedule if the time is in the future
-      if (reminderDate > today) {
-        const notificationId = hashStringToNumber(habit.id);
-        await scheduleNotification(
-          notificationId,
-          `Time for: ${habit.name}`,
-          habit.description || "Don't forget to complete your habit!",
-          reminderDate
-        );
-      }
-    }
-  }, [habits]);
+  // Roll the window forward while the app stays open
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), ROLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const planned = useMemo(
+    () => planHabitReminders(habits, logs, pauses, new Date(now)),
+    [habits, logs, pauses, now]
+  );
+
+  const quietUntil = getFocusModeQuietUntil(timer, settings, "habitReminders");
+  const { reminders, held } = useMemo(() => {
+    if (quietUntil === null) return { reminders: planned, held: [] };
+    return {
+      reminders: planned.filter(r => r.at >= quietUntil),
+      held: planned.filter(r => r.at < quietUntil).map((r): HeldNotification => ({
+        id: `habit:${r.id}`,
+        source: "habitReminders",
+        title: r.title,
+        body: r.body,
+        at: r.at,
+      })),
+    };
+  }, [planned, quietUntil]);
 
-  // Schedule reminders when habits change
   useEffect(() => {
-    scheduleHabitReminders();
-  }, [scheduleHabitReminders]);
+    setHeldReminders("habitReminders", held);
+  }, [held, setHeldReminders]);
+
+  useEffect(() => {
+    const signature = reminders.map(r => `${r.id}@${r.at}`).join(",");
+    if (signature === lastSignature.current) return;
+    lastSignature.current = signature;
+
+    const sync = async () => {
+      if (reminders.length > 0 && !(await requestNotificationPermission())) {
+        console.log("Notification permission not granted");
+        return;
+      }
+      await syncHabitReminderNotifications(reminders);
+    };
+    void sync();
+  }, [reminders]);
+}
+
+export function planHabitReminders(
+  habits: Habit[],
+  logs: HabitLog[],
+  pauses: HabitPause[],
+  now: Date = new Date()
+): ScheduledReminder[] {
+  const today = format(now, "yyyy-MM-dd");
+  const reminders: ScheduledReminder[] = [];
+
+  for (const habit of habits) {
+    if (habit.archived || !habit.reminderTimes?.length) continue;
+
+    for (let i = 0; i < REMINDER_WINDOW_DAYS; i++) {
+      const date = addDays(now, i);
+      const dateStr = format(date, "yyyy-MM-dd");
+      if (!isHabitDueOnDate(habit, date, pauses)) continue;
+
+      // Today's remaining reminders are dropped once the habit is done (or a quit habit slipped)
+      if (dateStr === today) {
+        const log = logs.find(l => l.habitId === habit.id && l.date === today);
+        if (isQuitHabit(habit) ? log?.status === "slipped" : isHabitCompletedOnDate(habit, logs, today)) continue;
+      }
+
+      for (const time of habit.reminderTimes) {
+        const [hours, minutes] = time.split(":").map(Number);
+        const at = new Date(date);
+        at.setHours(hours, minutes, 0, 0);
+        if (at <= now) continue;
 
-  return { scheduleHabitReminders };
+        reminders.push({
+          id: hashStringToNumber(`${habit.id}:${dateStr}:${time}`),
+          title: isQuitHabit(habit) ? `Check in: ${habit.name}` : `Time for: ${habit.name}`,
+          body: habit.description || (isQuitHabit(habit)
+            ? "Still clean today? Log a slip if it happened."
+            : "Don't forget to complete your habit!"),
+          at: at.getTime(),
+          url: "/habits",
+        });
+      }
+    }
+  }
+
+  return reminders.sort((a, b) => a.at - b.at);
 }
 
 // Convert string ID to a number for notification ID
@@ -58,41 +131,3 @@ function hashStringToNumber(str: string): number {
   }
   return Math.abs(hash);
 }
-
-export async function setHabitReminder(
-  habitId: string,
-  habitName: string,
-  reminderTime: string,
-  description?: string
-): Promise<void> {
-  const hasPermission = await requestNotificationPermission();
-  if (!hasPermission) {
-    toast.error("Please enable notifications to set reminders");
-    return;
-  }
-
-  const today = new Date();
-  const [hours, minutes] = reminderTime.split(":").map(Number);
-  const reminderDate = new Date();
-  reminderDate.setHours(hours, minutes, 0, 0);
-
-  // If time has passed today, schedule for tomorrow
-  if (reminderDate <= today) {
-    reminderDate.setDate(reminderDate.getDate() + 1);
-  }
-
-  const notificationId = hashStringToNumber(habitId);
-  await scheduleNotification(
-    notificationId,
-    `Time for: ${habitName}`,
-    description || "Don't forget to complete your habit!",
-    reminderDate
-  );
-
-  toast.success(`Reminder set for ${reminderTime}`);
-}
-
-export async function cancelHabitReminder(habitId: string): Promise<void> {
-  const notificationId = hashStringToNumber(habitId);
-  await cancelNotification(notificationId);
-}
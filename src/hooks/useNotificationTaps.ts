@@ -0,0 +1,13 @@
+import { useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { addNotificationTapListener } from "@/lib/notifications";
+
+/**
+ * Opens the page a tapped native notification points to, such as a habit or
+ * a focus block ready to start. The service worker does this on the web.
+ */
+export function useNotificationTaps() {
+  const navigate = useNavigate();
+
+  useEffect(() => addNotificationTapListener((url) => navigate(url)), [navigate]);
+}
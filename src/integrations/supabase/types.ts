@@ -63,8 +63,10 @@ export type Database = {
           date: string
           description: string | null
           end_time: string
+          focus_preset_id: string | null
           id: string
           is_recurring: boolean | null
+          kind: string
           notification_id: number | null
           parent_event_id: string | null
           recurrence_end_date: string | null
@@ -72,6 +74,7 @@ export type Database = {
           recurrence_type: string | null
           reminder: number | null
           start_time: string
+          task_id: string | null
           title: string
           user_id: string
         }
@@ -81,8 +84,10 @@ export type Database = {
           date: string
           description?: string | null
           end_time: string
+          focus_preset_id?: string | null
           id?: string
           is_recurring?: boolean | null
+          kind?: string
           notification_id?: number | null
           parent_event_id?: string | null
           recurrence_end_date?: string | null
@@ -90,6 +95,7 @@ export type Database = {
           recurrence_type?: string | null
           reminder?: number | null
           start_time: string
+          task_id?: string | null
           title: string
           user_id: string
         }
@@ -99,8 +105,10 @@ export type Database = {
           date?: string
           description?: string | null
           end_time?: string
+          focus_preset_id?: string | null
           id?: string
           is_recurring?: boolean | null
+          kind?: string
           notification_id?: number | null
           parent_event_id?: string | null
           recurrence_end_date?: string | null
@@ -108,6 +116,7 @@ export type Database = {
           recurrence_type?: string | null
           reminder?: number | null
           start_time?: string
+          task_id?: string | null
           title?: string
           user_id?: string
         }
@@ -119,43 +128,107 @@ export type Database = {
             referencedRelation: "calendar_events"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "calendar_events_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
         ]
       }
       focus_sessions: {
         Row: {
+          calendar_event_id: string | null
           completed: boolean | null
           created_at: string
           date: string
+          distractions: Json | null
           duration_minutes: number
           id: string
           mode: string
           note: string | null
+          pauses: Json | null
           start_time: number
           task: string | null
+          task_id: string | null
           user_id: string
         }
         Insert: {
+          calendar_event_id?: string | null
           completed?: boolean | null
           created_at?: string
           date: string
+          distractions?: Json | null
           duration_minutes: number
           id?: string
           mode?: string
           note?: string | null
+          pauses?: Json | null
           start_time: number
           task?: string | null
+          task_id?: string | null
           user_id: string
         }
         Update: {
+          calendar_event_id?: string | null
           completed?: boolean | null
           created_at?: string
           date?: string
+          distractions?: Json | null
           duration_minutes?: number
           id?: string
           mode?: string
           note?: string | null
+          pauses?: Json | null
           start_time?: number
           task?: string | null
+          task_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "focus_sessions_calendar_event_id_fkey"
+            columns: ["calendar_event_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "focus_sessions_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      focus_timer_state: {
+        Row: {
+          changed_at: number
+          device_id: string
+          id: string
+          revision: number
+          state: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          changed_at: number
+          device_id: string
+          id?: string
+          revision?: number
+          state?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          changed_at?: number
+          device_id?: string
+          id?: string
+          revision?: number
+          state?: Json
+          updated_at?: string
           user_id?: string
         }
         Relationships: []
@@ -184,6 +257,36 @@ export type Database = {
         }
         Relationships: []
       }
+      habit_categories: {
+        Row: {
+          color: string
+          created_at: string
+          icon: string | null
+          id: string
+          name: string
+          sort_order: number
+          user_id: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          icon?: string | null
+          id?: string
+          name: string
+          sort_order?: number
+          user_id: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          icon?: string | null
+          id?: string
+          name?: string
+          sort_order?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
       habit_logs: {
         Row: {
           created_at: string
@@ -228,56 +331,168 @@ export type Database = {
           },
         ]
       }
+      habit_pauses: {
+        Row: {
+          created_at: string
+          end_date: string | null
+          habit_id: string | null
+          id: string
+          reason: string | null
+          start_date: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          end_date?: string | null
+          habit_id?: string | null
+          id?: string
+          reason?: string | null
+          start_date: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string | null
+          habit_id?: string | null
+          id?: string
+          reason?: string | null
+          start_date?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "habit_pauses_habit_id_fkey"
+            columns: ["habit_id"]
+            isOneToOne: false
+            referencedRelation: "habits"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      habit_routines: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          section: string
+          sort_order: number
+          steps: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          section?: string
+          sort_order?: number
+          steps?: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          section?: string
+          sort_order?: number
+          steps?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
       habits: {
         Row: {
           archived: boolean | null
+          category_id: string | null
           color: string | null
           created_at: string
           description: string | null
+          focus_link_keyword: string | null
+          focus_link_mode: string | null
+          freezes_per_month: number
           goal_target: number | null
           goal_type: string
           id: string
+          kind: string
           name: string
           reminder_time: string | null
+          reminder_times: string[] | null
+          schedule_days_of_month: number[] | null
           schedule_days_of_week: number[] | null
+          schedule_interval_days: number | null
+          schedule_start_date: string | null
+          schedule_times_per_month: number | null
           schedule_times_per_week: number | null
           schedule_type: string
+          schedule_week_of_month: number | null
+          sort_order: number
           updated_at: string
           user_id: string
         }
         Insert: {
           archived?: boolean | null
+          category_id?: string | null
           color?: string | null
           created_at?: string
           description?: string | null
+          focus_link_keyword?: string | null
+          focus_link_mode?: string | null
+          freezes_per_month?: number
           goal_target?: number | null
           goal_type?: string
           id?: string
+          kind?: string
           name: string
           reminder_time?: string | null
+          reminder_times?: string[] | null
+          schedule_days_of_month?: number[] | null
           schedule_days_of_week?: number[] | null
+          schedule_interval_days?: number | null
+          schedule_start_date?: string | null
+          schedule_times_per_month?: number | null
           schedule_times_per_week?: number | null
           schedule_type?: string
+          schedule_week_of_month?: number | null
+          sort_order?: number
           updated_at?: string
           user_id: string
         }
         Update: {
           archived?: boolean | null
+          category_id?: string | null
           color?: string | null
           created_at?: string
           description?: string | null
+          focus_link_keyword?: string | null
+          focus_link_mode?: string | null
+          freezes_per_month?: number
           goal_target?: number | null
           goal_type?: string
           id?: string
+          kind?: string
           name?: string
           reminder_time?: string | null
+          reminder_times?: string[] | null
+          schedule_days_of_month?: number[] | null
           schedule_days_of_week?: number[] | null
+          schedule_interval_days?: number | null
+          schedule_start_date?: string | null
+          schedule_times_per_month?: number | null
           schedule_times_per_week?: number | null
           schedule_type?: string
+          schedule_week_of_month?: number | null
+          sort_order?: number
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "habits_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "habit_categories"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       journal_entries: {
         Row: {
@@ -390,6 +605,48 @@ export type Database = {
         }
         Relationships: []
       }
+      tasks: {
+        Row: {
+          actual_pomodoros: number
+          completed_at: string | null
+          created_at: string
+          due_date: string | null
+          estimated_pomodoros: number | null
+          id: string
+          project: string | null
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          actual_pomodoros?: number
+          completed_at?: string | null
+          created_at?: string
+          due_date?: string | null
+          estimated_pomodoros?: number | null
+          id?: string
+          project?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          actual_pomodoros?: number
+          completed_at?: string | null
+          created_at?: string
+          due_date?: string | null
+          estimated_pomodoros?: number | null
+          id?: string
+          project?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_settings: {
         Row: {
           created_at: string
@@ -510,8 +767,10 @@ export type Database = {
       workout_sessions: {
         Row: {
           completed_at: string | null
+          exercises: Json | null
           exercises_completed: number | null
           id: string
+          kind: string
           plan_id: string | null
           started_at: string
           status: string
@@ -520,8 +779,10 @@ export type Database = {
         }
         Insert: {
           completed_at?: string | null
+          exercises?: Json | null
           exercises_completed?: number | null
           id?: string
+          kind?: string
           plan_id?: string | null
           started_at?: string
           status?: string
@@ -530,8 +791,10 @@ export type Database = {
         }
         Update: {
           completed_at?: string | null
+          exercises?: Json | null
           exercises_completed?: number | null
           id?: string
+          kind?: string
           plan_id?: string | null
           started_at?: string
           status?: string
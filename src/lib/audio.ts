@@ -293,6 +293,25 @@ export class AlarmSound {
     });
   }
 
+  /** Quiet single tone for flow-mode check-ins; shouldn't break concentration */
+  playCheckIn(): void {
+    void this.resumeContext().then(() => {
+      const ctx = this.getAudioContext();
+      const now = ctx.currentTime;
+      const oscillator = ctx.createOscillator();
+      const gainNode = ctx.createGain();
+      oscillator.connect(gainNode);
+      gainNode.connect(ctx.destination);
+      oscillator.type = "sine";
+      oscillator.frequency.setValueAtTime(659.25, now); // E5
+      gainNode.gain.setValueAtTime(0, now);
+      gainNode.gain.linearRampToValueAtTime(0.08, now + 0.1);
+      gainNode.gain.exponentialRampToValueAtTime(0.01, now + 1.5);
+      oscillator.start(now);
+      oscillator.stop(now + 1.5);
+    });
+  }
+
   // Test sound preview
   playPreview(type: AlarmSoundType): void {
     if (type === "none") return;
@@ -356,3 +375,236 @@ export class AlarmSound {
 }
 
 export const alarmSound = new AlarmSound();
+
+// Ambient backgrounds for work phases, all generated on the fly
+export type AmbientSoundType = "white" | "pink" | "brown" | "rain" | "cafe" | "binaural";
+
+export const AMBIENT_SOUNDS: { type: AmbientSoundType; label: string }[] = [
+  { type: "white", label: "White noise" },
+  { type: "pink", label: "Pink noise" },
+  { type: "brown", label: "Brown noise" },
+  { type: "rain", label: "Rain" },
+  { type: "cafe", label: "Café" },
+  { type: "binaural", label: "Binaural" },
+];
+
+export const DEFAULT_AMBIENT_VOLUME = 0.5;
+
+type NoiseColor = "white" | "pink" | "brown";
+
+export class AmbientSound {
+  private audioContext: AudioContext | null = null;
+  private master: GainNode | null = null;
+  private sources: AudioScheduledSourceNode[] = [];
+  private current: AmbientSoundType | null = null;
+  private stopTimeout: ReturnType<typeof setTimeout> | undefined;
+  private previewTimeout: ReturnType<typeof setTimeout> | undefined;
+  private noiseBuffers: Partial<Record<NoiseColor, AudioBuffer>> = {};
+
+  private getAudioContext(): AudioContext {
+    if (!this.audioContext) {
+      this.audioContext = new AudioContext();
+    }
+    return this.audioContext;
+  }
+
+  get playing(): AmbientSoundType | null {
+    return this.current;
+  }
+
+  /** Start (or switch to) a soundscape, fading in to volume (0-1) */
+  play(type: AmbientSoundType, volume: number, fadeSeconds = 2): void {
+    clearTimeout(this.previewTimeout);
+    if (this.current === type && this.master) {
+      this.setVolume(volume);
+      return;
+    }
+    this.stopNow();
+
+    const ctx = this.getAudioContext();
+    void ctx.resume();
+    const master = ctx.createGain();
+    master.gain.setValueAtTime(0, ctx.currentTime);
+    master.gain.linearRampToValueAtTime(volume, ctx.currentTime + fadeSeconds);
+    master.connect(ctx.destination);
+
+    this.master = master;
+    this.current = type;
+    this.build(type, ctx, master);
+  }
+
+  /** Play a few seconds of a soundscape, e.g. while picking one */
+  preview(type: AmbientSoundType, volume: number): void {
+    this.play(type, volume, 0.5);
+    this.previewTimeout = setTimeout(() => this.fadeOut(1.5), 4000);
+  }
+
+  setVolume(volume: number): void {
+    if (!this.master || !this.audioContext) return;
+    const now = this.audioContext.currentTime;
+    this.master.gain.cancelScheduledValues(now);
+    this.master.gain.setValueAtTime(this.master.gain.value, now);
+    this.master.gain.linearRampToValueAtTime(volume, now + 0.2);
+  }
+
+  /** Fade to silence, then release the nodes */
+  fadeOut(fadeSeconds = 3): void {
+    clearTimeout(this.previewTimeout);
+    if (!this.master || !this.audioContext) return;
+    const now = this.audioContext.currentTime;
+    this.master.gain.cancelScheduledValues(now);
+    this.master.gain.setValueAtTime(this.master.gain.value, now);
+    this.master.gain.linearRampToValueAtTime(0, now + fadeSeconds);
+
+    const master = this.master;
+    this.current = null;
+    clearTimeout(this.stopTimeout);
+    this.stopTimeout = setTimeout(() => {
+      if (this.master === master) this.stopNow();
+    }, fadeSeconds * 1000 + 100);
+  }
+
+  private stopNow(): void {
+    clearTimeout(this.stopTimeout);
+    this.sources.forEach((source) => {
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    this.sources = [];
+    this.master?.disconnect();
+    this.master = null;
+    this.current = null;
+  }
+
+  private build(type: AmbientSoundType, ctx: AudioContext, out: GainNode): void {
+    switch (type) {
+      case "white":
+      case "pink":
+      case "brown":
+        this.noise(ctx, type).connect(out);
+        break;
+      case "rain": {
+        // Pink noise shaped into a hiss, with a slow swell so it doesn't sound static
+        const highpass = ctx.createBiquadFilter();
+        highpass.type = "highpass";
+        highpass.frequency.value = 800;
+        const lowpass = ctx.createBiquadFilter();
+        lowpass.type = "lowpass";
+        lowpass.frequency.value = 7000;
+        const swell = ctx.createGain();
+        swell.gain.value = 0.8;
+        this.noise(ctx, "pink").connect(highpass);
+        highpass.connect(lowpass);
+        lowpass.connect(swell);
+        swell.connect(out);
+        this.lfo(ctx, 0.15, 0.2).connect(swell.gain);
+
+        // Low rumble underneath
+        const rumble = ctx.createBiquadFilter();
+        rumble.type = "lowpass";
+        rumble.frequency.value = 200;
+        const rumbleGain = ctx.createGain();
+        rumbleGain.gain.value = 0.5;
+        this.noise(ctx, "brown").connect(rumble);
+        rumble.connect(rumbleGain);
+        rumbleGain.connect(out);
+        break;
+      }
+      case "cafe": {
+        // Room hum plus a murmur band in the speech range that drifts in and out
+        const hum = ctx.createBiquadFilter();
+        hum.type = "lowpass";
+        hum.frequency.value = 350;
+        this.noise(ctx, "brown").connect(hum);
+        hum.connect(out);
+
+        const murmur = ctx.createBiquadFilter();
+        murmur.type = "bandpass";
+        murmur.frequency.value = 600;
+        murmur.Q.value = 0.8;
+        const murmurGain = ctx.createGain();
+        murmurGain.gain.value = 0.25;
+        this.noise(ctx, "pink").connect(murmur);
+        murmur.connect(murmurGain);
+        murmurGain.connect(out);
+        this.lfo(ctx, 0.3, 0.12).connect(murmurGain.gain);
+        this.lfo(ctx, 0.07, 200).connect(murmur.frequency);
+        break;
+      }
+      case "binaural": {
+        // 200 Hz left and 210 Hz right: a 10 Hz alpha-range beat (headphones needed)
+        [{ freq: 200, pan: -1 }, { freq: 210, pan: 1 }].forEach(({ freq, pan }) => {
+          const osc = ctx.createOscillator();
+          osc.type = "sine";
+          osc.frequency.value = freq;
+          const panner = ctx.createStereoPanner();
+          panner.pan.value = pan;
+          const gain = ctx.createGain();
+          gain.gain.value = 0.3;
+          osc.connect(gain);
+          gain.connect(panner);
+          panner.connect(out);
+          osc.start();
+          this.sources.push(osc);
+        });
+        break;
+      }
+    }
+  }
+
+  /** Looping noise source; buffers are generated once per color */
+  private noise(ctx: AudioContext, color: NoiseColor): AudioBufferSourceNode {
+    let buffer = this.noiseBuffers[color];
+    if (!buffer) {
+      const length = ctx.sampleRate * 4;
+      buffer = ctx.createBuffer(1, length, ctx.sampleRate);
+      const data = buffer.getChannelData(0);
+      let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0, last = 0;
+      for (let i = 0; i < length; i++) {
+        const white = Math.random() * 2 - 1;
+        if (color === "white") {
+          data[i] = white * 0.3;
+        } else if (color === "pink") {
+          // Paul Kellet's refined pink noise filter
+          b0 = 0.99886 * b0 + white * 0.0555179;
+          b1 = 0.99332 * b1 + white * 0.0750759;
+          b2 = 0.969 * b2 + white * 0.153852;
+          b3 = 0.8665 * b3 + white * 0.3104856;
+          b4 = 0.55 * b4 + white * 0.5329522;
+          b5 = -0.7616 * b5 - white * 0.016898;
+          data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.08;
+          b6 = white * 0.115926;
+        } else {
+          // Brown noise: leaky integration of white noise
+          last = (last + 0.02 * white) / 1.02;
+          data[i] = last * 3;
+        }
+      }
+      this.noiseBuffers[color] = buffer;
+    }
+
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.start();
+    this.sources.push(source);
+    return source;
+  }
+
+  /** Slow sine used to modulate an AudioParam by +/- depth */
+  private lfo(ctx: AudioContext, frequency: number, depth: number): GainNode {
+    const osc = ctx.createOscillator();
+    osc.frequency.value = frequency;
+    const gain = ctx.createGain();
+    gain.gain.value = depth;
+    osc.connect(gain);
+    osc.start();
+    this.sources.push(osc);
+    return gain;
+  }
+}
+
+export const ambientSound = new AmbientSound();
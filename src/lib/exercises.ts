@@ -0,0 +1,142 @@
+// Bodyweight exercise library shared by workout plans and break workouts
+
+export interface Exercise {
+  name: string;
+  duration: number | null;
+  reps: number | null;
+  rest: number;
+  instructions?: string;
+  imageUrl?: string;
+  targetMuscles?: string[];
+}
+
+// Default exercise library with images and instructions
+export const EXERCISE_LIBRARY: Record<string, Partial<Exercise>> = {
+  "jumping jacks": {
+    instructions: "Stand with feet together, jump while spreading legs and raising arms overhead, return to start position.",
+    imageUrl: "https://images.unsplash.com/photo-1571019614242-c5c5dee9f50b?w=400&h=300&fit=crop",
+    targetMuscles: ["full body", "cardio"],
+  },
+  "push-ups": {
+    instructions: "Place hands shoulder-width apart, lower chest to floor keeping body straight, push back up. Keep core engaged.",
+    imageUrl: "https://images.unsplash.com/photo-1598971639058-fab3c3109a00?w=400&h=300&fit=crop",
+    targetMuscles: ["chest", "triceps", "shoulders"],
+  },
+  "squats": {
+    instructions: "Stand with feet shoulder-width apart, lower hips back and down as if sitting in a chair, keep chest up and knees behind toes.",
+    imageUrl: "https://images.unsplash.com/photo-1574680096145-d05b474e2155?w=400&h=300&fit=crop",
+    targetMuscles: ["quads", "glutes", "hamstrings"],
+  },
+  "plank": {
+    instructions: "Rest on forearms and toes, keep body in straight line from head to heels, engage core and hold position.",
+    imageUrl: "https://images.unsplash.com/photo-1566241142559-40e1dab266c6?w=400&h=300&fit=crop",
+    targetMuscles: ["core", "shoulders"],
+  },
+  "lunges": {
+    instructions: "Step forward with one leg, lower back knee toward ground, front knee stays behind toes, push back to start.",
+    imageUrl: "https://images.unsplash.com/photo-1434608519344-49d77a699e1d?w=400&h=300&fit=crop",
+    targetMuscles: ["quads", "glutes", "hamstrings"],
+  },
+  "burpees": {
+    instructions: "Squat down, kick feet back to plank, do a push-up, jump feet forward, explosively jump up with arms overhead.",
+    imageUrl: "https://images.unsplash.com/photo-1599058945522-28d584b6f0ff?w=400&h=300&fit=crop",
+    targetMuscles: ["full body", "cardio"],
+  },
+  "mountain climbers": {
+    instructions: "Start in plank position, alternately drive knees toward chest rapidly while keeping hips low.",
+    imageUrl: "https://images.unsplash.com/photo-1434682881908-b43d0467b798?w=400&h=300&fit=crop",
+    targetMuscles: ["core", "cardio", "shoulders"],
+  },
+  "high knees": {
+    instructions: "Run in place, bringing knees up to hip level alternately, pump arms for momentum.",
+    imageUrl: "https://images.unsplash.com/photo-1476480862126-209bfaa8edc8?w=400&h=300&fit=crop",
+    targetMuscles: ["legs", "cardio"],
+  },
+  "crunches": {
+    instructions: "Lie on back with knees bent, hands behind head, curl upper body toward knees, lower slowly.",
+    imageUrl: "https://images.unsplash.com/photo-1571019613454-1cb2f99b2d8b?w=400&h=300&fit=crop",
+    targetMuscles: ["abs", "core"],
+  },
+  "bicep curls": {
+    instructions: "Hold weights at sides, curl toward shoulders keeping elbows stationary, lower slowly.",
+    imageUrl: "https://images.unsplash.com/photo-1581009146145-b5ef050c149a?w=400&h=300&fit=crop",
+    targetMuscles: ["biceps", "forearms"],
+  },
+};
+
+export function getExerciseDetails(exercise: Exercise): Exercise {
+  const key = exercise.name.toLowerCase();
+  const defaults = EXERCISE_LIBRARY[key];
+  
+  return {
+    ...exercise,
+    instructions: exercise.instructions || defaults?.instructions || "Perform the exercise with proper form.",
+    imageUrl: exercise.imageUrl || defaults?.imageUrl,
+    targetMuscles: exercise.targetMuscles || defaults?.targetMuscles || [],
+  };
+}
+
+// Break workouts: a few moves that fit in a pomodoro break without equipment.
+// Rep exercises get the same time slot as timed ones and can finish early
+const BREAK_EXERCISES: Exercise[] = [
+  { name: "Jumping Jacks", duration: 40, reps: null, rest: 20 },
+  { name: "Squats", duration: null, reps: 15, rest: 20 },
+  { name: "High Knees", duration: 30, reps: null, rest: 20 },
+  { name: "Push-ups", duration: null, reps: 10, rest: 20 },
+  { name: "Lunges", duration: null, reps: 12, rest: 20 },
+  { name: "Plank", duration: 30, reps: null, rest: 20 },
+  { name: "Mountain Climbers", duration: 30, reps: null, rest: 20 },
+];
+
+export const BREAK_REP_SECONDS = 45;
+
+const exerciseSeconds = (exercise: Exercise) => exercise.duration ?? BREAK_REP_SECONDS;
+
+// 3–5 minutes of exercises, leaving at least a minute of the break to rest
+export function buildBreakWorkout(breakMinutes: number): Exercise[] {
+  const targetSeconds = Math.min(5 * 60, Math.max(3 * 60, (breakMinutes - 1) * 60));
+  const pool = [...BREAK_EXERCISES].sort(() => Math.random() - 0.5);
+  const workout: Exercise[] = [];
+  let total = 0;
+
+  for (const exercise of pool) {
+    const seconds = exerciseSeconds(exercise) + exercise.rest;
+    if (workout.length > 0 && total + seconds > targetSeconds) break;
+    workout.push(getExerciseDetails(exercise));
+    total += seconds;
+  }
+
+  return workout;
+}
+
+export function getBreakWorkoutSeconds(exercises: Exercise[]): number {
+  return exercises.reduce((acc, e, i) => acc + exerciseSeconds(e) + (i < exercises.length - 1 ? e.rest : 0), 0);
+}
+
+export interface BreakWorkoutPosition {
+  index: number; // Current exercise, or exercises.length once finished
+  isResting: boolean;
+  secondsLeft: number; // In the current exercise or rest
+}
+
+// Where a workout is after `seconds`; there's no rest after the last exercise
+export function getBreakWorkoutPosition(exercises: Exercise[], seconds: number): BreakWorkoutPosition {
+  let remaining = seconds;
+  for (let index = 0; index < exercises.length; index++) {
+    const work = exerciseSeconds(exercises[index]);
+    if (remaining < work) return { index, isResting: false, secondsLeft: Math.ceil(work - remaining) };
+    remaining -= work;
+
+    const rest = index < exercises.length - 1 ? exercises[index].rest : 0;
+    if (remaining < rest) return { index, isResting: true, secondsLeft: Math.ceil(rest - remaining) };
+    remaining -= rest;
+  }
+  return { index: exercises.length, isResting: false, secondsLeft: 0 };
+}
+
+// Seconds from the start of the workout to the end of exercise `index` (skipping its rest)
+export function getBreakExerciseEnd(exercises: Exercise[], index: number): number {
+  return exercises
+    .slice(0, index + 1)
+    .reduce((acc, e, i) => acc + exerciseSeconds(e) + (i < index ? e.rest : 0), 0);
+}
@@ -0,0 +1,109 @@
+import type { FocusSession, Task } from "@/types";
+import type { CalendarEvent } from "@/store/calendarStore";
+
+// Breakdowns of focus sessions for Insights. Sessions are attributed to the
+// linked task when there is one, otherwise to their free-text task.
+
+// Focus minutes by weekday (0 = Sunday) and hour, spreading each session over
+// the hours it ran through
+export function getFocusHeatmap(sessions: FocusSession[]): number[][] {
+  const grid = Array.from({ length: 7 }, () => Array<number>(24).fill(0));
+
+  sessions.forEach((session) => {
+    let cursor = new Date(session.startTime);
+    let remaining = session.durationMinutes;
+    while (remaining > 0) {
+      const minutes = Math.min(remaining, 60 - cursor.getMinutes());
+      grid[cursor.getDay()][cursor.getHours()] += minutes;
+      remaining -= minutes;
+      cursor = new Date(cursor.getTime() + minutes * 60 * 1000);
+    }
+  });
+
+  return grid;
+}
+
+export interface FocusTotal {
+  label: string;
+  minutes: number;
+  sessions: number;
+}
+
+const addTotal = (totals: Map<string, FocusTotal>, key: string, label: string, minutes: number) => {
+  const entry = totals.get(key) || { label, minutes: 0, sessions: 0 };
+  entry.minutes += minutes;
+  entry.sessions++;
+  totals.set(key, entry);
+};
+
+const sortTotals = (totals: Map<string, FocusTotal>) => [...totals.values()].sort((a, b) => b.minutes - a.minutes);
+
+export function getFocusTotalsByTask(sessions: FocusSession[], tasks: Task[]): FocusTotal[] {
+  const totals = new Map<string, FocusTotal>();
+  sessions.forEach((session) => {
+    const task = session.taskId ? tasks.find((t) => t.id === session.taskId) : undefined;
+    const label = task?.title || session.task?.trim() || "No task";
+    addTotal(totals, task ? task.id : label.toLowerCase(), label, session.durationMinutes);
+  });
+  return sortTotals(totals);
+}
+
+// Only linked tasks carry a project
+export function getFocusTotalsByProject(sessions: FocusSession[], tasks: Task[]): FocusTotal[] {
+  const totals = new Map<string, FocusTotal>();
+  sessions.forEach((session) => {
+    const project = tasks.find((t) => t.id === session.taskId)?.project || "No project";
+    addTotal(totals, project.toLowerCase(), project, session.durationMinutes);
+  });
+  return sortTotals(totals);
+}
+
+export interface EstimateAccuracy {
+  tasks: { id: string; title: string; estimated: number; actual: number }[];
+  estimated: number;
+  actual: number;
+  // Actual over estimated pomodoros for finished tasks; above 1 means work runs over
+  ratio: number | null;
+}
+
+// Planned vs actual pomodoros for estimated tasks with work logged
+export function getEstimateAccuracy(tasks: Task[]): EstimateAccuracy {
+  const estimated = tasks.filter((t) => t.estimatedPomodoros && t.actualPomodoros > 0);
+  const finished = estimated.filter((t) => t.status === "done");
+  const sum = (list: Task[], pick: (t: Task) => number) => list.reduce((acc, t) => acc + pick(t), 0);
+  const finishedEstimate = sum(finished, (t) => t.estimatedPomodoros || 0);
+
+  return {
+    tasks: estimated.map((t) => ({ id: t.id, title: t.title, estimated: t.estimatedPomodoros || 0, actual: t.actualPomodoros })),
+    estimated: sum(estimated, (t) => t.estimatedPomodoros || 0),
+    actual: sum(estimated, (t) => t.actualPomodoros),
+    ratio: finishedEstimate > 0
+      ? Math.round((sum(finished, (t) => t.actualPomodoros) / finishedEstimate) * 100) / 100
+      : null,
+  };
+}
+
+export interface FocusBlockProgress {
+  planned: number; // Minutes the block spans
+  actual: number; // Minutes of focus started from it
+  sessions: number;
+}
+
+// Repeats of a recurring block link to the block itself, so each repeat only
+// counts sessions from its own day
+export function getFocusBlockProgress(block: CalendarEvent, sessions: FocusSession[]): FocusBlockProgress {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+  };
+  const blockId = block.parentEventId ?? block.id;
+  const linked = sessions.filter(
+    (s) => s.calendarEventId === blockId && (!block.isRecurring || s.date === block.date)
+  );
+
+  return {
+    planned: Math.max(0, toMinutes(block.endTime) - toMinutes(block.startTime)),
+    actual: linked.reduce((acc, s) => acc + s.durationMinutes, 0),
+    sessions: linked.length,
+  };
+}
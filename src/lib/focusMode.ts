@@ -0,0 +1,24 @@
+import type { AppSettings, FocusTimer, NotificationSource } from "@/types";
+
+// Focus mode silences the rest of the app while a work phase runs. Sources on
+// the allowlist still get through.
+
+/**
+ * When the current work phase is due to end (epoch ms) if focus mode holds
+ * `source` back right now, otherwise null. Flow sessions and paused phases
+ * have no known end, so they hold everything until the phase changes.
+ */
+export function getFocusModeQuietUntil(
+  timer: FocusTimer,
+  settings: AppSettings,
+  source: NotificationSource
+): number | null {
+  if (!settings.focusModeEnabled || settings.focusModeAllowed?.includes(source)) return null;
+  if (!timer.isRunning || timer.phase !== "work") return null;
+  if (timer.mode === "flow" || timer.isPaused || !timer.startTimestamp) return Infinity;
+  return timer.startTimestamp + (timer.totalDuration - timer.elapsedBeforePause) * 1000;
+}
+
+export function isFocusModeSilencing(timer: FocusTimer, settings: AppSettings): boolean {
+  return !!settings.focusModeEnabled && timer.isRunning && timer.phase === "work";
+}
@@ -0,0 +1,310 @@
+import { format, isValid, parse, parseISO } from "date-fns";
+import {
+  HABIT_COLORS, type FocusMode, type Habit, type HabitCategory, type HabitLog, type HabitLogStatus, type HabitSchedule,
+} from "@/types";
+
+// CSV import/export for habits and habit logs. Lists like days of the week are
+// stored in one cell separated by semicolons, e.g. "1;3;5".
+
+export type CsvImportKind = "habits" | "logs";
+
+export interface CsvField {
+  key: string;
+  label: string;
+  required?: boolean;
+  aliases?: string[];
+}
+
+export const HABIT_CSV_FIELDS: CsvField[] = [
+  { key: "name", label: "Name", required: true, aliases: ["habit", "title"] },
+  { key: "description", label: "Description", aliases: ["notes"] },
+  { key: "kind", label: "Kind", aliases: ["type"] },
+  { key: "color", label: "Color", aliases: ["colour"] },
+  { key: "schedule", label: "Schedule", aliases: ["frequency", "schedule_type"] },
+  { key: "days_of_week", label: "Days of week", aliases: ["days"] },
+  { key: "times_per_week", label: "Times per week" },
+  { key: "interval_days", label: "Interval (days)" },
+  { key: "start_date", label: "Start date", aliases: ["interval_start"] },
+  { key: "days_of_month", label: "Days of month" },
+  { key: "week_of_month", label: "Week of month" },
+  { key: "times_per_month", label: "Times per month" },
+  { key: "goal_type", label: "Goal type" },
+  { key: "goal_target", label: "Goal target", aliases: ["target", "goal"] },
+  { key: "focus_keyword", label: "Focus keyword", aliases: ["focus_link_keyword"] },
+  { key: "focus_mode", label: "Focus mode", aliases: ["focus_link_mode"] },
+  { key: "category", label: "Category" },
+  { key: "archived", label: "Archived" },
+];
+
+export const LOG_CSV_FIELDS: CsvField[] = [
+  { key: "habit", label: "Habit name", required: true, aliases: ["name", "habit_name"] },
+  { key: "date", label: "Date", required: true, aliases: ["day"] },
+  { key: "status", label: "Status", aliases: ["done", "completed"] },
+  { key: "value", label: "Value", aliases: ["count", "minutes", "amount"] },
+  { key: "note", label: "Note", aliases: ["notes", "comment"] },
+];
+
+const SCHEDULE_TYPES: HabitSchedule["type"][] = [
+  "daily", "weekdays", "customDays", "timesPerWeek", "interval", "monthlyDays", "monthlyWeekday", "timesPerMonth",
+];
+const FOCUS_MODES: FocusMode[] = ["pomodoro", "deepFocus", "flow"];
+const LOG_STATUSES: HabitLogStatus[] = ["done", "skipped", "frozen", "partial", "slipped"];
+const DATE_FORMATS = ["yyyy-MM-dd", "MM/dd/yyyy", "dd.MM.yyyy", "yyyy/MM/dd"];
+
+// RFC 4180 parsing: quoted cells may contain commas, newlines and "" escapes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim() !== ""));
+}
+
+export function toCsv(rows: (string | number | boolean | null | undefined)[][]): string {
+  return rows
+    .map(row => row.map(value => {
+      const text = value === null || value === undefined ? "" : String(value);
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(","))
+    .join("\n");
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, "_");
+
+// Guess which CSV column feeds each field from the header names
+export function guessCsvMapping(headers: string[], fields: CsvField[]): Record<string, number | null> {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(fields.map(field => {
+    const candidates = [field.key, normalizeHeader(field.label), ...(field.aliases || [])];
+    const index = normalized.findIndex(h => candidates.includes(h));
+    return [field.key, index === -1 ? null : index];
+  }));
+}
+
+export function habitsToCsv(habits: Habit[], categories: HabitCategory[]): string {
+  const header = HABIT_CSV_FIELDS.map(f => f.key);
+  const rows = habits.map(habit => [
+    habit.name,
+    habit.description,
+    habit.kind || "build",
+    habit.color,
+    habit.schedule.type,
+    habit.schedule.daysOfWeek?.join(";"),
+    habit.schedule.timesPerWeek,
+    habit.schedule.intervalDays,
+    habit.schedule.startDate,
+    habit.schedule.daysOfMonth?.join(";"),
+    habit.schedule.weekOfMonth,
+    habit.schedule.timesPerMonth,
+    habit.goalType,
+    habit.goalTarget,
+    habit.focusLink?.keyword,
+    habit.focusLink?.mode,
+    categories.find(c => c.id === habit.categoryId)?.name,
+    habit.archived,
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+export function logsToCsv(logs: HabitLog[], habits: Habit[]): string {
+  const header = LOG_CSV_FIELDS.map(f => f.key);
+  const rows = [...logs]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .flatMap(log => {
+      const habit = habits.find(h => h.id === log.habitId);
+      return habit ? [[habit.name, log.date, log.status, log.value, log.note]] : [];
+    });
+  return toCsv([header, ...rows]);
+}
+
+const parseNumber = (value: string | undefined): number | undefined => {
+  const n = Number(value?.trim());
+  return value?.trim() && Number.isFinite(n) ? n : undefined;
+};
+
+const parseNumberList = (value: string | undefined): number[] | undefined => {
+  const list = (value || "").split(/[;|\s]+/).filter(Boolean).map(Number).filter(n => Number.isInteger(n));
+  return list.length > 0 ? list : undefined;
+};
+
+export function parseCsvDate(value: string): string | null {
+  const text = value.trim();
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(text, pattern, new Date());
+    if (isValid(date)) return format(date, "yyyy-MM-dd");
+  }
+  const iso = parseISO(text);
+  return isValid(iso) ? format(iso, "yyyy-MM-dd") : null;
+}
+
+export type ImportedHabit = Omit<Habit, "id" | "createdAt" | "archived"> & { archived: boolean };
+
+export interface HabitImportPlan {
+  habits: ImportedHabit[];
+  duplicates: number;
+  invalid: number;
+}
+
+// Rows become habits; names already in use (or repeated in the file) are skipped
+export function planHabitImport(
+  rows: string[][],
+  mapping: Record<string, number | null>,
+  existing: Habit[],
+  categories: HabitCategory[]
+): HabitImportPlan {
+  const cell = (row: string[], key: string) => {
+    const index = mapping[key];
+    return index === null || index === undefined ? undefined : row[index]?.trim() || undefined;
+  };
+  const seen = new Set(existing.map(h => h.name.trim().toLowerCase()));
+  const habits: ImportedHabit[] = [];
+  let duplicates = 0;
+  let invalid = 0;
+
+  for (const row of rows) {
+    const name = cell(row, "name");
+    if (!name) {
+      invalid++;
+      continue;
+    }
+    if (seen.has(name.toLowerCase())) {
+      duplicates++;
+      continue;
+    }
+    seen.add(name.toLowerCase());
+
+    const scheduleText = cell(row, "schedule")?.toLowerCase();
+    const scheduleType = SCHEDULE_TYPES.find(t => t.toLowerCase() === scheduleText) || "daily";
+    const goalText = cell(row, "goal_type")?.toLowerCase();
+    const goalType: Habit["goalType"] = goalText === "count" || goalText === "duration" ? goalText : "check";
+    const color = cell(row, "color");
+    const categoryName = cell(row, "category")?.toLowerCase();
+    const isQuit = cell(row, "kind")?.toLowerCase() === "quit";
+    const startDate = parseCsvDate(cell(row, "start_date") || "") || undefined;
+    const focusKeyword = cell(row, "focus_keyword");
+    const focusModeText = cell(row, "focus_mode")?.toLowerCase();
+    const focusMode = FOCUS_MODES.find(m => m.toLowerCase() === focusModeText);
+
+    habits.push({
+      name,
+      description: cell(row, "description"),
+      kind: isQuit ? "quit" : "build",
+      color: color && /^#[0-9a-f]{6}$/i.test(color) ? color : HABIT_COLORS[habits.length % HABIT_COLORS.length],
+      schedule: isQuit ? { type: "daily" } : {
+        type: scheduleType,
+        daysOfWeek: parseNumberList(cell(row, "days_of_week")),
+        timesPerWeek: parseNumber(cell(row, "times_per_week")),
+        intervalDays: parseNumber(cell(row, "interval_days")),
+        startDate,
+        daysOfMonth: parseNumberList(cell(row, "days_of_month")),
+        weekOfMonth: parseNumber(cell(row, "week_of_month")),
+        timesPerMonth: parseNumber(cell(row, "times_per_month")),
+      },
+      goalType: isQuit ? "check" : goalType,
+      goalTarget: goalType !== "check" ? parseNumber(cell(row, "goal_target")) || 1 : undefined,
+      // Only duration habits collect focus minutes
+      focusLink: !isQuit && goalType === "duration" && (focusKeyword || focusMode)
+        ? { keyword: focusKeyword, mode: focusMode }
+        : undefined,
+      categoryId: categories.find(c => c.name.toLowerCase() === categoryName)?.id,
+      archived: ["true", "yes", "1"].includes(cell(row, "archived")?.toLowerCase() || ""),
+    });
+  }
+
+  return { habits, duplicates, invalid };
+}
+
+export interface ImportedLog {
+  habitName: string;
+  date: string;
+  status: HabitLogStatus;
+  value?: number;
+  note?: string;
+}
+
+export interface LogImportPlan {
+  logs: ImportedLog[];
+  missingHabits: string[]; // Habit names with no matching habit yet
+  duplicates: number;
+  invalid: number;
+}
+
+// Rows become logs, deduplicated by habit name and date against existing logs
+// and earlier rows in the file
+export function planLogImport(
+  rows: string[][],
+  mapping: Record<string, number | null>,
+  habits: Habit[],
+  logs: HabitLog[]
+): LogImportPlan {
+  const cell = (row: string[], key: string) => {
+    const index = mapping[key];
+    return index === null || index === undefined ? undefined : row[index]?.trim() || undefined;
+  };
+  const habitNames = new Map(habits.map(h => [h.id, h.name.trim().toLowerCase()]));
+  const seen = new Set(logs.map(l => `${habitNames.get(l.habitId)}|${l.date}`));
+  const known = new Set(habitNames.values());
+  const missing = new Map<string, string>();
+  const imported: ImportedLog[] = [];
+  let duplicates = 0;
+  let invalid = 0;
+
+  for (const row of rows) {
+    const habitName = cell(row, "habit");
+    const date = parseCsvDate(cell(row, "date") || "");
+    if (!habitName || !date) {
+      invalid++;
+      continue;
+    }
+
+    const key = `${habitName.toLowerCase()}|${date}`;
+    if (seen.has(key)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(key);
+
+    // Blank statuses and truthy values like "yes" or "1" count as done
+    const statusText = cell(row, "status")?.toLowerCase() || "done";
+    const status = LOG_STATUSES.find(s => s === statusText)
+      || (["0", "false", "no"].includes(statusText) ? "skipped" : "done");
+
+    imported.push({ habitName, date, status, value: parseNumber(cell(row, "value")), note: cell(row, "note") });
+    if (!known.has(habitName.toLowerCase())) missing.set(habitName.toLowerCase(), habitName);
+  }
+
+  return { logs: imported, missingHabits: [...missing.values()], duplicates, invalid };
+}
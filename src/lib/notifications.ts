@@ -1,11 +1,24 @@
 import { LocalNotifications } from "@capacitor/local-notifications";
 import { Capacitor } from "@capacitor/core";
+import { useNotificationQueueStore } from "@/store/notificationQueueStore";
 
 let swRegistration: ServiceWorkerRegistration | null = null;
 
 const SCHEDULED_KEY = "focus-scheduled";
 const FOCUS_TIMER_NOTIFICATION_ID = 9001;
 const FOCUS_CHANNEL_ID = "focus-timer";
+const HABIT_REMINDERS_KEY = "habit-reminders-scheduled";
+const HABIT_CHANNEL_ID = "habit-reminders";
+const SW_READY_TIMEOUT_MS = 3000;
+const CALENDAR_SOURCE = "calendar"; // Tags native calendar reminders so focus mode can find them
+
+export interface ScheduledReminder {
+  id: number;
+  title: string;
+  body: string;
+  at: number; // Epoch ms
+  url?: string; // Opened when the notification is tapped
+}
 
 /** Initialize native notifications (Android channel, etc.) - call on app load */
 export async function initNativeNotifications(): Promise<void> {
@@ -20,6 +33,13 @@ export async function initNativeNotifications(): Promise<void> {
         sound: "default",
         vibration: true,
       });
+      await LocalNotifications.createChannel({
+        id: HABIT_CHANNEL_ID,
+        name: "Habit Reminders",
+        description: "Reminders for habits due today",
+        importance: 4,
+        sound: "default",
+      });
     }
   } catch (e) {
     console.warn("Native notification init failed:", e);
@@ -95,6 +115,9 @@ export function checkAndShowMissedNotification(): void {
 /** Register service worker early - required for notifications when app is in background */
 export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
   if (!("serviceWorker" in navigator) || Capacitor.isNativePlatform()) return null;
+  navigator.serviceWorker.addEventListener("message", (event) => {
+    if (event.data?.type === "CALENDAR_REMINDER_DUE") showCalendarReminder(event.data.reminder);
+  });
   try {
     const reg = await navigator.serviceWorker.register("/sw.js", { scope: "/" });
     swRegistration = reg;
@@ -106,6 +129,33 @@ export async function registerServiceWorker(): Promise<ServiceWorkerRegistration
   }
 }
 
+// `ready` never settles when the worker can't register (insecure origin,
+// blocked by the browser), so it's only waited on once, and not for long
+let swReadyWait: Promise<ServiceWorkerRegistration | null> | null = null;
+
+async function getServiceWorkerRegistration(): Promise<ServiceWorkerRegistration | null> {
+  if (swRegistration) return swRegistration;
+  if (!("serviceWorker" in navigator)) return null;
+
+  if (!swReadyWait) {
+    swReadyWait = Promise.race([
+      navigator.serviceWorker.ready,
+      new Promise<null>((resolve) => setTimeout(() => resolve(null), SW_READY_TIMEOUT_MS)),
+    ]);
+  }
+  const reg = await swReadyWait;
+  if (reg) swRegistration = reg;
+  return reg;
+}
+
+// On a first visit the worker may still be installing. Returns false if there was none to post to
+function postToServiceWorker(reg: ServiceWorkerRegistration, message: unknown): boolean {
+  const worker = reg.active ?? reg.waiting ?? reg.installing;
+  if (!worker) return false;
+  worker.postMessage(message);
+  return true;
+}
+
 /** Schedule timer notification - SW for background + localStorage fallback for when app was closed */
 export async function scheduleTimerNotificationViaSW(
   endTime: number,
@@ -188,24 +238,40 @@ export async function requestNotificationPermission(): Promise<boolean> {
   return result.display === "granted";
 }
 
+/** Schedule a calendar notification; `url` is opened when it's tapped */
 export async function scheduleNotification(
   id: number,
   title: string,
   body: string,
-  scheduledAt: Date
+  scheduledAt: Date,
+  url?: string
 ): Promise<void> {
   if (!Capacitor.isNativePlatform()) {
-    const delay = scheduledAt.getTime() - Date.now();
-    const showNow = () => {
-      if ("Notification" in window && Notification.permission === "granted") {
-        new Notification(title, { body });
-      }
-    };
+    const reminder: ScheduledReminder = { id, title, body, at: scheduledAt.getTime(), url };
+    const delay = reminder.at - Date.now();
     if (delay <= 0) {
-      showNow();
-    } else if (delay < 3600000) {
-      setTimeout(showNow, delay);
+      showCalendarReminder(reminder);
+      return;
+    }
+
+    // The service worker keeps it across reloads and delivers it while the tab is closed
+    try {
+      const reg = await getServiceWorkerRegistration();
+      if (reg && postToServiceWorker(reg, { type: "SCHEDULE_CALENDAR_REMINDER", reminder })) return;
+    } catch (e) {
+      console.warn("Calendar reminder schedule failed:", e);
     }
+    // Without the worker only the open tab can deliver it
+    if (delay < 3600000) setTimeout(() => showCalendarReminder(reminder), delay);
+    else console.warn("Calendar reminder not scheduled: no service worker to keep it");
+    return;
+  }
+
+  // Due before the work phase ends: hold it instead, it's rescheduled if the phase ends early
+  const queue = useNotificationQueueStore.getState();
+  const quietUntil = queue.getQuietUntil("calendarReminders");
+  if (quietUntil !== null && scheduledAt.getTime() < quietUntil) {
+    queue.hold({ id: `calendar:${id}`, source: "calendarReminders", title, body, url, at: scheduledAt.getTime(), notificationId: id });
     return;
   }
 
@@ -219,16 +285,122 @@ export async function scheduleNotification(
         sound: "default",
         smallIcon: "ic_stat_icon_config_sample",
         iconColor: "#F59E0B",
+        extra: { source: CALENDAR_SOURCE, url },
       },
     ],
   });
 }
 
 export async function cancelNotification(id: number): Promise<void> {
-  if (!Capacitor.isNativePlatform()) return;
+  useNotificationQueueStore.getState().drop(`calendar:${id}`);
+  if (!Capacitor.isNativePlatform()) {
+    try {
+      const reg = await getServiceWorkerRegistration();
+      if (reg) postToServiceWorker(reg, { type: "CANCEL_CALENDAR_REMINDER", id });
+    } catch (e) {
+      console.warn("Calendar reminder cancel failed:", e);
+    }
+    return;
+  }
   await LocalNotifications.cancel({ notifications: [{ id }] });
 }
 
+// Web calendar reminders are shown by the page when it's open, so focus mode can hold them
+function showCalendarReminder({ id, title, body, url }: ScheduledReminder): void {
+  const queue = useNotificationQueueStore.getState();
+  if (queue.isQuiet("calendarReminders")) {
+    queue.hold({ id: `calendar:${id}`, source: "calendarReminders", title, body, url });
+    return;
+  }
+  if ("Notification" in window && Notification.permission === "granted") {
+    const notification = new Notification(title, { body });
+    if (url) {
+      notification.onclick = () => {
+        window.focus();
+        window.location.assign(url);
+      };
+    }
+  }
+}
+
+/**
+ * Take native calendar reminders due before `until` off the OS schedule and
+ * hold them for focus mode. Web reminders are checked when they fire instead.
+ */
+export async function holdNativeCalendarReminders(until: number): Promise<void> {
+  if (!Capacitor.isNativePlatform()) return;
+  try {
+    const pending = await LocalNotifications.getPending();
+    const due = pending.notifications
+      .filter((n) => n.extra?.source === CALENDAR_SOURCE && n.schedule?.at)
+      .map((n) => ({ ...n, at: new Date(n.schedule?.at ?? 0).getTime() }))
+      .filter((n) => n.at < until);
+    if (due.length === 0) return;
+
+    await LocalNotifications.cancel({ notifications: due.map((n) => ({ id: n.id })) });
+    const queue = useNotificationQueueStore.getState();
+    due.forEach((n) => queue.hold({
+      id: `calendar:${n.id}`,
+      source: "calendarReminders",
+      title: n.title,
+      body: n.body,
+      url: typeof n.extra?.url === "string" ? n.extra.url : undefined,
+      at: n.at,
+      notificationId: n.id,
+    }));
+  } catch (e) {
+    console.warn("Holding calendar reminders failed (native):", e);
+  }
+}
+
+/**
+ * Replace the scheduled habit reminders with a new set. Native reminders are
+ * scheduled with the OS; web reminders are persisted by the service worker so
+ * they survive reloads and fire while the tab is in the background.
+ */
+export async function syncHabitReminderNotifications(reminders: ScheduledReminder[]): Promise<void> {
+  if (Capacitor.isNativePlatform()) {
+    try {
+      const previousIds: number[] = JSON.parse(localStorage.getItem(HABIT_REMINDERS_KEY) || "[]");
+      if (previousIds.length > 0) {
+        await LocalNotifications.cancel({ notifications: previousIds.map((id) => ({ id })) });
+      }
+      if (reminders.length > 0) {
+        await LocalNotifications.schedule({
+          notifications: reminders.map((r) => ({
+            id: r.id,
+            title: r.title,
+            body: r.body,
+            schedule: { at: new Date(r.at), allowWhileIdle: true },
+            sound: "default",
+            channelId: HABIT_CHANNEL_ID,
+            extra: { url: r.url },
+          })),
+        });
+      }
+      localStorage.setItem(HABIT_REMINDERS_KEY, JSON.stringify(reminders.map((r) => r.id)));
+    } catch (e) {
+      console.warn("Habit reminder sync failed (native):", e);
+    }
+    return;
+  }
+
+  if (!("serviceWorker" in navigator)) return;
+  try {
+    const reg = swRegistration ?? (await navigator.serviceWorker.ready);
+    swRegistration = reg;
+    reg.active?.postMessage({ type: "SYNC_HABIT_REMINDERS", reminders });
+
+    // Periodic background sync wakes the worker to deliver reminders when supported
+    const periodicSync = (reg as ServiceWorkerRegistration & {
+      periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+    }).periodicSync;
+    await periodicSync?.register("habit-reminders", { minInterval: 15 * 60 * 1000 }).catch(() => {});
+  } catch (e) {
+    console.warn("Habit reminder sync failed:", e);
+  }
+}
+
 export async function cancelAllNotifications(): Promise<void> {
   if (!Capacitor.isNativePlatform()) return;
   const pending = await LocalNotifications.getPending();
@@ -236,3 +408,15 @@ export async function cancelAllNotifications(): Promise<void> {
     await LocalNotifications.cancel({ notifications: pending.notifications });
   }
 }
+
+/** Call `onOpen` with the url of a native notification the user tapped. Returns an unsubscribe function */
+export function addNotificationTapListener(onOpen: (url: string) => void): () => void {
+  if (!Capacitor.isNativePlatform()) return () => {};
+  const handle = LocalNotifications.addListener("localNotificationActionPerformed", (action) => {
+    const url = action.notification.extra?.url;
+    if (typeof url === "string") onOpen(url);
+  });
+  return () => {
+    void handle.then((h) => h.remove());
+  };
+}
@@ -0,0 +1,159 @@
+import { useFocusStore } from "@/store/focusStore";
+import { formatTime } from "@/lib/utils";
+
+// Not in TypeScript's DOM lib yet (Chromium only)
+interface DocumentPictureInPicture {
+  requestWindow: (options?: { width?: number; height?: number }) => Promise<Window>;
+}
+
+const PIP_WIDTH = 300;
+const PIP_HEIGHT = 180;
+const CANVAS_WIDTH = 400;
+const CANVAS_HEIGHT = 225;
+
+function getDocumentPictureInPicture(): DocumentPictureInPicture | undefined {
+  return (window as Window & { documentPictureInPicture?: DocumentPictureInPicture }).documentPictureInPicture;
+}
+
+export function hasDocumentPictureInPicture(): boolean {
+  return !!getDocumentPictureInPicture();
+}
+
+export function isPictureInPictureSupported(): boolean {
+  if (hasDocumentPictureInPicture()) return true;
+  return !!document.pictureInPictureEnabled && "captureStream" in HTMLCanvasElement.prototype;
+}
+
+// Skip button in the popped-out timer: ends the work phase or the break early
+export function skipFocusPhase() {
+  const { timer, skipBreak, skipSession } = useFocusStore.getState();
+  if (timer.mode !== "pomodoro") return;
+  if (timer.phase === "work") skipSession();
+  else skipBreak();
+}
+
+/**
+ * Opens an always-on-top window styled like the app. Render into its
+ * `document.body` with a portal. Must be called from a user gesture.
+ */
+export async function openDocumentPictureInPicture(): Promise<Window> {
+  const documentPip = getDocumentPictureInPicture();
+  if (!documentPip) throw new Error("Document Picture-in-Picture is not supported");
+
+  const win = await documentPip.requestWindow({ width: PIP_WIDTH, height: PIP_HEIGHT });
+  copyStyles(win.document);
+  return win;
+}
+
+/**
+ * Fallback for browsers without Document PiP: the focus timer drawn onto a
+ * canvas and streamed into a video in Picture-in-Picture. The video's
+ * play/pause and next-track buttons drive the timer. `onClose` runs when the
+ * user (or `exitPictureInPicture`) closes it.
+ */
+export async function openTimerVideoPictureInPicture(onClose: () => void): Promise<void> {
+  const canvas = document.createElement("canvas");
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  drawTimerFrame(canvas);
+
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.style.display = "none";
+  video.srcObject = canvas.captureStream();
+  document.body.appendChild(video);
+
+  try {
+    await video.play();
+    await video.requestPictureInPicture();
+  } catch (error) {
+    video.remove();
+    throw error;
+  }
+
+  // Hidden tabs throttle timers to about once a second, which is all the frame needs
+  const interval = setInterval(() => drawTimerFrame(canvas), 1000);
+  setTimerMediaSessionHandlers(true);
+
+  video.addEventListener("leavepictureinpicture", () => {
+    clearInterval(interval);
+    setTimerMediaSessionHandlers(false);
+    video.remove();
+    onClose();
+  }, { once: true });
+}
+
+// Tailwind's stylesheet and the theme class, so portaled components render as in the app
+function copyStyles(target: Document) {
+  target.documentElement.className = document.documentElement.className;
+
+  [...document.styleSheets].forEach((sheet) => {
+    try {
+      const style = target.createElement("style");
+      style.textContent = [...sheet.cssRules].map((rule) => rule.cssText).join("\n");
+      target.head.appendChild(style);
+    } catch {
+      // Cross-origin sheets can't be read, so link them instead
+      if (!sheet.href) return;
+      const link = target.createElement("link");
+      link.rel = "stylesheet";
+      link.href = sheet.href;
+      target.head.appendChild(link);
+    }
+  });
+}
+
+function drawTimerFrame(canvas: HTMLCanvasElement) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+
+  const { timer, getTimeRemaining, getElapsedTime } = useFocusStore.getState();
+  const styles = getComputedStyle(document.documentElement);
+  // Theme colors are stored as bare HSL components, e.g. "222 47% 11%"
+  const color = (name: string) => `hsl(${styles.getPropertyValue(name).trim()})`;
+
+  const phaseLabel = timer.mode === "flow" ? "Flow" : timer.phase === "work" ? "Focus" : timer.phase === "break" ? "Break" : "Long Break";
+  const seconds = timer.mode === "flow" ? getElapsedTime() : Math.max(0, Math.ceil(getTimeRemaining()));
+
+  ctx.fillStyle = color("--background");
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.textAlign = "center";
+
+  ctx.fillStyle = color("--muted-foreground");
+  ctx.font = "500 22px system-ui, sans-serif";
+  ctx.fillText(timer.isPaused ? `${phaseLabel} · Paused` : phaseLabel, canvas.width / 2, 50);
+
+  ctx.fillStyle = color("--primary");
+  ctx.font = "700 72px ui-monospace, monospace";
+  ctx.fillText(formatTime(seconds), canvas.width / 2, 135);
+
+  if (timer.task) {
+    ctx.fillStyle = color("--muted-foreground");
+    ctx.font = "400 20px system-ui, sans-serif";
+    ctx.fillText(timer.task, canvas.width / 2, 185, canvas.width - 40);
+  }
+
+  if ("mediaSession" in navigator) {
+    navigator.mediaSession.playbackState = timer.isPaused ? "paused" : "playing";
+  }
+}
+
+function setTimerMediaSessionHandlers(enabled: boolean) {
+  if (!("mediaSession" in navigator)) return;
+
+  const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+    ["play", () => useFocusStore.getState().resumeTimer()],
+    ["pause", () => useFocusStore.getState().pauseTimer()],
+    ["nexttrack", skipFocusPhase],
+  ];
+
+  handlers.forEach(([action, handler]) => {
+    try {
+      navigator.mediaSession.setActionHandler(action, enabled ? handler : null);
+    } catch {
+      // Action not supported by this browser
+    }
+  });
+  if (!enabled) navigator.mediaSession.playbackState = "none";
+}
@@ -0,0 +1,32 @@
+import { toast as sonnerToast, type ExternalToast } from "sonner";
+import { useNotificationQueueStore } from "@/store/notificationQueueStore";
+
+type ToastMessage = Parameters<typeof sonnerToast.success>[0];
+type ShowToast = (message: ToastMessage, data?: ExternalToast) => string | number;
+
+// Held toasts get an id nothing else uses, so dismissing it is a no-op
+const HELD_TOAST_ID = "held-for-break";
+
+const holdDuringFocus = (show: ShowToast): ShowToast => (message, data) => {
+  const queue = useNotificationQueueStore.getState();
+  if (typeof message !== "string" || !queue.isQuiet("toasts")) return show(message, data);
+
+  queue.hold({
+    source: "toasts",
+    title: message,
+    body: typeof data?.description === "string" ? data.description : undefined,
+  });
+  return HELD_TOAST_ID;
+};
+
+/**
+ * Sonner's toast for modules outside the focus timer. While focus mode is
+ * silencing a work phase, plain, success, info and warning toasts wait for the
+ * break summary. Errors, loading and promise toasts always show.
+ */
+export const toast: typeof sonnerToast = Object.assign(holdDuringFocus(sonnerToast), sonnerToast, {
+  success: holdDuringFocus(sonnerToast.success),
+  info: holdDuringFocus(sonnerToast.info),
+  warning: holdDuringFocus(sonnerToast.warning),
+  message: holdDuringFocus(sonnerToast.message),
+});
@@ -1,7 +1,13 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
-import { format, startOfWeek, addDays, parseISO, differenceInDays, isSameDay } from "date-fns";
-import type { Habit, HabitLog } from "@/types";
+import {
+  format, startOfWeek, startOfDay, startOfMonth, endOfMonth, addDays, addWeeks, addMonths,
+  parseISO, isSameDay, isSameMonth, differenceInCalendarDays,
+} from "date-fns";
+import {
+  DAY_NAMES, type FocusPauseReason, type FocusSession, type Habit, type HabitCategory, type HabitLog, type HabitPause,
+  type Routine, type RoutineSection, type RoutineStep, type Task,
+} from "@/types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -12,6 +18,10 @@ export function getToday(): string {
   return format(new Date(), "yyyy-MM-dd");
 }
 
+export function isFutureDate(date: string): boolean {
+  return date > getToday();
+}
+
 export function formatDate(date: string | Date, formatStr: string = "MMM d"): string {
   const d = typeof date === "string" ? parseISO(date) : date;
   return format(d, formatStr);
@@ -26,24 +36,22 @@ export function getDayOfWeek(date: Date = new Date()): number {
   return date.getDay();
 }
 
-export function isHabitDueToday(habit: Habit, today: Date = new Date()): boolean {
-  const dayOfWeek = today.getDay();
-  
-  switch (habit.schedule.type) {
-    case "daily":
-      return true;
-    case "weekdays":
-      return dayOfWeek >= 1 && dayOfWeek <= 5;
-    case "customDays":
-      return habit.schedule.daysOfWeek?.includes(dayOfWeek) ?? false;
-    case "timesPerWeek":
-      return true;
-    default:
-      return false;
-  }
+export function isHabitDueToday(habit: Habit, pauses: HabitPause[] = [], today: Date = new Date()): boolean {
+  return isHabitDueOnDate(habit, today, pauses);
+}
+
+export function formatOrdinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13
+    ? "th"
+    : ["th", "st", "nd", "rd"][n % 10] || "th";
+  return `${n}${suffix}`;
 }
 
-export function getScheduleLabel(habit: Habit): string {
+const WEEK_OF_MONTH_LABELS: Record<number, string> = { 1: "1st", 2: "2nd", 3: "3rd", 4: "4th", [-1]: "Last" };
+
+export function getScheduleLabel(habit: Pick<Habit, "schedule">): string {
+  const dayNames = ["S", "M", "T", "W", "T", "F", "S"];
+
   switch (habit.schedule.type) {
     case "daily":
       return "Every day";
@@ -53,157 +61,611 @@ export function getScheduleLabel(habit: Habit): string {
       const days = habit.schedule.daysOfWeek || [];
       if (days.length === 7) return "Every day";
       if (days.length === 0) return "No days set";
-      const dayNames = ["S", "M", "T", "W", "T", "F", "S"];
       return days.map(d => dayNames[d]).join(", ");
     }
     case "timesPerWeek":
       return `${habit.schedule.timesPerWeek}× per week`;
+    case "interval": {
+      const n = habit.schedule.intervalDays || 1;
+      return n === 1 ? "Every day" : `Every ${n} days`;
+    }
+    case "monthlyDays": {
+      const days = habit.schedule.daysOfMonth || [];
+      if (days.length === 0) return "No dates set";
+      return "Monthly on " + days.map(d => (d === -1 ? "last day" : formatOrdinal(d))).join(", ");
+    }
+    case "monthlyWeekday": {
+      const week = WEEK_OF_MONTH_LABELS[habit.schedule.weekOfMonth ?? 1];
+      const days = (habit.schedule.daysOfWeek || []).map(d => DAY_NAMES[d]).join("/");
+      return `${week} ${days || "day"} of the month`;
+    }
+    case "timesPerMonth":
+      return `${habit.schedule.timesPerMonth}× per month`;
     default:
       return "Unknown";
   }
 }
 
-// Streak calculation
-export function calculateStreak(habit: Habit, logs: HabitLog[]): { current: number; best: number } {
-  const habitLogs = logs
-    .filter(log => log.habitId === habit.id && log.status === "done")
-    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+// Pauses cover a single habit, or every habit when habitId is unset (vacation mode)
+export function isHabitPausedOnDate(habit: Habit, date: Date, pauses: HabitPause[] = []): boolean {
+  const dateStr = format(date, "yyyy-MM-dd");
+  return pauses.some(p =>
+    (!p.habitId || p.habitId === habit.id) &&
+    p.startDate <= dateStr &&
+    (!p.endDate || dateStr <= p.endDate)
+  );
+}
+
+export function getActivePause(habit: Habit, pauses: HabitPause[], date: Date = new Date()): HabitPause | undefined {
+  const dateStr = format(date, "yyyy-MM-dd");
+  return pauses.find(p =>
+    (!p.habitId || p.habitId === habit.id) &&
+    p.startDate <= dateStr &&
+    (!p.endDate || dateStr <= p.endDate)
+  );
+}
+
+export function isHabitDueOnDate(habit: Habit, date: Date, pauses: HabitPause[] = []): boolean {
+  if (isHabitPausedOnDate(habit, date, pauses)) return false;
+  // Quit habits are tracked from the day they were created
+  if (isQuitHabit(habit) && startOfDay(date) < startOfDay(habit.createdAt)) return false;
 
-  if (habitLogs.length === 0) {
-    return { current: 0, best: 0 };
+  const dayOfWeek = date.getDay();
+  
+  switch (habit.schedule.type) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return dayOfWeek >= 1 && dayOfWeek <= 5;
+    case "customDays":
+      return habit.schedule.daysOfWeek?.includes(dayOfWeek) ?? false;
+    case "timesPerWeek":
+    case "timesPerMonth":
+      return true;
+    case "interval": {
+      const start = habit.schedule.startDate ? parseISO(habit.schedule.startDate) : startOfDay(new Date(habit.createdAt));
+      const diff = differenceInCalendarDays(date, start);
+      return diff >= 0 && diff % (habit.schedule.intervalDays || 1) === 0;
+    }
+    case "monthlyDays": {
+      // Dates past the end of a short month (e.g. the 31st) fall on its last day
+      const lastDay = endOfMonth(date).getDate();
+      return (habit.schedule.daysOfMonth || []).some(d =>
+        (d === -1 ? lastDay : Math.min(d, lastDay)) === date.getDate()
+      );
+    }
+    case "monthlyWeekday": {
+      if (!habit.schedule.daysOfWeek?.includes(dayOfWeek)) return false;
+      const weekOfMonth = habit.schedule.weekOfMonth ?? 1;
+      if (weekOfMonth === -1) return !isSameMonth(addDays(date, 7), date);
+      return Math.ceil(date.getDate() / 7) === weekOfMonth;
+    }
+    default:
+      return false;
   }
+}
 
-  if (habit.schedule.type === "timesPerWeek") {
-    return calculateWeeklyStreak(habit, logs);
+export function isQuitHabit(habit: Pick<Habit, "kind">): boolean {
+  return habit.kind === "quit";
+}
+
+// Build habits count a day once it's done; quit habits count every tracked day
+// without a slip, from the day the habit was created
+export function isHabitCompletedOnDate(habit: Habit, logs: HabitLog[], date: string): boolean {
+  const log = logs.find(l => l.habitId === habit.id && l.date === date);
+  if (!isQuitHabit(habit)) return log?.status === "done";
+
+  return date >= format(habit.createdAt, "yyyy-MM-dd") && date <= getToday() && log?.status !== "slipped";
+}
+
+export function getSlipLogs(habit: Habit, logs: HabitLog[]): HabitLog[] {
+  return logs
+    .filter(l => l.habitId === habit.id && l.status === "slipped")
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Clean runs for quit habits: "current" is days since the last slip (or since
+// the habit was created), "best" the longest stretch between slips
+export function calculateCleanRun(
+  habit: Habit,
+  logs: HabitLog[],
+  today: Date = new Date()
+): { current: number; best: number } {
+  const slipDates = getSlipLogs(habit, logs).map(l => parseISO(l.date));
+  const created = startOfDay(habit.createdAt);
+  const start = slipDates.length > 0 && slipDates[0] < created ? slipDates[0] : created;
+
+  if (slipDates.length === 0) {
+    const current = Math.max(0, differenceInCalendarDays(today, start));
+    return { current, best: current };
   }
 
-  let bestStreak = 0;
-  let tempStreak = 0;
-  let lastDate: Date | null = null;
+  const current = Math.max(0, differenceInCalendarDays(today, slipDates[slipDates.length - 1]));
+  let best = Math.max(current, differenceInCalendarDays(slipDates[0], start));
+  for (let i = 1; i < slipDates.length; i++) {
+    best = Math.max(best, differenceInCalendarDays(slipDates[i], slipDates[i - 1]) - 1);
+  }
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  return { current, best };
+}
+
+// Streak calculation
+// Paused days, frozen days and days off the schedule are neutral: they neither
+// extend nor break a streak. Today only counts once it's done.
+export function calculateStreak(
+  habit: Habit,
+  logs: HabitLog[],
+  weekStartsMonday: boolean = true,
+  pauses: HabitPause[] = []
+): { current: number; best: number } {
+  if (isQuitHabit(habit)) return calculateCleanRun(habit, logs);
+
+  const { current, runs } = collectStreakRuns(habit, logs, weekStartsMonday, pauses);
+  return { current, best: Math.max(0, ...runs.map(run => run.length)) };
+}
 
+// Habit strength (0-100), an exponential moving average in the style of Loop
+// Habit Tracker. Every due day (or week/month for "N times per" goals) nudges
+// the score toward 1 when done, toward 0 when missed, and partially for partial
+// progress, so a single miss dents a strong habit instead of resetting it.
+// Skipped, frozen and paused days are neutral, as is today until it's logged.
+export function calculateHabitStrength(
+  habit: Habit,
+  logs: HabitLog[],
+  weekStartsMonday: boolean = true,
+  pauses: HabitPause[] = [],
+  asOf: Date = new Date()
+): number {
+  const habitLogs = logs.filter(log => log.habitId === habit.id);
+  const logByDate = new Map(habitLogs.map(log => [log.date, log]));
+  const end = startOfDay(asOf);
+  const endStr = format(end, "yyyy-MM-dd");
+
+  let first = startOfDay(habit.createdAt);
   for (const log of habitLogs) {
-    const logDate = parseISO(log.date);
-    logDate.setHours(0, 0, 0, 0);
+    const date = parseISO(log.date);
+    if (date < first) first = date;
+  }
+  if (first > end) return 0;
+
+  // Progress a single day contributes toward its goal. Count and duration days
+  // score by value, even when marked done below target
+  const dayValue = (log: HabitLog | undefined): number => {
+    if (log?.status !== "done" && log?.status !== "partial") return 0;
+    if (habit.goalType === "check" || log.value === undefined) return log.status === "done" ? 1 : 0;
+    return Math.min(1, (log.value || 0) / (habit.goalTarget || 1));
+  };
+
+  let score = 0;
+
+  if (habit.schedule.type === "timesPerWeek" || habit.schedule.type === "timesPerMonth") {
+    const weekly = habit.schedule.type === "timesPerWeek";
+    const target = (weekly ? habit.schedule.timesPerWeek : habit.schedule.timesPerMonth) || 1;
+    const periodStart = (date: Date) =>
+      weekly ? startOfWeek(date, { weekStartsOn: weekStartsMonday ? 1 : 0 }) : startOfMonth(date);
+    const nextPeriod = (date: Date) => (weekly ? addWeeks(date, 1) : addMonths(date, 1));
+
+    for (let start = periodStart(first); start <= end; start = nextPeriod(start)) {
+      const periodDays = differenceInCalendarDays(nextPeriod(start), start);
+      let activeDays = 0;
+      let completions = 0;
+
+      for (let i = 0; i < periodDays; i++) {
+        const day = addDays(start, i);
+        const log = logByDate.get(format(day, "yyyy-MM-dd"));
+        completions += dayValue(log);
+        if (log?.status === "skipped" || log?.status === "frozen" || isHabitPausedOnDate(habit, day, pauses)) continue;
+        activeDays++;
+      }
 
-    if (lastDate === null) {
-      tempStreak = 1;
+      if (activeDays === 0) continue;
+      const value = Math.min(1, completions / Math.min(target, activeDays));
+      // The period in progress only counts once its goal is met
+      if (nextPeriod(start) > end && value < 1) continue;
+
+      const multiplier = 0.5 ** (Math.sqrt(target * periodDays) / 13);
+      score = score * multiplier + value * (1 - multiplier);
+    }
+
+    return Math.round(score * 100);
+  }
+
+  const frequency = isQuitHabit(habit) ? 1 : getScheduleFrequency(habit);
+  const multiplier = 0.5 ** (1 / (13 * Math.sqrt(frequency)));
+
+  for (let date = first; date <= end; date = addDays(date, 1)) {
+    if (!isHabitDueOnDate(habit, date, pauses)) continue;
+
+    const dateStr = format(date, "yyyy-MM-dd");
+    const log = logByDate.get(dateStr);
+    let value: number;
+
+    if (isQuitHabit(habit)) {
+      value = log?.status === "slipped" ? 0 : 1;
     } else {
-      const daysDiff = differenceInDays(lastDate, logDate);
-      
-      if (daysDiff === 1 || isConsecutiveForSchedule(habit, lastDate, logDate)) {
-        tempStreak++;
-      } else {
-        bestStreak = Math.max(bestStreak, tempStreak);
-        tempStreak = 1;
-      }
+      if (log?.status === "skipped" || log?.status === "frozen") continue;
+      value = dayValue(log);
+      if (dateStr === endStr && value === 0) continue;
     }
 
-    lastDate = logDate;
+    score = score * multiplier + value * (1 - multiplier);
   }
 
-  bestStreak = Math.max(bestStreak, tempStreak);
+  return Math.round(score * 100);
+}
 
-  const mostRecentLog = parseISO(habitLogs[0].date);
-  const daysSinceLastLog = differenceInDays(today, mostRecentLog);
-  
-  let currentStreak = 0;
-  if (daysSinceLastLog <= 1 || isSameDay(today, mostRecentLog)) {
-    currentStreak = calculateCurrentStreak(habit, logs, today);
+// Average number of due days per calendar day for day-based schedules
+function getScheduleFrequency(habit: Habit): number {
+  const { schedule } = habit;
+  switch (schedule.type) {
+    case "weekdays":
+      return 5 / 7;
+    case "customDays":
+      return Math.max(1, schedule.daysOfWeek?.length || 0) / 7;
+    case "interval":
+      return 1 / (schedule.intervalDays || 1);
+    case "monthlyDays":
+      return Math.max(1, schedule.daysOfMonth?.length || 0) / 30;
+    case "monthlyWeekday":
+      return Math.max(1, schedule.daysOfWeek?.length || 0) / 30;
+    default:
+      return 1;
   }
+}
+
+export interface StreakRun {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+  length: number; // In the habit's streak unit (days, weeks or months)
+}
 
-  return { current: currentStreak, best: bestStreak };
+// Every streak a habit has had, newest first. Quit habits list their clean runs.
+export function getStreakHistory(
+  habit: Habit,
+  logs: HabitLog[],
+  weekStartsMonday: boolean = true,
+  pauses: HabitPause[] = []
+): StreakRun[] {
+  if (isQuitHabit(habit)) return getCleanRuns(habit, logs).reverse();
+  return collectStreakRuns(habit, logs, weekStartsMonday, pauses).runs.reverse();
 }
 
-function isConsecutiveForSchedule(_habit: Habit, date1: Date, date2: Date): boolean {
-  const diff = differenceInDays(date1, date2);
-  return diff === 1;
+function getCleanRuns(habit: Habit, logs: HabitLog[]): StreakRun[] {
+  const slipDates = [...new Set(getSlipLogs(habit, logs).map(l => l.date))];
+  const runs: StreakRun[] = [];
+  let start = format(habit.createdAt, "yyyy-MM-dd");
+
+  for (const slip of [...slipDates, null]) {
+    const end = slip ? format(addDays(parseISO(slip), -1), "yyyy-MM-dd") : getToday();
+    const length = differenceInCalendarDays(parseISO(end), parseISO(start)) + 1;
+    if (length > 0) runs.push({ start, end, length });
+    if (slip) start = format(addDays(parseISO(slip), 1), "yyyy-MM-dd");
+  }
+
+  return runs;
 }
 
-function calculateCurrentStreak(habit: Habit, logs: HabitLog[], fromDate: Date): number {
-  const habitLogs = logs
-    .filter(log => log.habitId === habit.id && log.status === "done")
-    .map(log => parseISO(log.date))
-    .sort((a, b) => b.getTime() - a.getTime());
+function collectStreakRuns(
+  habit: Habit,
+  logs: HabitLog[],
+  weekStartsMonday: boolean,
+  pauses: HabitPause[]
+): { current: number; runs: StreakRun[] } {
+  const habitLogs = logs.filter(log => log.habitId === habit.id);
+
+  if (!habitLogs.some(log => log.status === "done")) {
+    return { current: 0, runs: [] };
+  }
 
-  let streak = 0;
-  let currentDate = new Date(fromDate);
-  currentDate.setHours(0, 0, 0, 0);
+  if (habit.schedule.type === "timesPerWeek") {
+    const weekStartsOn = weekStartsMonday ? 1 : 0;
+    return calculatePeriodStreak(habit, habitLogs, pauses, {
+      start: (date) => startOfWeek(date, { weekStartsOn }),
+      add: addWeeks,
+      target: habit.schedule.timesPerWeek || 1,
+    });
+  }
 
-  const todayLog = habitLogs.find(d => isSameDay(d, currentDate));
-  if (todayLog) {
-    streak = 1;
-    currentDate = addDays(currentDate, -1);
-  } else if (isHabitDueToday(habit, currentDate)) {
-    return 0;
-  } else {
-    currentDate = addDays(currentDate, -1);
+  if (habit.schedule.type === "timesPerMonth") {
+    return calculatePeriodStreak(habit, habitLogs, pauses, {
+      start: startOfMonth,
+      add: addMonths,
+      target: habit.schedule.timesPerMonth || 1,
+    });
   }
 
-  while (true) {
-    const dayLog = habitLogs.find(d => isSameDay(d, currentDate));
-    const isDue = isHabitDueOnDate(habit, currentDate);
+  const statusByDate = new Map(habitLogs.map(log => [log.date, log.status]));
+  const firstDate = parseISO(habitLogs.reduce((min, log) => (log.date < min ? log.date : min), habitLogs[0].date));
+  const today = startOfDay(new Date());
+
+  const runs: StreakRun[] = [];
+  let run: StreakRun | null = null;
+
+  for (let date = firstDate; date <= today; date = addDays(date, 1)) {
+    const dateStr = format(date, "yyyy-MM-dd");
+    const status = statusByDate.get(dateStr);
 
-    if (isDue) {
-      if (dayLog) {
-        streak++;
-        currentDate = addDays(currentDate, -1);
-      } else {
-        break;
+    if (status === "done") {
+      if (!run) {
+        run = { start: dateStr, end: dateStr, length: 0 };
+        runs.push(run);
       }
-    } else {
-      currentDate = addDays(currentDate, -1);
+      run.end = dateStr;
+      run.length++;
+      continue;
     }
 
-    if (differenceInDays(fromDate, currentDate) > 365) break;
+    if (status === "frozen" || !isHabitDueOnDate(habit, date, pauses)) continue;
+    if (isSameDay(date, today)) continue;
+
+    run = null;
   }
 
-  return streak;
+  return { current: run?.length || 0, runs };
 }
 
-export function isHabitDueOnDate(habit: Habit, date: Date): boolean {
-  const dayOfWeek = date.getDay();
-  
-  switch (habit.schedule.type) {
-    case "daily":
-      return true;
-    case "weekdays":
-      return dayOfWeek >= 1 && dayOfWeek <= 5;
-    case "customDays":
-      return habit.schedule.daysOfWeek?.includes(dayOfWeek) ?? false;
-    case "timesPerWeek":
-      return true;
-    default:
-      return false;
-  }
+interface StreakPeriod {
+  start: (date: Date) => Date;
+  add: (start: Date, amount: number) => Date;
+  target: number;
 }
 
-function calculateWeeklyStreak(habit: Habit, logs: HabitLog[]): { current: number; best: number } {
-  const targetPerWeek = habit.schedule.timesPerWeek || 1;
-  const habitLogs = logs.filter(log => log.habitId === habit.id && log.status === "done");
-  
-  if (habitLogs.length === 0) return { current: 0, best: 0 };
+// Weekly and monthly goals count consecutive periods that hit the target. The
+// in-progress period only extends the streak once it qualifies; it never breaks it.
+function calculatePeriodStreak(
+  habit: Habit,
+  habitLogs: HabitLog[],
+  pauses: HabitPause[],
+  period: StreakPeriod
+): { current: number; runs: StreakRun[] } {
+  const completions = new Map<string, number>();
+  let earliest: Date | null = null;
 
-  const weeklyCompletions = new Map<string, number>();
-  
   for (const log of habitLogs) {
-    const date = parseISO(log.date);
-    const weekStart = format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
-    weeklyCompletions.set(weekStart, (weeklyCompletions.get(weekStart) || 0) + 1);
+    if (log.status === "skipped" || log.status === "partial") continue;
+    const periodStart = period.start(parseISO(log.date));
+    const key = format(periodStart, "yyyy-MM-dd");
+    completions.set(key, (completions.get(key) || 0) + 1);
+    if (!earliest || periodStart < earliest) earliest = periodStart;
   }
 
-  let meetsTarget = 0;
-  weeklyCompletions.forEach((count) => {
-    if (count >= targetPerWeek) meetsTarget++;
+  // Paused days lower the target; a fully paused period is neutral
+  const periodResult = (start: Date): "met" | "missed" | "neutral" => {
+    const length = differenceInCalendarDays(period.add(start, 1), start);
+    const activeDays = Array.from({ length }, (_, i) => addDays(start, i))
+      .filter(day => !isHabitPausedOnDate(habit, day, pauses)).length;
+    if (activeDays === 0) return "neutral";
+
+    const count = completions.get(format(start, "yyyy-MM-dd")) || 0;
+    return count >= Math.min(period.target, activeDays) ? "met" : "missed";
+  };
+
+  const currentPeriod = period.start(new Date());
+
+  const runs: StreakRun[] = [];
+  let run: StreakRun | null = null;
+  for (let start = earliest; start <= currentPeriod; start = period.add(start, 1)) {
+    const result = periodResult(start);
+    if (result === "met") {
+      if (!run) {
+        run = { start: format(start, "yyyy-MM-dd"), end: "", length: 0 };
+        runs.push(run);
+      }
+      run.end = format(addDays(period.add(start, 1), -1), "yyyy-MM-dd");
+      run.length++;
+    } else if (result === "missed" && !isSameDay(start, currentPeriod)) {
+      run = null;
+    }
+  }
+
+  let current = periodResult(currentPeriod) === "met" ? 1 : 0;
+  for (let start = period.add(currentPeriod, -1); start >= earliest; start = period.add(start, -1)) {
+    const result = periodResult(start);
+    if (result === "missed") break;
+    if (result === "met") current++;
+  }
+
+  return { current, runs };
+}
+
+export function formatStreak(habit: Habit, count: number): string {
+  if (isQuitHabit(habit)) return `${count} day${count !== 1 ? "s" : ""} clean`;
+
+  const unit = habit.schedule.type === "timesPerWeek"
+    ? "week"
+    : habit.schedule.type === "timesPerMonth" ? "month" : "day";
+  return `${count} ${unit}${count !== 1 ? "s" : ""}`;
+}
+
+// Streak freezes are budgeted per calendar month of the day they cover
+export function getFreezesRemaining(habit: Habit, logs: HabitLog[], month: Date = new Date()): number {
+  const monthKey = format(month, "yyyy-MM");
+  const used = logs.filter(l =>
+    l.habitId === habit.id && l.status === "frozen" && l.date.startsWith(monthKey)
+  ).length;
+  return Math.max(0, (habit.freezesPerMonth || 0) - used);
+}
+
+// Count and duration habits are done once their value reaches the target
+export function getProgressStatus(habit: Habit, value: number): "done" | "partial" {
+  return value >= (habit.goalTarget || 1) ? "done" : "partial";
+}
+
+export function isFocusSessionLinkedToHabit(habit: Habit, session: FocusSession): boolean {
+  if (habit.goalType !== "duration" || habit.archived || !habit.focusLink) return false;
+
+  const { keyword, mode } = habit.focusLink;
+  if (!keyword && !mode) return false;
+  if (mode && session.mode !== mode) return false;
+  if (keyword && !session.task?.toLowerCase().includes(keyword.toLowerCase())) return false;
+
+  return true;
+}
+
+// Interruption costs per 25 focused minutes; distraction taps and distraction
+// pauses cost the most, planned breaks and meetings the least
+const FOCUS_PAUSE_PENALTY: Record<FocusPauseReason | "unspecified", number> = {
+  distraction: 10,
+  unspecified: 5,
+  meeting: 3,
+  break: 2,
+};
+
+// 0-100 score from a session's pause log and distraction markers, null for
+// sessions recorded before interruptions were tracked
+export function calculateFocusQuality(
+  session: Pick<FocusSession, "durationMinutes" | "pauses" | "distractions">,
+  now = Date.now()
+): number | null {
+  if (!session.pauses && !session.distractions) return null;
+
+  const pauses = session.pauses || [];
+  const focusedMinutes = Math.max(session.durationMinutes, 1);
+  const pausedMinutes = pauses.reduce((acc, p) => acc + Math.max(0, (p.resumedAt ?? now) - p.pausedAt), 0) / 60000;
+
+  const interruptions = (session.distractions?.length || 0) * FOCUS_PAUSE_PENALTY.distraction
+    + pauses.reduce((acc, p) => acc + FOCUS_PAUSE_PENALTY[p.reason || "unspecified"], 0);
+  const interruptionPenalty = (interruptions * 25) / Math.max(focusedMinutes, 25);
+  const pausedPenalty = (pausedMinutes / (pausedMinutes + focusedMinutes)) * 30;
+
+  return Math.max(0, Math.min(100, Math.round(100 - interruptionPenalty - pausedPenalty)));
+}
+
+// Duration-weighted average quality of the sessions that have one
+export function calculateAverageFocusQuality(sessions: FocusSession[]): number | null {
+  let weighted = 0;
+  let minutes = 0;
+  sessions.forEach((session) => {
+    const quality = calculateFocusQuality(session);
+    if (quality === null || session.durationMinutes <= 0) return;
+    weighted += quality * session.durationMinutes;
+    minutes += session.durationMinutes;
   });
+  return minutes > 0 ? Math.round(weighted / minutes) : null;
+}
 
-  return { current: meetsTarget, best: meetsTarget };
+// First session whose span overlaps startTime..startTime + durationMinutes. Spans
+// use the focused minutes, so pauses inside a session aren't counted
+export function findOverlappingSession(
+  sessions: FocusSession[],
+  startTime: number,
+  durationMinutes: number,
+  ignoreId?: string
+): FocusSession | undefined {
+  const end = startTime + durationMinutes * 60 * 1000;
+  return sessions.find((s) =>
+    s.id !== ignoreId && s.startTime < end && startTime < s.startTime + s.durationMinutes * 60 * 1000
+  );
+}
+
+// Groups keep the habits' own order; uncategorized habits come last
+export function groupHabitsByCategory(
+  habits: Habit[],
+  categories: HabitCategory[]
+): { category?: HabitCategory; habits: Habit[] }[] {
+  const groups = [...categories]
+    .sort((a, b) => a.sortOrder - b.sortOrder)
+    .map(category => ({ category, habits: habits.filter(h => h.categoryId === category.id) }))
+    .filter(group => group.habits.length > 0);
+
+  const categoryIds = new Set(categories.map(c => c.id));
+  const uncategorized = habits.filter(h => !h.categoryId || !categoryIds.has(h.categoryId));
+  return uncategorized.length > 0 ? [...groups, { habits: uncategorized }] : groups;
+}
+
+// Routines
+export const ROUTINE_SECTIONS: RoutineSection[] = ["morning", "afternoon", "evening"];
+
+export function getRoutineSection(date: Date = new Date()): RoutineSection {
+  const hour = date.getHours();
+  if (hour < 12) return "morning";
+  if (hour < 17) return "afternoon";
+  return "evening";
+}
+
+// Steps whose habit is active and due on the date, in routine order
+export function getRoutineStepsForDate(
+  routine: Routine,
+  habits: Habit[],
+  date: Date,
+  pauses: HabitPause[] = []
+): { step: RoutineStep; habit: Habit }[] {
+  return routine.steps.flatMap(step => {
+    const habit = habits.find(h => h.id === step.habitId);
+    if (!habit || habit.archived || !isHabitDueOnDate(habit, date, pauses)) return [];
+    return [{ step, habit }];
+  });
+}
+
+// A routine counts as done once every step due that day is done; days with
+// nothing due are neutral (null)
+export function getRoutineProgressOnDate(
+  routine: Routine,
+  habits: Habit[],
+  logs: HabitLog[],
+  date: string,
+  pauses: HabitPause[] = []
+): { completed: number; total: number } | null {
+  const steps = getRoutineStepsForDate(routine, habits, new Date(date + "T12:00:00"), pauses);
+  if (steps.length === 0) return null;
+  return {
+    completed: steps.filter(({ habit }) => isHabitCompletedOnDate(habit, logs, date)).length,
+    total: steps.length,
+  };
+}
+
+// The routine to do next today: the first unfinished one from the current time
+// of day onward, falling back to earlier unfinished routines
+export function getNextRoutine(
+  routines: Routine[],
+  habits: Habit[],
+  logs: HabitLog[],
+  pauses: HabitPause[] = [],
+  now: Date = new Date()
+): Routine | undefined {
+  const today = format(now, "yyyy-MM-dd");
+  const currentSection = ROUTINE_SECTIONS.indexOf(getRoutineSection(now));
+  const pending = [...routines]
+    .sort((a, b) =>
+      ROUTINE_SECTIONS.indexOf(a.section) - ROUTINE_SECTIONS.indexOf(b.section) || a.sortOrder - b.sortOrder
+    )
+    .filter(routine => {
+      const progress = getRoutineProgressOnDate(routine, habits, logs, today, pauses);
+      return progress && progress.completed < progress.total;
+    });
+
+  return pending.find(r => ROUTINE_SECTIONS.indexOf(r.section) >= currentSection) ?? pending[0];
+}
+
+export function calculateRoutineCompletionRate(
+  routine: Routine,
+  habits: Habit[],
+  logs: HabitLog[],
+  days: number = 7,
+  pauses: HabitPause[] = []
+): number | null {
+  const today = new Date();
+  let totalDue = 0;
+  let completed = 0;
+
+  for (let i = 0; i < days; i++) {
+    const progress = getRoutineProgressOnDate(routine, habits, logs, format(addDays(today, -i), "yyyy-MM-dd"), pauses);
+    if (!progress) continue;
+    totalDue++;
+    if (progress.completed === progress.total) completed++;
+  }
+
+  if (totalDue === 0) return null;
+  return Math.round((completed / totalDue) * 100);
 }
 
 // Completion rate
-export function calculateCompletionRate(habit: Habit, logs: HabitLog[], days: number = 7): number {
+export function calculateCompletionRate(
+  habit: Habit,
+  logs: HabitLog[],
+  days: number = 7,
+  pauses: HabitPause[] = []
+): number {
   const today = new Date();
   let totalDue = 0;
   let completed = 0;
@@ -212,10 +674,12 @@ export function calculateCompletionRate(habit: Habit, logs: HabitLog[], days: nu
     const date = addDays(today, -i);
     const dateStr = format(date, "yyyy-MM-dd");
     
-    if (isHabitDueOnDate(habit, date)) {
+    if (isHabitDueOnDate(habit, date, pauses)) {
+      const log = logs.find(l => l.habitId === habit.id && l.date === dateStr);
+      if (log?.status === "frozen") continue;
+
       totalDue++;
-      const log = logs.find(l => l.habitId === habit.id && l.date === dateStr && l.status === "done");
-      if (log) completed++;
+      if (isHabitCompletedOnDate(habit, logs, dateStr)) completed++;
     }
   }
 
@@ -223,6 +687,35 @@ export function calculateCompletionRate(habit: Habit, logs: HabitLog[], days: nu
   return Math.round((completed / totalDue) * 100);
 }
 
+// Completion rate per weekday (index 0 = Sunday) since the habit was created,
+// or null for weekdays it was never due
+export function calculateWeekdayCompletionRates(
+  habit: Habit,
+  logs: HabitLog[],
+  days: number = 365,
+  pauses: HabitPause[] = []
+): (number | null)[] {
+  const today = new Date();
+  const created = format(habit.createdAt, "yyyy-MM-dd");
+  const totals = Array.from({ length: 7 }, () => ({ due: 0, completed: 0 }));
+
+  for (let i = 0; i < days; i++) {
+    const date = addDays(today, -i);
+    const dateStr = format(date, "yyyy-MM-dd");
+    if (dateStr < created) break;
+    if (!isHabitDueOnDate(habit, date, pauses)) continue;
+
+    const log = logs.find(l => l.habitId === habit.id && l.date === dateStr);
+    if (log?.status === "frozen") continue;
+
+    const total = totals[date.getDay()];
+    total.due++;
+    if (isHabitCompletedOnDate(habit, logs, dateStr)) total.completed++;
+  }
+
+  return totals.map(t => (t.due > 0 ? Math.round((t.completed / t.due) * 100) : null));
+}
+
 // Time formatting
 export function formatTime(seconds: number): string {
   const mins = Math.floor(seconds / 60);
@@ -237,6 +730,13 @@ export function formatMinutes(minutes: number): string {
   return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
 }
 
+// "3/4 🍅" against the estimate, or just the count when there isn't one
+export function formatPomodoros(task: Pick<Task, "actualPomodoros" | "estimatedPomodoros">): string {
+  return task.estimatedPomodoros
+    ? `${task.actualPomodoros}/${task.estimatedPomodoros} 🍅`
+    : `${task.actualPomodoros} 🍅`;
+}
+
 // Generate unique ID
 export function generateId(): string {
   return crypto.randomUUID();
@@ -23,7 +23,7 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { useActivityStore, type Activity } from "@/store/activityStore";
 import { formatDistanceToNow } from "date-fns";
-import { toast } from "sonner";
+import { toast } from "@/lib/toast";
 import { cn } from "@/lib/utils";
 import { ActivityCharts } from "@/components/activity/ActivityCharts";
 import { AchievementsBadges } from "@/components/activity/AchievementsBadges";
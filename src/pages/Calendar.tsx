@@ -1,16 +1,21 @@
 import { useState, useMemo, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import { format, parseISO, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isSameMonth, addMonths, subMonths, startOfWeek, endOfWeek, addDays, addWeeks, addYears } from "date-fns";
 import { motion, AnimatePresence } from "framer-motion";
-import { Plus, ChevronLeft, ChevronRight, Clock, Trash2, Edit3, Bell, Repeat, Calendar as CalendarIcon } from "lucide-react";
+import { Plus, ChevronLeft, ChevronRight, Clock, Trash2, Edit3, Bell, Repeat, Calendar as CalendarIcon, Timer, Play } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { cn } from "@/lib/utils";
-import { useCalendarStore, CalendarEvent, EVENT_COLORS } from "@/store/calendarStore";
+import { cn, formatMinutes, getToday } from "@/lib/utils";
+import { getFocusBlockProgress } from "@/lib/focusAnalytics";
+import { useCalendarStore, CalendarEvent, CalendarEventKind, EVENT_COLORS } from "@/store/calendarStore";
+import { useFocusStore } from "@/store/focusStore";
+import { useTaskStore } from "@/store/taskStore";
 import { scheduleNotification, cancelNotification, requestNotificationPermission } from "@/lib/notifications";
+import { toast } from "@/lib/toast";
 
 const REMINDER_OPTIONS = [
   { value: 0, label: "At time of event" },
@@ -31,15 +36,22 @@ const RECURRENCE_OPTIONS = [
 
 const HOURS = Array.from({ length: 24 }, (_, i) => i);
 const ROW_HEIGHT = 48;
+const FOCUS_BLOCK_DRAG_TYPE = "application/x-focus-block";
+const NO_TASK = "none";
 
 export default function Calendar() {
+  const navigate = useNavigate();
   const { events, addEvent, updateEvent, deleteEvent } = useCalendarStore();
+  const { presets, activePresetId, sessions, timer, startFocusBlock } = useFocusStore();
+  const tasks = useTaskStore((s) => s.tasks);
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<string>(format(new Date(), "yyyy-MM-dd"));
   const [view, setView] = useState<"month" | "week" | "day">("week");
   const [isEditing, setIsEditing] = useState(false);
   const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
+  const [placingFocusBlock, setPlacingFocusBlock] = useState(false); // Tap-to-place for touch screens
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
 
   // Form state
   const [title, setTitle] = useState("");
@@ -50,6 +62,9 @@ export default function Calendar() {
   const [reminder, setReminder] = useState<number | undefined>(undefined);
   const [recurrenceType, setRecurrenceType] = useState<string>("none");
   const [recurrenceEndDate, setRecurrenceEndDate] = useState("");
+  const [kind, setKind] = useState<CalendarEventKind>("event");
+  const [focusPresetId, setFocusPresetId] = useState(activePresetId);
+  const [taskId, setTaskId] = useState(NO_TASK);
 
   useEffect(() => {
     checkNotificationPermission();
@@ -154,10 +169,23 @@ export default function Calendar() {
     setReminder(undefined);
     setRecurrenceType("none");
     setRecurrenceEndDate("");
+    setKind("event");
     setEditingEvent(null);
     setIsEditing(true);
   };
 
+  // Focus blocks notify when they start, so there's no reminder to pick
+  const handleNewFocusBlock = (dayStr: string, hour: number) => {
+    handleNewEvent();
+    setSelectedDate(dayStr);
+    setStartTime(`${String(hour).padStart(2, "0")}:00`);
+    setEndTime(hour < 23 ? `${String(hour + 1).padStart(2, "0")}:00` : "23:59");
+    setReminder(0);
+    setKind("focus");
+    setFocusPresetId(activePresetId);
+    setTaskId(NO_TASK);
+  };
+
   const handleEditEvent = (event: CalendarEvent) => {
     const originalEvent = event.parentEventId ? events.find((e) => e.id === event.parentEventId) || event : event;
     setTitle(originalEvent.title);
@@ -168,14 +196,42 @@ export default function Calendar() {
     setReminder(originalEvent.reminder);
     setRecurrenceType(originalEvent.recurrenceType || "none");
     setRecurrenceEndDate(originalEvent.recurrenceEndDate || "");
+    setKind(originalEvent.kind || "event");
+    setFocusPresetId(originalEvent.focusPresetId || activePresetId);
+    setTaskId(originalEvent.taskId || NO_TASK);
     setEditingEvent(originalEvent);
     setIsEditing(true);
   };
 
+  const linkedTask = tasks.find((t) => t.id === taskId);
+  // A focus block can go untitled and take its task's name
+  const eventTitle = title.trim() || (kind === "focus" ? linkedTask?.title || "Focus block" : "");
+
+  const scheduleEventNotification = async (eventId: string) => {
+    if (reminder === undefined || !notificationsEnabled) return;
+    const notificationId = Date.now();
+    const eventDateTime = new Date(`${selectedDate}T${startTime}`);
+    eventDateTime.setMinutes(eventDateTime.getMinutes() - reminder);
+    if (kind === "focus") {
+      // Tapping it opens the timer, which starts the block
+      const presetName = presets.find((p) => p.id === focusPresetId)?.name;
+      await scheduleNotification(
+        notificationId,
+        `Focus time: ${eventTitle}`,
+        `Tap to start${presetName ? ` ${presetName}` : ""} until ${endTime}`,
+        eventDateTime,
+        `/focus?block=${eventId}`
+      );
+    } else {
+      await scheduleNotification(notificationId, eventTitle, `Starting ${reminder === 0 ? "now" : `in ${reminder} minutes`}`, eventDateTime);
+    }
+    await updateEvent(eventId, { notificationId });
+  };
+
   const handleSave = async () => {
-    if (!title.trim()) return;
+    if (!eventTitle) return;
     const eventData = {
-      title,
+      title: eventTitle,
       description,
       date: selectedDate,
       startTime,
@@ -185,31 +241,36 @@ export default function Calendar() {
       isRecurring: recurrenceType !== "none",
       recurrenceType: recurrenceType !== "none" ? recurrenceType : undefined,
       recurrenceEndDate: recurrenceType !== "none" && recurrenceEndDate ? recurrenceEndDate : undefined,
+      kind,
+      ...(kind === "focus" && { focusPresetId, taskId: taskId === NO_TASK ? "" : taskId }),
     };
     if (editingEvent) {
       if (editingEvent.notificationId) await cancelNotification(editingEvent.notificationId);
       await updateEvent(editingEvent.id, eventData);
-      if (reminder !== undefined && notificationsEnabled) {
-        const notificationId = Date.now();
-        const eventDateTime = new Date(`${selectedDate}T${startTime}`);
-        eventDateTime.setMinutes(eventDateTime.getMinutes() - reminder);
-        await scheduleNotification(notificationId, title, `Starting ${reminder === 0 ? "now" : `in ${reminder} minutes`}`, eventDateTime);
-        await updateEvent(editingEvent.id, { notificationId });
-      }
+      await scheduleEventNotification(editingEvent.id);
     } else {
       const newEvent = await addEvent(eventData);
-      if (newEvent && reminder !== undefined && notificationsEnabled) {
-        const notificationId = Date.now();
-        const eventDateTime = new Date(`${selectedDate}T${startTime}`);
-        eventDateTime.setMinutes(eventDateTime.getMinutes() - reminder);
-        await scheduleNotification(notificationId, title, `Starting ${reminder === 0 ? "now" : `in ${reminder} minutes`}`, eventDateTime);
-        await updateEvent(newEvent.id, { notificationId });
-      }
+      if (newEvent) await scheduleEventNotification(newEvent.id);
     }
     setIsEditing(false);
     setEditingEvent(null);
   };
 
+  const handleStartFocusBlock = (block: CalendarEvent) => {
+    if (timer.isRunning) {
+      toast.info("A focus session is already running");
+    } else {
+      startFocusBlock(block);
+    }
+    navigate("/focus");
+  };
+
+  const handleFocusBlockDrop = (e: React.DragEvent, dayStr: string, hour: number) => {
+    e.preventDefault();
+    setDropTarget(null);
+    handleNewFocusBlock(dayStr, hour);
+  };
+
   const handleDeleteEvent = async (event: CalendarEvent) => {
     const eventToDelete = event.parentEventId ? events.find((e) => e.id === event.parentEventId) : event;
     if (eventToDelete) {
@@ -284,6 +345,27 @@ export default function Calendar() {
     const days = weekDays;
     return (
       <div className="w-full">
+        <div className="flex items-center gap-3 px-3 py-2 border-b border-border bg-muted/20">
+          <div
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.setData(FOCUS_BLOCK_DRAG_TYPE, "1");
+              e.dataTransfer.effectAllowed = "copy";
+            }}
+            onDragEnd={() => setDropTarget(null)}
+            onClick={() => setPlacingFocusBlock((p) => !p)}
+            className={cn(
+              "flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium cursor-grab active:cursor-grabbing select-none transition-colors",
+              placingFocusBlock ? "bg-primary text-primary-foreground" : "bg-primary/10 text-primary hover:bg-primary/20"
+            )}
+          >
+            <Timer className="w-3.5 h-3.5" />
+            Focus block
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {placingFocusBlock ? "Tap a time slot to place it" : "Drag onto a time slot to plan focus time"}
+          </p>
+        </div>
         <div className="grid border-b border-border" style={{ gridTemplateColumns: `56px repeat(7, 1fr)` }}>
           <div className="bg-muted/30" />
           {days.map((day) => (
@@ -311,16 +393,33 @@ export default function Calendar() {
                   const [evHour] = ev.startTime.split(":").map(Number);
                   return evHour === hour;
                 });
+                const cellKey = `${dayStr}-${hour}`;
                 return (
                   <div
                     key={day.toISOString()}
-                    className="border-l border-border/40 relative p-0.5 cursor-pointer"
+                    className={cn(
+                      "border-l border-border/40 relative p-0.5 cursor-pointer",
+                      (dropTarget === cellKey || placingFocusBlock) && "bg-primary/10",
+                      dropTarget === cellKey && "ring-1 ring-inset ring-primary"
+                    )}
                     onClick={() => {
+                      if (placingFocusBlock) {
+                        setPlacingFocusBlock(false);
+                        handleNewFocusBlock(dayStr, hour);
+                        return;
+                      }
                       setSelectedDate(dayStr);
                       setStartTime(`${String(hour).padStart(2, "0")}:00`);
                       setEndTime(`${String(hour + 1).padStart(2, "0")}:00`);
                       handleNewEvent();
                     }}
+                    onDragOver={(e) => {
+                      if (!e.dataTransfer.types.includes(FOCUS_BLOCK_DRAG_TYPE)) return;
+                      e.preventDefault();
+                      setDropTarget(cellKey);
+                    }}
+                    onDragLeave={() => setDropTarget((t) => (t === cellKey ? null : t))}
+                    onDrop={(e) => handleFocusBlockDrop(e, dayStr, hour)}
                   >
                     {hourEvents.map((ev) => (
                       <div
@@ -335,7 +434,10 @@ export default function Calendar() {
                           handleEditEvent(ev);
                         }}
                       >
-                        <p className="text-[10px] font-medium truncate">{ev.title}</p>
+                        <p className="text-[10px] font-medium truncate flex items-center gap-0.5">
+                          {ev.kind === "focus" && <Timer className="w-2.5 h-2.5 shrink-0" />}
+                          {ev.title}
+                        </p>
                         <p className="text-[9px] text-muted-foreground truncate">{ev.startTime} – {ev.endTime}</p>
                       </div>
                     ))}
@@ -477,36 +579,53 @@ export default function Calendar() {
         <AnimatePresence mode="popLayout">
           {selectedDateEvents.length > 0 ? (
             <div className="space-y-2">
-              {selectedDateEvents.map((event) => (
-                <motion.div
-                  key={event.id}
-                  initial={{ opacity: 0, y: 8 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  exit={{ opacity: 0 }}
-                  className="flex items-start gap-3 p-3 rounded-xl bg-muted/30 hover:bg-muted/60 transition-colors cursor-pointer"
-                >
-                  <div className="w-1 h-full min-h-[36px] rounded-full flex-shrink-0" style={{ backgroundColor: event.color }} />
-                  <div className="flex-1 min-w-0">
-                    <p className="font-medium">{event.title}</p>
-                    <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
-                      <Clock className="w-3 h-3" />
-                      <span>{event.startTime} – {event.endTime}</span>
-                      {event.isRecurring && <Repeat className="w-3 h-3" />}
+              {selectedDateEvents.map((event) => {
+                const progress = event.kind === "focus" ? getFocusBlockProgress(event, sessions) : null;
+                return (
+                  <motion.div
+                    key={event.id}
+                    initial={{ opacity: 0, y: 8 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0 }}
+                    className="flex items-start gap-3 p-3 rounded-xl bg-muted/30 hover:bg-muted/60 transition-colors cursor-pointer"
+                  >
+                    <div className="w-1 h-full min-h-[36px] rounded-full flex-shrink-0" style={{ backgroundColor: event.color }} />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium flex items-center gap-1.5">
+                        {event.kind === "focus" && <Timer className="w-3.5 h-3.5 text-primary" />}
+                        {event.title}
+                      </p>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground mt-1">
+                        <Clock className="w-3 h-3" />
+                        <span>{event.startTime} – {event.endTime}</span>
+                        {event.isRecurring && <Repeat className="w-3 h-3" />}
+                      </div>
+                      {progress && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Planned {formatMinutes(progress.planned)} • Focused {formatMinutes(progress.actual)}
+                          {progress.sessions > 0 && ` in ${progress.sessions} ${progress.sessions === 1 ? "session" : "sessions"}`}
+                        </p>
+                      )}
+                      {event.description && (
+                        <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{event.description}</p>
+                      )}
                     </div>
-                    {event.description && (
-                      <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{event.description}</p>
-                    )}
-                  </div>
-                  <div className="flex gap-1">
-                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEditEvent(event)}>
-                      <Edit3 className="w-3 h-3" />
-                    </Button>
-                    <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDeleteEvent(event)}>
-                      <Trash2 className="w-3 h-3" />
-                    </Button>
-                  </div>
-                </motion.div>
-              ))}
+                    <div className="flex gap-1">
+                      {event.kind === "focus" && event.date === getToday() && (
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-primary" onClick={() => handleStartFocusBlock(event)}>
+                          <Play className="w-3 h-3 fill-current" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEditEvent(event)}>
+                        <Edit3 className="w-3 h-3" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDeleteEvent(event)}>
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </motion.div>
+                );
+              })}
             </div>
           ) : (
             <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-center py-8 text-muted-foreground text-sm">
@@ -520,13 +639,48 @@ export default function Calendar() {
       <Dialog open={isEditing} onOpenChange={setIsEditing}>
         <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>{editingEvent ? "Edit Event" : "Create Event"}</DialogTitle>
+            <DialogTitle>
+              {kind === "focus" ? (editingEvent ? "Edit Focus Block" : "Plan Focus Block") : editingEvent ? "Edit Event" : "Create Event"}
+            </DialogTitle>
           </DialogHeader>
           <div className="space-y-4 mt-4">
             <div>
               <label className="text-sm font-medium mb-2 block">Title</label>
-              <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Add title" />
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder={kind === "focus" ? linkedTask?.title || "Focus block" : "Add title"}
+              />
             </div>
+            {kind === "focus" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Preset</label>
+                  <Select value={focusPresetId} onValueChange={setFocusPresetId}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {presets.map((p) => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Task</label>
+                  <Select value={taskId} onValueChange={setTaskId}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_TASK}>No task</SelectItem>
+                      {tasks
+                        .filter((t) => t.status !== "done" || t.id === taskId)
+                        .map((t) => (
+                          <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label className="text-sm font-medium mb-2 block">Start</label>
@@ -570,28 +724,36 @@ export default function Calendar() {
                 <Input type="date" value={recurrenceEndDate} onChange={(e) => setRecurrenceEndDate(e.target.value)} />
               </div>
             )}
-            <div>
-              <label className="text-sm font-medium mb-2 block">Notification</label>
-              <Select value={reminder?.toString() || "none"} onValueChange={(v) => setReminder(v === "none" ? undefined : parseInt(v))}>
-                <SelectTrigger><SelectValue placeholder="No notification" /></SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="none">No notification</SelectItem>
-                  {REMINDER_OPTIONS.map((opt) => (
-                    <SelectItem key={opt.value} value={opt.value.toString()}>{opt.label}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              {!notificationsEnabled && reminder !== undefined && (
-                <p className="text-xs text-muted-foreground mt-1">Enable reminders to receive notifications</p>
-              )}
-            </div>
+            {kind === "focus" ? (
+              <p className="text-xs text-muted-foreground">
+                {notificationsEnabled
+                  ? "You'll get a notification when the block starts. Tap it to start the timer."
+                  : "Enable reminders to get a one-tap start when the block begins."}
+              </p>
+            ) : (
+              <div>
+                <label className="text-sm font-medium mb-2 block">Notification</label>
+                <Select value={reminder?.toString() || "none"} onValueChange={(v) => setReminder(v === "none" ? undefined : parseInt(v))}>
+                  <SelectTrigger><SelectValue placeholder="No notification" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No notification</SelectItem>
+                    {REMINDER_OPTIONS.map((opt) => (
+                      <SelectItem key={opt.value} value={opt.value.toString()}>{opt.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {!notificationsEnabled && reminder !== undefined && (
+                  <p className="text-xs text-muted-foreground mt-1">Enable reminders to receive notifications</p>
+                )}
+              </div>
+            )}
             <div>
               <label className="text-sm font-medium mb-2 block">Description</label>
               <Textarea value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Add description" rows={3} />
             </div>
             <div className="flex gap-2 pt-2">
               <Button variant="outline" className="flex-1" onClick={() => setIsEditing(false)}>Cancel</Button>
-              <Button className="flex-1 bg-foreground text-background hover:bg-foreground/90" onClick={handleSave} disabled={!title.trim()}>
+              <Button className="flex-1 bg-foreground text-background hover:bg-foreground/90" onClick={handleSave} disabled={!eventTitle}>
                 Save
               </Button>
             </div>
@@ -1,28 +1,47 @@
 import { useState } from "react";
 import { motion } from "framer-motion";
-import { Plus, Target, Timer, Flame, CheckCircle2, CalendarDays, BookOpen } from "lucide-react";
+import { Plus, Target, Timer, Flame, CheckCircle2, CalendarDays, BookOpen, Play } from "lucide-react";
 import { Link } from "react-router-dom";
 import { useHabitStore } from "@/store/habitStore";
 import { useFocusStore } from "@/store/focusStore";
 import { useCalendarStore } from "@/store/calendarStore";
-import { isHabitDueToday, getToday, calculateStreak, formatMinutes, formatDate } from "@/lib/utils";
+import { useSettingsStore } from "@/store/settingsStore";
+import {
+  isHabitDueToday, getToday, calculateStreak, formatMinutes, formatDate, isQuitHabit, isHabitCompletedOnDate, formatStreak,
+  groupHabitsByCategory, getNextRoutine, getRoutineProgressOnDate,
+} from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { WeatherWidget } from "@/components/WeatherWidget";
 import { TimeWidget } from "@/components/TimeWidget";
-import { toast } from "sonner";
+import { LogSlipPopover } from "@/components/habits/LogSlipPopover";
+import { CategoryHeading } from "@/components/habits/CategoryHeading";
+import { RoutinePlayer } from "@/components/habits/RoutinePlayer";
+import { ROUTINE_SECTION_META } from "@/components/habits/routineSections";
+import type { Routine } from "@/types";
+import { toast } from "@/lib/toast";
 
 
 export default function Dashboard() {
-  const { habits, logs, logHabit } = useHabitStore();
+  const { habits, logs, pauses, categories, routines, logHabit } = useHabitStore();
   const { sessions } = useFocusStore();
   const { events } = useCalendarStore();
+  const weekStartsMonday = useSettingsStore((s) => s.settings.weekStartsMonday);
+  const groupByCategory = useSettingsStore((s) => !!s.settings.groupHabitsByCategory) && categories.length > 0;
   const today = getToday();
+  const [playingRoutine, setPlayingRoutine] = useState<Routine | null>(null);
 
-  const todayHabits = habits.filter(h => !h.archived && isHabitDueToday(h));
-  const completedToday = todayHabits.filter(h => 
-    logs.some(l => l.habitId === h.id && l.date === today && l.status === "done")
-  );
+  const todayHabits = habits.filter(h => !h.archived && isHabitDueToday(h, pauses));
+  // Quit habits count as completed while today is still clean
+  const completedToday = todayHabits.filter(h => isHabitCompletedOnDate(h, logs, today));
+
+  const habitGroups = groupByCategory
+    ? groupHabitsByCategory(todayHabits, categories)
+    : [{ category: undefined, habits: todayHabits }];
+
+  const nextRoutine = getNextRoutine(routines, habits, logs, pauses);
+  const nextRoutineProgress = nextRoutine && getRoutineProgressOnDate(nextRoutine, habits, logs, today, pauses);
+  const NextRoutineIcon = nextRoutine && ROUTINE_SECTION_META[nextRoutine.section].icon;
 
   const todaySessions = sessions.filter(s => s.date === today);
   const todayFocusMinutes = todaySessions.reduce((acc, s) => acc + s.durationMinutes, 0);
@@ -30,7 +49,7 @@ export default function Dashboard() {
   const todayEvents = events.filter(e => e.date === today).slice(0, 3);
 
   const bestStreak = habits.reduce((best, h) => {
-    const streak = calculateStreak(h, logs);
+    const streak = calculateStreak(h, logs, weekStartsMonday, pauses);
     return streak.current > best ? streak.current : best;
   }, 0);
 
@@ -92,6 +111,29 @@ export default function Dashboard() {
         </Card>
       )}
 
+      {/* Next Routine */}
+      {nextRoutine && nextRoutineProgress && NextRoutineIcon && (
+        <Card className="glass border-primary/20">
+          <CardContent className="p-4 flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-primary/10 flex items-center justify-center flex-shrink-0">
+              <NextRoutineIcon className="w-5 h-5 text-primary" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-xs text-muted-foreground">{ROUTINE_SECTION_META[nextRoutine.section].label} routine</p>
+              <p className="font-semibold truncate">{nextRoutine.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {nextRoutineProgress.completed}/{nextRoutineProgress.total} steps done
+              </p>
+            </div>
+            <Button size="sm" className="gradient-primary text-primary-foreground" onClick={() => setPlayingRoutine(nextRoutine)}>
+              <Play className="w-4 h-4 mr-1" />
+              {nextRoutineProgress.completed > 0 ? "Resume" : "Start"}
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+      <RoutinePlayer routine={playingRoutine} onOpenChange={(open) => !open && setPlayingRoutine(null)} />
+
       {/* Quick Actions */}
       <div className="grid grid-cols-2 gap-3">
         <Link to="/focus">
@@ -141,42 +183,61 @@ export default function Dashboard() {
             </CardContent>
           </Card>
         ) : (
-          <div className="space-y-2">
-            {todayHabits.map((habit, i) => {
-              const log = logs.find(l => l.habitId === habit.id && l.date === today);
-              const isDone = log?.status === "done";
-
-              return (
-                <motion.div
-                  key={habit.id}
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: i * 0.05 }}
-                >
-                  <Card className={`glass transition-all ${isDone ? "border-success/30 bg-success/5" : ""}`}>
-                    <CardContent className="p-4 flex items-center justify-between">
-                      <div className="flex items-center gap-3">
-                        <div 
-                          className="w-3 h-3 rounded-full"
-                          style={{ backgroundColor: habit.color || "hsl(var(--primary))" }}
-                        />
-                        <span className={`font-medium ${isDone ? "text-muted-foreground line-through" : ""}`}>
-                          {habit.name}
-                        </span>
-                      </div>
-                      <Button
-                        size="sm"
-                        variant={isDone ? "secondary" : "default"}
-                        className={isDone ? "" : "gradient-primary text-primary-foreground"}
-                        onClick={() => logHabit(habit.id, isDone ? "skipped" : "done")}
-                      >
-                        {isDone ? "Done" : "Complete"}
-                      </Button>
-                    </CardContent>
-                  </Card>
-                </motion.div>
-              );
-            })}
+          <div className="space-y-4">
+            {habitGroups.map(group => (
+              <div key={group.category?.id ?? "uncategorized"} className="space-y-2">
+                {groupByCategory && <CategoryHeading category={group.category} count={group.habits.length} />}
+                {group.habits.map((habit, i) => {
+                  const log = logs.find(l => l.habitId === habit.id && l.date === today);
+                  const isQuit = isQuitHabit(habit);
+                  const isDone = isHabitCompletedOnDate(habit, logs, today);
+
+                  return (
+                    <motion.div
+                      key={habit.id}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: i * 0.05 }}
+                    >
+                      <Card className={`glass transition-all ${isDone ? "border-success/30 bg-success/5" : ""}`}>
+                        <CardContent className="p-4 flex items-center justify-between">
+                          <div className="flex items-center gap-3">
+                            <div 
+                              className="w-3 h-3 rounded-full"
+                              style={{ backgroundColor: habit.color || "hsl(var(--primary))" }}
+                            />
+                            <span className={`font-medium ${isDone && !isQuit ? "text-muted-foreground line-through" : ""}`}>
+                              {habit.name}
+                            </span>
+                            {isQuit && (
+                              <span className="text-xs text-muted-foreground">
+                                {formatStreak(habit, calculateStreak(habit, logs).current)}
+                              </span>
+                            )}
+                          </div>
+                          {isQuit ? (
+                            <LogSlipPopover habit={habit}>
+                              <Button size="sm" variant={isDone ? "secondary" : "destructive"}>
+                                {isDone ? "Log slip" : "Slipped"}
+                              </Button>
+                            </LogSlipPopover>
+                          ) : (
+                            <Button
+                              size="sm"
+                              variant={isDone ? "secondary" : "default"}
+                              className={isDone ? "" : "gradient-primary text-primary-foreground"}
+                              onClick={() => logHabit(habit.id, isDone ? "skipped" : "done")}
+                            >
+                              {isDone ? "Done" : "Complete"}
+                            </Button>
+                          )}
+                        </CardContent>
+                      </Card>
+                    </motion.div>
+                  );
+                })}
+              </div>
+            ))}
           </div>
         )}
       </section>
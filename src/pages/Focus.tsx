@@ -1,10 +1,19 @@
 import { useEffect, useState, useMemo, useRef } from "react";
-import { Play, Pause, RotateCcw, Coffee, Brain, CheckCircle2, Settings, Volume2, VolumeX, Minus, Plus, Bell, Smartphone } from "lucide-react";
+import { format } from "date-fns";
+import { useSearchParams } from "react-router-dom";
+import { Play, Pause, RotateCcw, Coffee, Brain, CheckCircle2, Settings, Volume2, VolumeX, Minus, Plus, Bell, Smartphone, Waves, Square, Zap, Gauge, SkipForward, Headphones, MonitorSmartphone, ListTodo, Pencil, PictureInPicture2 } from "lucide-react";
 import { useFocusStore } from "@/store/focusStore";
+import { useFocusPipStore } from "@/store/focusPipStore";
 import { useScreenWakeLock } from "@/hooks/useScreenWakeLock";
 import { useHabitStore } from "@/store/habitStore";
-import { formatTime, getToday, isHabitDueToday } from "@/lib/utils";
-import { alarmSound, AlarmSoundType } from "@/lib/audio";
+import { useTaskStore } from "@/store/taskStore";
+import { useCalendarStore } from "@/store/calendarStore";
+import { FocusSessionDialog } from "@/components/focus/FocusSessionDialog";
+import { BreakWorkoutCard } from "@/components/focus/BreakWorkoutCard";
+import { calculateAverageFocusQuality, calculateFocusQuality, cn, formatPomodoros, formatTime, getToday, isHabitDueToday, isQuitHabit } from "@/lib/utils";
+import { alarmSound, AlarmSoundType, ambientSound, AMBIENT_SOUNDS, DEFAULT_AMBIENT_VOLUME, type AmbientSoundType } from "@/lib/audio";
+import { Slider } from "@/components/ui/slider";
+import { isPictureInPictureSupported } from "@/lib/pictureInPicture";
 import { requestNotificationPermission, scheduleTimerNotificationViaSW, cancelTimerNotificationViaSW, clearScheduledNotification, showNotificationNow } from "@/lib/notifications";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -15,66 +24,173 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
+import {
+  FOCUS_MODE_LABELS, FOCUS_PAUSE_REASON_LABELS, type FocusMode, type FocusPauseReason, type FocusPreset, type FocusSession, type NamedFocusPreset,
+} from "@/types";
 
 export default function Focus() {
-  const { timer, preset, startTimer, pauseTimer, resumeTimer, resetTimer, completeSession, getTimeRemaining, updatePreset } = useFocusStore();
-  const { habits, logs, logHabit } = useHabitStore();
+  const {
+    timer, preset, sessions, startTimer, pauseTimer, setPauseReason, resumeTimer, markDistraction, resetTimer, completeSession,
+    skipSession, skipBreak, getTimeRemaining, getElapsedTime, updatePreset, fetchSessions, startFocusBlock,
+    presets, activePresetId, selectPreset, addPreset, renamePreset, deletePreset,
+  } = useFocusStore();
+  const activePreset = presets.find(p => p.id === activePresetId) || presets[0];
+  // The device that last changed a synced timer rings and completes it
+  const isOwner = useFocusStore((s) => s.isTimerOwner());
+  const { pipWindow, isVideoOpen, open: openPip, close: closePip } = useFocusPipStore();
+  const { habits, logs, pauses, logHabit } = useHabitStore();
+  const tasks = useTaskStore((s) => s.tasks);
+  const calendarEvents = useCalendarStore((s) => s.events);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const blockId = searchParams.get("block");
 
   const [timeRemaining, setTimeRemaining] = useState(getTimeRemaining());
-  const [mode, setMode] = useState<"pomodoro" | "deepFocus">("pomodoro");
+  const [elapsed, setElapsed] = useState(getElapsedTime());
+  const [mode, setMode] = useState<FocusMode>("pomodoro");
   const [task, setTask] = useState("");
+  const [taskId, setTaskId] = useState<string>();
   const [showCompleteDialog, setShowCompleteDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+  const [showNewPresetDialog, setShowNewPresetDialog] = useState(false);
+  const [newPresetName, setNewPresetName] = useState("");
+  const [showSessionDialog, setShowSessionDialog] = useState(false);
+  const [editingSession, setEditingSession] = useState<FocusSession | null>(null);
   const hasHandledCompletionRef = useRef(false);
+  const checkInsPlayedRef = useRef(0);
+  // Phase the complete dialog was opened for, to notice it finishing on another device
+  const dialogPhaseRef = useRef("");
+  const phaseKey = `${timer.isRunning}-${timer.mode}-${timer.phase}-${timer.currentSession}`;
+  const isFlow = timer.isRunning ? timer.mode === "flow" : mode === "flow";
+  const checkInMinutes = preset.flowCheckInMinutes || 0;
   const today = getToday();
 
-  const todayHabits = habits.filter(h => !h.archived && isHabitDueToday(h));
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  // A focus block's start notification opens /focus?block=<id>; the tap is the start
+  useEffect(() => {
+    if (!blockId) return;
+    const block = calendarEvents.find(e => e.id === blockId);
+    if (!block) return; // Calendar events may still be loading
+    setSearchParams({}, { replace: true });
+    if (useFocusStore.getState().timer.isRunning) {
+      toast.info("A focus session is already running");
+      return;
+    }
+    startFocusBlock(block);
+    toast.success(`Focus block started: ${block.title}`);
+  }, [blockId, calendarEvents, setSearchParams, startFocusBlock]);
+
+  const openTasks = tasks.filter(t => t.status !== "done");
+  const runningTask = timer.taskId ? tasks.find(t => t.id === timer.taskId) : undefined;
+
+  const todaySessions = sessions.filter(s => s.date === today);
+  const recentSessions = [...sessions].sort((a, b) => b.startTime - a.startTime).slice(0, 8);
+  const todayQuality = calculateAverageFocusQuality(todaySessions);
+
+  // Live quality of the running work phase; an unresumed pause only counts once resumed
+  const openPause = timer.isPaused ? timer.pauses?.find(p => !p.resumedAt) : undefined;
+  const focusedSeconds = timer.mode === "flow" ? elapsed : timer.totalDuration - timeRemaining;
+  const currentQuality = calculateFocusQuality({
+    durationMinutes: Math.floor(focusedSeconds / 60),
+    pauses: (timer.pauses || []).filter(p => p.resumedAt),
+    distractions: timer.distractions || [],
+  });
+  const interruptionCount = (timer.pauses?.length || 0) + (timer.distractions?.length || 0);
+
+  const todayHabits = habits.filter(h => !h.archived && isHabitDueToday(h, pauses));
+  // Quit habits are never logged done, so there's nothing to work on for them
   const incompleteHabits = todayHabits.filter(h =>
-    !logs.some(l => l.habitId === h.id && l.date === today && l.status === "done")
+    !isQuitHabit(h) && !logs.some(l => l.habitId === h.id && l.date === today && l.status === "done")
   );
 
   const displayDuration = useMemo(() => {
+    if (isFlow) return timer.isRunning ? elapsed : 0;
     if (timer.isRunning) return timeRemaining;
     return mode === "pomodoro"
       ? preset.workMinutes * 60
       : preset.deepFocusMinutes * 60;
-  }, [timer.isRunning, mode, preset.workMinutes, preset.deepFocusMinutes, timeRemaining]);
+  }, [isFlow, elapsed, timer.isRunning, mode, preset.workMinutes, preset.deepFocusMinutes, timeRemaining]);
 
   const buttonDuration = mode === "pomodoro" ? preset.workMinutes : preset.deepFocusMinutes;
 
   useEffect(() => {
     if (!timer.isRunning || timer.isPaused) {
       setTimeRemaining(getTimeRemaining());
+      setElapsed(getElapsedTime());
       hasHandledCompletionRef.current = false;
       return;
     }
 
+    // Flow sessions count up until stopped, with an optional check-in chime
+    if (timer.mode === "flow") {
+      const checkInSeconds = checkInMinutes * 60;
+      // Don't replay check-ins already passed before a pause or reload
+      checkInsPlayedRef.current = checkInSeconds > 0 ? Math.floor(getElapsedTime() / checkInSeconds) : 0;
+
+      const interval = setInterval(() => {
+        const seconds = getElapsedTime();
+        setElapsed(seconds);
+
+        if (checkInSeconds > 0 && Math.floor(seconds / checkInSeconds) > checkInsPlayedRef.current) {
+          checkInsPlayedRef.current = Math.floor(seconds / checkInSeconds);
+          alarmSound.playCheckIn();
+        }
+      }, 250);
+
+      return () => clearInterval(interval);
+    }
+
     // Reset when starting a new phase so break completion can fire
     hasHandledCompletionRef.current = false;
 
-    const interval = setInterval(() => {
+    // While popped out, tick on the PiP window: it stays visible, so the phase
+    // still ends on time when this tab is in the background
+    const host = pipWindow ?? window;
+    const interval = host.setInterval(() => {
       const remaining = getTimeRemaining();
       setTimeRemaining(remaining);
 
-      if (remaining <= 0 && !hasHandledCompletionRef.current) {
+      if (remaining <= 0 && !hasHandledCompletionRef.current && isOwner) {
         hasHandledCompletionRef.current = true;
-        clearScheduledNotification();
-        cancelTimerNotificationViaSW(); // Prevent duplicate when completing in foreground
-        if (timer.phase === "work") {
-          setShowCompleteDialog(true);
-          alarmSound.playAlarm(preset.alarmSound);
-          void showNotificationNow("Focus session complete!", timer.task || "Great work! Time for a break.");
-        } else {
-          alarmSound.playBreakEnd(preset.alarmSound);
-          void showNotificationNow("Break is over! ☕", "Ready for the next focus session?");
-          toast.success("Break complete! Ready for the next session?");
-          completeSession();
-        }
+        handlePhaseEnd();
       }
     }, 100);
 
-    return () => clearInterval(interval);
-  }, [timer.isRunning, timer.isPaused, timer.startTimestamp, timer.phase, preset.alarmSound]);
+    return () => host.clearInterval(interval);
+  }, [timer.isRunning, timer.isPaused, timer.startTimestamp, timer.phase, timer.mode, preset.alarmSound, checkInMinutes, isOwner, pipWindow]);
+
+  const handlePhaseEnd = () => {
+    clearScheduledNotification();
+    cancelTimerNotificationViaSW(); // Prevent duplicate when completing in foreground
+    if (timer.phase === "work") {
+      dialogPhaseRef.current = phaseKey;
+      setShowCompleteDialog(true);
+      alarmSound.playAlarm(preset.alarmSound);
+      void showNotificationNow("Focus session complete!", timer.task || "Great work! Time for a break.");
+    } else {
+      alarmSound.playBreakEnd(preset.alarmSound);
+      void showNotificationNow("Break is over! ☕", "Ready for the next focus session?");
+      toast.success("Break complete! Ready for the next session?");
+      completeSession();
+    }
+  };
+
+  // The other device may be closed, so this one can take over an ended phase
+  const handleFinishHere = () => {
+    hasHandledCompletionRef.current = true;
+    handlePhaseEnd();
+  };
+
+  // Close a stale summary when the phase was completed, skipped or reset elsewhere
+  useEffect(() => {
+    if (showCompleteDialog && dialogPhaseRef.current && dialogPhaseRef.current !== phaseKey) {
+      dialogPhaseRef.current = "";
+      setShowCompleteDialog(false);
+      toast.info("That session was finished on your other device");
+    }
+  }, [phaseKey, showCompleteDialog]);
 
   const [notificationsEnabled, setNotificationsEnabled] = useState(false);
 
@@ -89,9 +205,12 @@ export default function Focus() {
     checkPermission();
   }, []);
 
-  const progress = timer.isRunning
-    ? (1 - timeRemaining / timer.totalDuration) * 100
-    : 0;
+  // Flow has no end, so the ring fills once per check-in interval (or per hour)
+  const progress = !timer.isRunning
+    ? 0
+    : timer.mode === "flow"
+      ? ((elapsed % ((checkInMinutes || 60) * 60)) / ((checkInMinutes || 60) * 60)) * 100
+      : (1 - timeRemaining / timer.totalDuration) * 100;
 
   const handleStart = async () => {
     const granted = await requestNotificationPermission();
@@ -100,19 +219,23 @@ export default function Focus() {
     }
     alarmSound.warmUp();
     const duration = mode === "pomodoro" ? preset.workMinutes * 60 : preset.deepFocusMinutes * 60;
-    startTimer(mode, task.trim() || undefined, duration);
-    toast.success(`${mode === "pomodoro" ? "Pomodoro" : "Deep Focus"} started`);
+    startTimer(mode, task.trim() || undefined, mode === "flow" ? undefined : duration, taskId);
+    toast.success(`${FOCUS_MODE_LABELS[mode]} started`);
   };
 
   // Schedule notification when phase changes - works when app is in background (minimize, don't close)
   useEffect(() => {
-    if (!timer.isRunning || timer.isPaused || !timer.startTimestamp) return;
+    if (!isOwner) {
+      cancelTimerNotificationViaSW(); // The owning device notifies instead
+      return;
+    }
+    if (!timer.isRunning || timer.isPaused || !timer.startTimestamp || timer.mode === "flow") return;
     const endTime = timer.startTimestamp + timer.totalDuration * 1000;
     if (endTime <= Date.now() + 1000) return;
     const title = timer.phase === "work" ? "Focus session complete!" : "Break is over! ☕";
     const body = timer.phase === "work" ? timer.task || "Great work! Time for a break." : "Ready for the next focus session?";
     scheduleTimerNotificationViaSW(endTime, title, body);
-  }, [timer.isRunning, timer.isPaused, timer.startTimestamp, timer.phase, timer.totalDuration, timer.task]);
+  }, [timer.isRunning, timer.isPaused, timer.startTimestamp, timer.phase, timer.mode, timer.totalDuration, timer.task, isOwner]);
 
   // Cancel scheduled notification when pausing or resetting
   useEffect(() => {
@@ -122,6 +245,8 @@ export default function Focus() {
   }, [timer.isRunning, timer.isPaused]);
 
   const handleComplete = (markHabits: string[] = []) => {
+    const flowMinutes = Math.floor(getElapsedTime() / 60);
+    dialogPhaseRef.current = "";
     completeSession();
     setShowCompleteDialog(false);
 
@@ -129,16 +254,84 @@ export default function Focus() {
 
     if (timer.mode === "pomodoro" && timer.phase === "work") {
       toast.success("Great work! Taking a break now.");
+    } else if (timer.mode === "flow") {
+      toast.success(flowMinutes > 0 ? `Logged ${flowMinutes} minutes of flow` : "Flow under a minute wasn't logged");
     }
   };
 
+  // Freeze the clock while the summary is open so the logged duration is what was shown
+  const handleStopFlow = () => {
+    pauseTimer();
+    alarmSound.playAlarm(preset.alarmSound);
+    dialogPhaseRef.current = phaseKey;
+    setShowCompleteDialog(true);
+  };
+
+  // Work time cut short is still logged, as an incomplete session
+  const abandonedMinutes = () => (timer.phase === "work" ? Math.floor(getElapsedTime() / 60) : 0);
+
+  // Ambient sound and its own volume are saved on the active preset
+  const ambient = preset.ambientSound || "none";
+  const ambientVolume = ambient !== "none" ? preset.ambientVolumes?.[ambient] ?? DEFAULT_AMBIENT_VOLUME : 0;
+  const isAmbientLive = timer.isRunning && !timer.isPaused && timer.phase === "work";
+
+  const selectAmbient = (type: AmbientSoundType | "none") => {
+    updatePreset({ ambientSound: type });
+    if (type === "none") {
+      ambientSound.fadeOut(1);
+    } else if (!isAmbientLive) {
+      ambientSound.preview(type, preset.ambientVolumes?.[type] ?? DEFAULT_AMBIENT_VOLUME);
+    }
+  };
+
+  const changeAmbientVolume = (volume: number) => {
+    if (ambient === "none") return;
+    updatePreset({ ambientVolumes: { ...preset.ambientVolumes, [ambient]: volume } });
+    if (!isAmbientLive) ambientSound.preview(ambient, volume);
+  };
+
+  // New presets copy the current one, then open settings to tweak them
+  const handleCreatePreset = () => {
+    if (!newPresetName.trim()) return;
+    addPreset(newPresetName.trim());
+    setNewPresetName("");
+    setShowNewPresetDialog(false);
+    setShowSettingsDialog(true);
+  };
+
+  const openSessionDialog = (session: FocusSession | null) => {
+    setEditingSession(session);
+    setShowSessionDialog(true);
+  };
+
   const handleReset = () => {
+    const minutes = abandonedMinutes();
     resetTimer();
     setTask("");
-    toast.info("Timer reset");
+    setTaskId(undefined);
+    toast.info(minutes > 0 ? `Timer reset — ${minutes} min saved as incomplete` : "Timer reset");
   };
 
-  const phaseLabel = timer.phase === "work" ? "Focus" : timer.phase === "break" ? "Break" : "Long Break";
+  const handleSkip = () => {
+    if (timer.phase !== "work") {
+      skipBreak();
+      toast.info("Break skipped");
+      return;
+    }
+    const minutes = abandonedMinutes();
+    skipSession();
+    toast.info(minutes > 0 ? `Skipped — ${minutes} min saved as incomplete` : "Skipped to break");
+  };
+
+  const handleTogglePip = async () => {
+    if (pipWindow || isVideoOpen) {
+      closePip();
+      return;
+    }
+    if (!(await openPip())) toast.error("Couldn't pop out the timer");
+  };
+
+  const phaseLabel = timer.mode === "flow" ? "Flow" : timer.phase === "work" ? "Focus" : timer.phase === "break" ? "Break" : "Long Break";
   const isWorkPhase = timer.phase === "work";
 
   // Keep screen on during active focus sessions (mobile PWA)
@@ -177,13 +370,20 @@ export default function Focus() {
                 <Settings className="w-5 h-5" />
               </Button>
             </DialogTrigger>
-            <FocusSettingsDialog preset={preset} updatePreset={updatePreset} onClose={() => setShowSettingsDialog(false)} />
+            <FocusSettingsDialog
+              key={activePreset.id}
+              preset={activePreset}
+              updatePreset={updatePreset}
+              renamePreset={name => renamePreset(activePreset.id, name)}
+              deletePreset={presets.length > 1 ? () => deletePreset(activePreset.id) : undefined}
+              onClose={() => setShowSettingsDialog(false)}
+            />
           </Dialog>
         </header>
 
         {!timer.isRunning && (
           <>
-            <Tabs value={mode} onValueChange={v => setMode(v as "pomodoro" | "deepFocus")}>
+            <Tabs value={mode} onValueChange={v => setMode(v as FocusMode)}>
               <TabsList className="glass w-full p-1 rounded-xl h-12">
                 <TabsTrigger value="pomodoro" className="flex-1 rounded-lg data-[state=active]:shadow-sm">
                   <Coffee className="w-4 h-4 mr-2" />
@@ -193,15 +393,71 @@ export default function Focus() {
                   <Brain className="w-4 h-4 mr-2" />
                   Deep Focus
                 </TabsTrigger>
+                <TabsTrigger value="flow" className="flex-1 rounded-lg data-[state=active]:shadow-sm">
+                  <Waves className="w-4 h-4 mr-2" />
+                  Flow
+                </TabsTrigger>
               </TabsList>
             </Tabs>
 
+            <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1" data-no-page-swipe>
+              {presets.map(p => (
+                <button
+                  key={p.id}
+                  type="button"
+                  onClick={() => selectPreset(p.id)}
+                  className={cn(
+                    "flex flex-col items-start px-3 py-1.5 rounded-xl text-left whitespace-nowrap transition-colors",
+                    p.id === activePresetId ? "bg-primary text-primary-foreground" : "glass bg-background/40 hover:bg-secondary/60"
+                  )}
+                >
+                  <span className="text-xs font-medium">{p.name}</span>
+                  <span className="text-[10px] opacity-70">{p.workMinutes}/{p.breakMinutes} • {p.deepFocusMinutes}m deep</span>
+                </button>
+              ))}
+              <button
+                type="button"
+                onClick={() => setShowNewPresetDialog(true)}
+                className="flex items-center gap-1 px-3 py-1.5 rounded-xl text-xs font-medium whitespace-nowrap glass bg-background/40 hover:bg-secondary/60"
+              >
+                <Plus className="w-3.5 h-3.5" />
+                Preset
+              </button>
+            </div>
+
             <Input
               value={task}
-              onChange={e => setTask(e.target.value)}
+              onChange={e => {
+                setTask(e.target.value);
+                setTaskId(undefined); // Free text no longer matches the picked task
+              }}
               placeholder="What are you working on? (optional)"
               className="glass rounded-xl border-0 h-12 bg-background/60 backdrop-blur-xl"
             />
+
+            {openTasks.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1" data-no-page-swipe>
+                {openTasks.map(t => (
+                  <button
+                    key={t.id}
+                    type="button"
+                    onClick={() => {
+                      const picked = taskId !== t.id;
+                      setTaskId(picked ? t.id : undefined);
+                      setTask(picked ? t.title : "");
+                    }}
+                    className={cn(
+                      "flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-colors",
+                      t.id === taskId ? "bg-primary text-primary-foreground" : "glass bg-background/40 hover:bg-secondary/60"
+                    )}
+                  >
+                    <ListTodo className="w-3.5 h-3.5" />
+                    {t.title}
+                    <span className="opacity-70">{formatPomodoros(t)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
           </>
         )}
 
@@ -258,12 +514,13 @@ export default function Focus() {
                   </span>
                 ) : (
                   <span className="text-sm mt-2 text-muted-foreground">
-                    {mode === "pomodoro" ? "Pomodoro" : "Deep Focus"}
+                    {FOCUS_MODE_LABELS[mode]}
                   </span>
                 )}
                 {timer.task && timer.isRunning && (
                   <span className="text-xs text-muted-foreground mt-1 max-w-[200px] truncate px-2">
                     {timer.task}
+                    {runningTask && ` • ${formatPomodoros(runningTask)}`}
                   </span>
                 )}
               </div>
@@ -277,7 +534,7 @@ export default function Focus() {
                   onClick={handleStart}
                 >
                   <Play className="w-5 h-5 mr-2 fill-current" />
-                  Start {buttonDuration}m
+                  {mode === "flow" ? "Start flow" : `Start ${buttonDuration}m`}
                 </Button>
               ) : (
                 <>
@@ -285,10 +542,30 @@ export default function Focus() {
                     size="lg"
                     variant="secondary"
                     className="h-12 w-12 rounded-xl"
-                    onClick={timer.isPaused ? resumeTimer : pauseTimer}
+                    onClick={() => (timer.isPaused ? resumeTimer() : pauseTimer())}
                   >
                     {timer.isPaused ? <Play className="w-5 h-5 fill-current" /> : <Pause className="w-5 h-5" />}
                   </Button>
+                  {timer.mode === "flow" && (
+                    <Button
+                      size="lg"
+                      className="h-12 px-6 rounded-xl gradient-primary text-primary-foreground"
+                      onClick={handleStopFlow}
+                    >
+                      <Square className="w-4 h-4 mr-2 fill-current" />
+                      Stop
+                    </Button>
+                  )}
+                  {timer.mode === "pomodoro" && (
+                    <Button
+                      size="lg"
+                      variant="outline"
+                      className="h-12 w-12 rounded-xl"
+                      onClick={handleSkip}
+                    >
+                      <SkipForward className="w-5 h-5" />
+                    </Button>
+                  )}
                   <Button
                     size="lg"
                     variant="outline"
@@ -297,19 +574,99 @@ export default function Focus() {
                   >
                     <RotateCcw className="w-5 h-5" />
                   </Button>
+                  {isPictureInPictureSupported() && (
+                    <Button
+                      size="lg"
+                      variant={pipWindow || isVideoOpen ? "secondary" : "outline"}
+                      className="h-12 w-12 rounded-xl"
+                      onClick={handleTogglePip}
+                      title={pipWindow || isVideoOpen ? "Close floating timer" : "Pop out timer"}
+                    >
+                      <PictureInPicture2 className="w-5 h-5" />
+                    </Button>
+                  )}
                 </>
               )}
             </div>
 
+            {timer.isRunning && !isOwner && (
+              timer.mode !== "flow" && !timer.isPaused && timeRemaining <= 0 ? (
+                <div className="mt-4 flex items-center gap-2 text-sm text-muted-foreground">
+                  <MonitorSmartphone className="w-4 h-4" />
+                  Finishing on your other device
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={handleFinishHere}>
+                    Finish here
+                  </Button>
+                </div>
+              ) : (
+                <p className="mt-4 flex items-center gap-2 text-xs text-muted-foreground">
+                  <MonitorSmartphone className="w-3.5 h-3.5" />
+                  Running on another device
+                </p>
+              )
+            )}
+
+            {timer.isRunning && isWorkPhase && (
+              <div className="mt-6 flex flex-col items-center gap-3">
+                {timer.isPaused ? (
+                  <div className="flex flex-wrap justify-center gap-2">
+                    {(Object.keys(FOCUS_PAUSE_REASON_LABELS) as FocusPauseReason[]).map(reason => (
+                      <button
+                        key={reason}
+                        type="button"
+                        onClick={() => setPauseReason(reason)}
+                        className={cn(
+                          "px-3 py-1.5 rounded-full text-xs font-medium transition-all",
+                          openPause?.reason === reason ? "bg-primary/15 text-primary ring-1 ring-primary" : "bg-secondary/60 hover:bg-secondary"
+                        )}
+                      >
+                        {FOCUS_PAUSE_REASON_LABELS[reason]}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="rounded-full text-muted-foreground"
+                    onClick={() => {
+                      markDistraction();
+                      toast("Noted — back to it", { duration: 1500 });
+                    }}
+                  >
+                    <Zap className="w-4 h-4 mr-1.5" />
+                    I got distracted
+                  </Button>
+                )}
+                {interruptionCount > 0 && currentQuality !== null && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                    <Gauge className="w-3.5 h-3.5" />
+                    Quality {currentQuality} • {timer.pauses?.length || 0} pauses • {timer.distractions?.length || 0} distractions
+                  </p>
+                )}
+              </div>
+            )}
+
+            {timer.isRunning && !isWorkPhase && isOwner && (
+              <div className="mt-6 w-full max-w-sm">
+                <BreakWorkoutCard />
+              </div>
+            )}
+
             {timer.isRunning && timer.mode === "pomodoro" && (
               <p className="text-sm text-muted-foreground mt-6">
                 Session {timer.currentSession} of {preset.sessionsBeforeLongBreak}
               </p>
             )}
+            {timer.isRunning && timer.mode === "flow" && (
+              <p className="text-sm text-muted-foreground mt-6">
+                {checkInMinutes > 0 ? `Check-in chime every ${checkInMinutes} min` : "No check-ins — stop whenever you're done"}
+              </p>
+            )}
           </CardContent>
         </Card>
 
-        {timer.isRunning && !timer.isPaused && (
+        {timer.isRunning && !timer.isPaused && timer.mode !== "flow" && (
           <div className="flex items-center gap-2 p-3 rounded-xl bg-muted/60 border border-border/50 text-sm text-muted-foreground">
             <Smartphone className="w-4 h-4 shrink-0 text-primary" />
             <span>
@@ -318,7 +675,42 @@ export default function Focus() {
           </div>
         )}
 
-        {mode === "pomodoro" ? (
+        {todayQuality !== null && (
+          <div className="flex items-center gap-3 p-3 rounded-xl glass bg-background/40">
+            <Gauge className="w-5 h-5 shrink-0 text-primary" />
+            <div className="flex-1">
+              <p className="text-sm font-medium">Focus quality today: {todayQuality}</p>
+              <p className="text-xs text-muted-foreground">
+                {todaySessions.length} session{todaySessions.length !== 1 ? "s" : ""} • fewer pauses and distractions score higher
+              </p>
+            </div>
+          </div>
+        )}
+
+        {mode === "flow" ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground text-center">Check-in chime</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {[0, 10, 15, 25, 30, 45, 60].map(mins => (
+                <Button
+                  key={mins}
+                  variant={checkInMinutes === mins ? "default" : "outline"}
+                  size="sm"
+                  className="rounded-lg"
+                  onClick={() => {
+                    updatePreset({ flowCheckInMinutes: mins });
+                    if (mins > 0) alarmSound.playCheckIn();
+                  }}
+                >
+                  {mins === 0 ? "Off" : `${mins}m`}
+                </Button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground text-center">
+              Flow counts up with no fixed end. Stop when you lose steam and the real time is logged.
+            </p>
+          </div>
+        ) : mode === "pomodoro" ? (
           <div className="grid grid-cols-3 gap-3">
             {[
               { value: preset.workMinutes, label: "Work", unit: "m" },
@@ -378,11 +770,116 @@ export default function Focus() {
           </div>
         )}
 
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground text-center flex items-center justify-center gap-1.5">
+            <Headphones className="w-4 h-4" />
+            Ambient sound
+          </p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {[{ type: "none" as const, label: "Off" }, ...AMBIENT_SOUNDS].map(({ type, label }) => (
+              <Button
+                key={type}
+                variant={ambient === type ? "default" : "outline"}
+                size="sm"
+                className="rounded-lg"
+                onClick={() => selectAmbient(type)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          {ambient !== "none" && (
+            <div className="flex items-center gap-3 max-w-xs mx-auto">
+              <VolumeX className="w-4 h-4 text-muted-foreground shrink-0" />
+              <Slider
+                value={[Math.round(ambientVolume * 100)]}
+                min={0}
+                max={100}
+                step={5}
+                onValueChange={([v]) => changeAmbientVolume(v / 100)}
+              />
+              <Volume2 className="w-4 h-4 text-muted-foreground shrink-0" />
+            </div>
+          )}
+          {ambient === "binaural" && (
+            <p className="text-xs text-muted-foreground text-center">Binaural beats need headphones</p>
+          )}
+        </div>
+
+        {/* Recent sessions: tap to fix one, or log focus done away from the app */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Recent sessions</p>
+            <Button variant="ghost" size="sm" className="rounded-lg" onClick={() => openSessionDialog(null)}>
+              <Plus className="w-4 h-4 mr-1" />
+              Log past session
+            </Button>
+          </div>
+          {recentSessions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No sessions yet</p>
+          ) : (
+            <div className="space-y-1">
+              {recentSessions.map(s => (
+                <button
+                  key={s.id}
+                  type="button"
+                  onClick={() => openSessionDialog(s)}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-xl text-left glass bg-background/40 hover:bg-secondary/60 transition-colors"
+                >
+                  <span className="text-xs text-muted-foreground w-20 shrink-0">
+                    {s.date === today ? "Today" : format(s.startTime, "MMM d")} {format(s.startTime, "HH:mm")}
+                  </span>
+                  <span className="text-sm truncate flex-1">{s.task || FOCUS_MODE_LABELS[s.mode]}</span>
+                  {!s.completed && <span className="text-[10px] text-muted-foreground">Incomplete</span>}
+                  <span className="text-sm font-medium tabular-nums">{s.durationMinutes}m</span>
+                  <Pencil className="w-3.5 h-3.5 text-muted-foreground" />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {showSessionDialog && (
+          <FocusSessionDialog
+            open={showSessionDialog}
+            onOpenChange={setShowSessionDialog}
+            editingSession={editingSession}
+          />
+        )}
+
+        <Dialog open={showNewPresetDialog} onOpenChange={setShowNewPresetDialog}>
+          <DialogContent className="glass-strong max-w-sm rounded-2xl">
+            <DialogHeader>
+              <DialogTitle>New preset</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4 mt-2">
+              <Input
+                value={newPresetName}
+                onChange={e => setNewPresetName(e.target.value)}
+                onKeyDown={e => e.key === "Enter" && handleCreatePreset()}
+                placeholder="e.g., Writing 50/10"
+                autoFocus
+              />
+              <p className="text-xs text-muted-foreground">
+                Starts from "{activePreset.name}" — adjust the durations next. Presets sync across your devices.
+              </p>
+              <Button
+                onClick={handleCreatePreset}
+                disabled={!newPresetName.trim()}
+                className="w-full rounded-xl gradient-primary text-primary-foreground h-11"
+              >
+                Create preset
+              </Button>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         <SessionCompleteDialog
           open={showCompleteDialog}
           onComplete={handleComplete}
           incompleteHabits={incompleteHabits}
           task={timer.task}
+          quality={currentQuality}
         />
       </div>
     </div>
@@ -392,20 +889,33 @@ export default function Focus() {
 function FocusSettingsDialog({
   preset,
   updatePreset,
+  renamePreset,
+  deletePreset,
   onClose
 }: {
-  preset: any;
-  updatePreset: (updates: any) => void;
+  preset: NamedFocusPreset;
+  updatePreset: (updates: Partial<FocusPreset>) => void;
+  renamePreset: (name: string) => void;
+  deletePreset?: () => void;
   onClose: () => void;
 }) {
   const [localPreset, setLocalPreset] = useState({ ...preset });
 
   const handleSave = () => {
-    updatePreset(localPreset);
+    const { id: _id, name, ...values } = localPreset;
+    updatePreset(values);
+    if (name.trim() && name.trim() !== preset.name) renamePreset(name.trim());
     toast.success("Settings saved");
     onClose();
   };
 
+  const handleDelete = () => {
+    if (!deletePreset || !confirm(`Delete the "${preset.name}" preset?`)) return;
+    deletePreset();
+    toast.success("Preset deleted");
+    onClose();
+  };
+
   const handleSoundChange = (value: AlarmSoundType) => {
     setLocalPreset({ ...localPreset, alarmSound: value });
     alarmSound.playPreview(value);
@@ -421,6 +931,15 @@ function FocusSettingsDialog({
       </DialogHeader>
 
       <div className="space-y-6 mt-4">
+        <div className="space-y-2">
+          <Label className="text-xs">Preset name</Label>
+          <Input
+            value={localPreset.name}
+            onChange={e => setLocalPreset({ ...localPreset, name: e.target.value })}
+            className="rounded-xl"
+          />
+        </div>
+
         <div className="space-y-4">
           <h3 className="font-medium text-sm text-muted-foreground">Pomodoro Durations</h3>
 
@@ -524,12 +1043,21 @@ function FocusSettingsDialog({
               <Label className="text-sm">Auto-start next focus</Label>
               <Switch checked={localPreset.autoStartWork || false} onCheckedChange={checked => setLocalPreset({ ...localPreset, autoStartWork: checked })} />
             </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-sm">Offer break workouts</Label>
+              <Switch checked={localPreset.breakWorkouts ?? true} onCheckedChange={checked => setLocalPreset({ ...localPreset, breakWorkouts: checked })} />
+            </div>
           </div>
         </div>
 
         <Button onClick={handleSave} className="w-full rounded-xl gradient-primary text-primary-foreground h-11">
           Save Settings
         </Button>
+        {deletePreset && (
+          <Button variant="ghost" onClick={handleDelete} className="w-full rounded-xl text-destructive hover:text-destructive">
+            Delete preset
+          </Button>
+        )}
       </div>
     </DialogContent>
   );
@@ -539,12 +1067,14 @@ function SessionCompleteDialog({
   open,
   onComplete,
   incompleteHabits,
-  task
+  task,
+  quality
 }: {
   open: boolean;
   onComplete: (habits: string[]) => void;
   incompleteHabits: any[];
   task?: string;
+  quality: number | null;
 }) {
   const [selectedHabits, setSelectedHabits] = useState<string[]>([]);
 
@@ -569,6 +1099,13 @@ function SessionCompleteDialog({
             </p>
           )}
 
+          {quality !== null && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Gauge className="w-4 h-4" />
+              Focus quality: <span className="text-foreground font-medium">{quality}/100</span>
+            </p>
+          )}
+
           {incompleteHabits.length > 0 && (
             <div>
               <p className="text-sm font-medium mb-2">Mark habits as complete?</p>
@@ -50,7 +50,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useGitHubStore, type GitHubRepo } from "@/store/githubStore";
 import { ContributionTree } from "@/components/github/ContributionTree";
 import { useAuth } from "@/contexts/AuthContext";
-import { toast } from "sonner";
+import { toast } from "@/lib/toast";
 import { Switch } from "@/components/ui/switch";
 import { formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
@@ -0,0 +1,179 @@
+import { useMemo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Edit3, Flame, History, Target } from "lucide-react";
+import { useHabitStore } from "@/store/habitStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import {
+  calculateStreak, calculateWeekdayCompletionRates, formatDate, formatStreak, getScheduleLabel, getStreakHistory,
+  isQuitHabit,
+} from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { HabitYearHeatmap } from "@/components/habits/HabitYearHeatmap";
+import { HabitDayEditor } from "@/components/habits/HabitDayEditor";
+import { HabitStrengthCard } from "@/components/habits/HabitStrengthCard";
+import { DAY_NAMES } from "@/types";
+
+export default function HabitDetail() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { habits, logs, pauses, isLoading } = useHabitStore();
+  const weekStartsMonday = useSettingsStore((s) => s.settings.weekStartsMonday);
+
+  const habit = habits.find(h => h.id === id);
+
+  const { streak, history, weekdayRates, notes } = useMemo(() => {
+    if (!habit) return { streak: { current: 0, best: 0 }, history: [], weekdayRates: [], notes: [] };
+    return {
+      streak: calculateStreak(habit, logs, weekStartsMonday, pauses),
+      history: getStreakHistory(habit, logs, weekStartsMonday, pauses),
+      weekdayRates: calculateWeekdayCompletionRates(habit, logs, 365, pauses),
+      notes: logs
+        .filter(l => l.habitId === habit.id && l.note)
+        .sort((a, b) => b.date.localeCompare(a.date)),
+    };
+  }, [habit, logs, pauses, weekStartsMonday]);
+
+  if (!habit) {
+    return (
+      <div className="space-y-4 animate-fade-in pb-24">
+        <Button variant="ghost" size="sm" onClick={() => navigate("/habits")}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Habits
+        </Button>
+        <p className="text-sm text-muted-foreground text-center py-12">
+          {isLoading ? "Loading habit..." : "This habit doesn't exist anymore."}
+        </p>
+      </div>
+    );
+  }
+
+  const isQuit = isQuitHabit(habit);
+  const color = habit.color || "hsl(var(--primary))";
+  const weekdayOrder = weekStartsMonday ? [1, 2, 3, 4, 5, 6, 0] : [0, 1, 2, 3, 4, 5, 6];
+
+  return (
+    <div className="space-y-6 animate-fade-in pb-24">
+      <header className="flex items-center gap-3">
+        <Button variant="ghost" size="icon" onClick={() => navigate("/habits")}>
+          <ArrowLeft className="w-5 h-5" />
+        </Button>
+        <div className="w-4 h-4 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+        <div className="min-w-0">
+          <h1 className="text-2xl font-semibold text-foreground truncate">{habit.name}</h1>
+          <p className="text-muted-foreground mt-0.5 text-sm">
+            {isQuit ? "Quit habit" : getScheduleLabel(habit)}
+          </p>
+        </div>
+      </header>
+
+      {habit.description && <p className="text-sm text-muted-foreground">{habit.description}</p>}
+
+      <div className="grid grid-cols-2 gap-3">
+        <Card className="glass">
+          <CardContent className="p-4 text-center">
+            <Flame className="w-5 h-5 text-primary mx-auto mb-1" />
+            <p className="text-2xl font-bold">{streak.current}</p>
+            <p className="text-xs text-muted-foreground">{isQuit ? "Days since last slip" : "Current streak"}</p>
+          </CardContent>
+        </Card>
+        <Card className="glass">
+          <CardContent className="p-4 text-center">
+            <Target className="w-5 h-5 text-success mx-auto mb-1" />
+            <p className="text-2xl font-bold">{streak.best}</p>
+            <p className="text-xs text-muted-foreground">{isQuit ? "Longest clean run" : "Best streak"}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <HabitStrengthCard habit={habit} logs={logs} />
+
+      {/* Last 365 days */}
+      <Card className="border border-border">
+        <CardContent className="p-4">
+          <h3 className="font-semibold mb-1">Past year</h3>
+          <p className="text-xs text-muted-foreground mb-3">Tap any day to edit it or add a note</p>
+          <HabitYearHeatmap habit={habit} logs={logs} />
+        </CardContent>
+      </Card>
+
+      {/* Completion by weekday */}
+      <Card className="border border-border">
+        <CardContent className="p-4">
+          <h3 className="font-semibold mb-4">{isQuit ? "Clean days by weekday" : "Completion by weekday"}</h3>
+          <div className="flex items-end justify-between gap-2 h-32">
+            {weekdayOrder.map(day => {
+              const rate = weekdayRates[day];
+              return (
+                <div key={day} className="flex-1 flex flex-col items-center gap-1 h-full">
+                  <span className="text-[10px] text-muted-foreground">{rate === null ? "–" : `${rate}%`}</span>
+                  <div className="flex-1 w-full flex items-end">
+                    <div
+                      className="w-full rounded-t-md bg-secondary"
+                      style={{ height: `${Math.max(rate ?? 0, 2)}%`, backgroundColor: rate ? color : undefined }}
+                    />
+                  </div>
+                  <span className="text-xs text-muted-foreground">{DAY_NAMES[day]}</span>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Streak history */}
+      <Card className="border border-border">
+        <CardContent className="p-4">
+          <h3 className="font-semibold mb-3 flex items-center gap-2">
+            <History className="w-4 h-4" />
+            {isQuit ? "Clean runs" : "Streak history"}
+          </h3>
+          {history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No streaks yet</p>
+          ) : (
+            <div className="space-y-2">
+              {history.map(run => (
+                <div key={run.start} className="flex items-center gap-3">
+                  <span className="text-xs text-muted-foreground w-40 flex-shrink-0">
+                    {formatDate(run.start, "MMM d, yyyy")} – {formatDate(run.end, "MMM d, yyyy")}
+                  </span>
+                  <div className="flex-1 h-2 rounded-full bg-secondary overflow-hidden">
+                    <div
+                      className="h-full rounded-full"
+                      style={{ width: `${(run.length / Math.max(streak.best, 1)) * 100}%`, backgroundColor: color }}
+                    />
+                  </div>
+                  <span className="text-xs font-medium w-20 text-right">{formatStreak(habit, run.length)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Notes */}
+      <Card className="border border-border">
+        <CardContent className="p-4">
+          <h3 className="font-semibold mb-3 flex items-center gap-2">
+            <Edit3 className="w-4 h-4" />
+            Notes
+          </h3>
+          {notes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Notes you add to a day show up here</p>
+          ) : (
+            <div className="space-y-2">
+              {notes.map(log => (
+                <HabitDayEditor key={log.id} habit={habit} date={log.date} log={log}>
+                  <button type="button" className="w-full text-left p-3 rounded-xl bg-secondary/50 hover:bg-secondary">
+                    <p className="text-xs text-muted-foreground mb-1">{formatDate(log.date, "EEE, MMM d, yyyy")}</p>
+                    <p className="text-sm whitespace-pre-wrap">{log.note}</p>
+                  </button>
+                </HabitDayEditor>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,21 +1,51 @@
 import { useState, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
-import { Plus, Target, MoreVertical, Archive, Trash2, Edit, Flame, TrendingUp } from "lucide-react";
+import {
+  Plus, Target, MoreVertical, Archive, Trash2, Edit, Flame, TrendingUp, Pause, TreePalm, Tags, ArrowUpDown, Layers,
+  CalendarRange, Activity, ListChecks,
+} from "lucide-react";
 import { useHabitStore } from "@/store/habitStore";
-import { isHabitDueToday, getToday, getScheduleLabel, calculateStreak, calculateCompletionRate } from "@/lib/utils";
+import { useSettingsStore } from "@/store/settingsStore";
+import {
+  isHabitDueToday, getToday, getScheduleLabel, calculateStreak, calculateCompletionRate, formatStreak, isHabitPausedOnDate,
+  isQuitHabit, isHabitCompletedOnDate, groupHabitsByCategory, calculateHabitStrength, cn,
+} from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
-import { HABIT_COLORS, DAY_NAMES, type HabitFilter, type Habit } from "@/types";
-import { toast } from "sonner";
+import { HABIT_COLORS, type HabitFilter, type Habit, type Routine } from "@/types";
+import { toast } from "@/lib/toast";
 import { HabitFormDialog, type HabitFormData } from "@/components/habits/HabitFormDialog";
+import { HabitMonthGrid } from "@/components/habits/HabitMonthGrid";
+import { HabitPauseSection } from "@/components/habits/HabitPauseSection";
+import { AddTimePopover } from "@/components/habits/AddTimePopover";
+import { LogSlipPopover } from "@/components/habits/LogSlipPopover";
+import { RelapseTimeline } from "@/components/habits/RelapseTimeline";
+import { CategoryManagerDialog } from "@/components/habits/CategoryManagerDialog";
+import { CategoryHeading } from "@/components/habits/CategoryHeading";
+import { HabitReorderList } from "@/components/habits/HabitReorderList";
+import { HabitStrengthCard } from "@/components/habits/HabitStrengthCard";
+import { RoutineManagerDialog } from "@/components/habits/RoutineManagerDialog";
+import { RoutinePlayer } from "@/components/habits/RoutinePlayer";
 import { PullToRefresh } from "@/components/ui/pull-to-refresh";
 
 export default function Habits() {
-  const { habits, logs, filter, setFilter, addHabit, updateHabit, deleteHabit, archiveHabit, unarchiveHabit, logHabit } = useHabitStore();
+  const {
+    habits, logs, pauses, categories, filter, setFilter, addHabit, updateHabit, deleteHabit, archiveHabit, unarchiveHabit,
+    logHabit, getVacation, endVacation, reorderHabits,
+  } = useHabitStore();
+  const { settings, updateSettings } = useSettingsStore();
+  const navigate = useNavigate();
+  const { weekStartsMonday } = settings;
+  const groupByCategory = !!settings.groupHabitsByCategory && categories.length > 0;
+  const [isReordering, setIsReordering] = useState(false);
+  const [categoriesOpen, setCategoriesOpen] = useState(false);
+  const [routinesOpen, setRoutinesOpen] = useState(false);
+  const [playingRoutine, setPlayingRoutine] = useState<Routine | null>(null);
   const [isOpen, setIsOpen] = useState(false);
   const [editingHabit, setEditingHabit] = useState<Habit | null>(null);
   const [detailHabit, setDetailHabit] = useState<Habit | null>(null);
@@ -31,13 +61,17 @@ export default function Habits() {
 
   const filteredHabits = habits.filter(h => {
     switch (filter) {
-      case "today": return !h.archived && isHabitDueToday(h);
+      case "today": return !h.archived && isHabitDueToday(h, pauses);
       case "active": return !h.archived;
       case "archived": return h.archived;
       default: return true;
     }
   });
 
+  const habitGroups = groupByCategory
+    ? groupHabitsByCategory(filteredHabits, categories)
+    : [{ category: undefined, habits: filteredHabits }];
+
   const openEdit = (habit: Habit) => {
     setEditingHabit(habit);
     setIsOpen(true);
@@ -48,10 +82,14 @@ export default function Habits() {
       name: data.name,
       description: data.description,
       color: data.color,
+      kind: data.kind,
+      categoryId: data.categoryId || "",
       schedule: data.schedule,
       goalType: data.goalType,
       goalTarget: data.goalTarget,
-      reminderTime: data.reminderTime,
+      focusLink: data.focusLink,
+      reminderTimes: data.reminderTimes ?? [],
+      freezesPerMonth: data.freezesPerMonth,
     };
 
     if (editingHabit) {
@@ -59,7 +97,7 @@ export default function Habits() {
       toast.success("Habit updated");
     } else {
       addHabit(habitData);
-      toast.success("Habit created" + (data.reminderTime ? ` with reminder at ${data.reminderTime}` : ""));
+      toast.success("Habit created" + (data.reminderTimes?.length ? ` with reminders at ${data.reminderTimes.join(", ")}` : ""));
       setFilter("active");
     }
     
@@ -79,15 +117,9 @@ export default function Habits() {
   };
 
   // Detail view data
-  const detailStreak = detailHabit ? calculateStreak(detailHabit, logs) : { current: 0, best: 0 };
-  const last14Days = Array.from({ length: 14 }, (_, i) => {
-    const date = new Date();
-    date.setDate(date.getDate() - (13 - i));
-    return {
-      date: date.toISOString().split('T')[0],
-      dayNum: date.getDay()
-    };
-  });
+  const detailStreak = detailHabit ? calculateStreak(detailHabit, logs, weekStartsMonday, pauses) : { current: 0, best: 0 };
+
+  const vacation = getVacation();
 
   return (
     <PullToRefresh onRefresh={handleRefresh}>
@@ -106,6 +138,21 @@ export default function Habits() {
         </Button>
       </header>
 
+      {vacation && (
+        <Card className="glass border-primary/30">
+          <CardContent className="p-4 flex items-center gap-3">
+            <TreePalm className="w-5 h-5 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm">Vacation mode is on</p>
+              <p className="text-xs text-muted-foreground">All habits are paused and streaks won't break</p>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => endVacation()}>
+              End vacation
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Habit Form Dialog */}
       <HabitFormDialog
         open={isOpen}
@@ -114,13 +161,56 @@ export default function Habits() {
         onSave={handleSave}
       />
 
-      <Tabs value={filter} onValueChange={v => setFilter(v as HabitFilter)}>
-        <TabsList className="rounded-full bg-muted/50 p-1">
-          <TabsTrigger value="today" className="rounded-full data-[state=active]:bg-background data-[state=active]:shadow-sm">Today</TabsTrigger>
-          <TabsTrigger value="active" className="rounded-full data-[state=active]:bg-background data-[state=active]:shadow-sm">Active</TabsTrigger>
-          <TabsTrigger value="archived" className="rounded-full data-[state=active]:bg-background data-[state=active]:shadow-sm">Archived</TabsTrigger>
-        </TabsList>
-      </Tabs>
+      <CategoryManagerDialog open={categoriesOpen} onOpenChange={setCategoriesOpen} />
+
+      <RoutineManagerDialog
+        open={routinesOpen}
+        onOpenChange={setRoutinesOpen}
+        onPlay={(routine) => { setRoutinesOpen(false); setPlayingRoutine(routine); }}
+      />
+      <RoutinePlayer routine={playingRoutine} onOpenChange={(open) => !open && setPlayingRoutine(null)} />
+
+      <div className="flex items-center justify-between gap-2">
+        <Tabs value={filter} onValueChange={v => setFilter(v as HabitFilter)}>
+          <TabsList className="rounded-full bg-muted/50 p-1">
+            <TabsTrigger value="today" className="rounded-full data-[state=active]:bg-background data-[state=active]:shadow-sm">Today</TabsTrigger>
+            <TabsTrigger value="active" className="rounded-full data-[state=active]:bg-background data-[state=active]:shadow-sm">Active</TabsTrigger>
+            <TabsTrigger value="archived" className="rounded-full data-[state=active]:bg-background data-[state=active]:shadow-sm">Archived</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <div className="flex items-center gap-1">
+          {categories.length > 0 && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn("h-9 w-9", groupByCategory && "bg-primary/10 text-primary")}
+              title="Group by category"
+              onClick={() => updateSettings({ groupHabitsByCategory: !settings.groupHabitsByCategory })}
+            >
+              <Layers className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn("h-9 w-9", isReordering && "bg-primary/10 text-primary")}
+            title="Reorder habits"
+            onClick={() => setIsReordering(r => !r)}
+          >
+            <ArrowUpDown className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-9 w-9" title="Categories" onClick={() => setCategoriesOpen(true)}>
+            <Tags className="w-4 h-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-9 w-9" title="Routines" onClick={() => setRoutinesOpen(true)}>
+            <ListChecks className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isReordering && filteredHabits.length > 0 && (
+        <p className="text-xs text-muted-foreground">Drag habits to change their order. Tap the arrows again when you're done.</p>
+      )}
 
       <AnimatePresence mode="popLayout">
         {filteredHabits.length === 0 ? (
@@ -143,155 +233,219 @@ export default function Habits() {
             </CardContent>
           </Card>
         ) : (
-          <div className="space-y-3">
-            {filteredHabits.map((habit, i) => {
-              const log = logs.find(l => l.habitId === habit.id && l.date === today);
-              const isDone = log?.status === "done";
-              const streak = calculateStreak(habit, logs);
-              const weeklyRate = calculateCompletionRate(habit, logs, 7);
+          <div className="space-y-6">
+            {habitGroups.map(group => (
+              <section key={group.category?.id ?? "uncategorized"} className="space-y-3">
+                {groupByCategory && <CategoryHeading category={group.category} count={group.habits.length} />}
+                {isReordering ? (
+                  <HabitReorderList habits={group.habits} onReorder={reorderHabits} />
+                ) : (
+                  <div className="space-y-3">
+                    {group.habits.map((habit, i) => {
+                      const log = logs.find(l => l.habitId === habit.id && l.date === today);
+                      const isQuit = isQuitHabit(habit);
+                      const isDone = isHabitCompletedOnDate(habit, logs, today);
+                      const hasSlippedToday = log?.status === "slipped";
+                      const streak = calculateStreak(habit, logs, weekStartsMonday, pauses);
+                      const strength = calculateHabitStrength(habit, logs, weekStartsMonday, pauses);
+                      const weeklyRate = calculateCompletionRate(habit, logs, 7, pauses);
+                      const isPaused = isHabitPausedOnDate(habit, new Date(), pauses);
+                      const isDuration = habit.goalType === "duration";
+                      const minutesToday = log?.status === "done" || log?.status === "partial" ? log.value || 0 : 0;
 
-              // Get last 7 days completion status
-              const last7Days = Array.from({ length: 7 }, (_, idx) => {
-                const date = new Date();
-                date.setDate(date.getDate() - (6 - idx));
-                const dateStr = date.toISOString().split('T')[0];
-                return logs.some(l => l.habitId === habit.id && l.date === dateStr && l.status === "done");
-              });
+                      // Get last 7 days completion status
+                      const last7Days = Array.from({ length: 7 }, (_, idx) => {
+                        const date = new Date();
+                        date.setDate(date.getDate() - (6 - idx));
+                        const dateStr = date.toISOString().split('T')[0];
+                        return isHabitCompletedOnDate(habit, logs, dateStr);
+                      });
 
-              return (
-                <motion.div
-                  key={habit.id}
-                  layout
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  exit={{ opacity: 0, scale: 0.95 }}
-                  transition={{ delay: i * 0.03 }}
-                >
-                  <Card 
-                    className={`glass hover:shadow-md hover:-translate-y-0.5 transition-all duration-200 cursor-pointer overflow-hidden ${isDone ? "border-success/30" : ""}`}
-                    onClick={() => setDetailHabit(habit)}
-                  >
-                    <CardContent className="p-0">
-                      {/* Main content */}
-                      <div className="p-4 flex items-center gap-4">
-                        {/* Icon/Color indicator - habit app style */}
-                        <div 
-                          className="w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 transition-transform ring-2 ring-offset-2"
-                          style={{ 
-                            backgroundColor: (habit.color || "hsl(var(--primary))") + "25",
-                            boxShadow: isDone ? `inset 0 0 0 2px ${habit.color || "hsl(var(--primary))"}` : "none"
-                          }}
+                      return (
+                        <motion.div
+                          key={habit.id}
+                          layout
+                          initial={{ opacity: 0, y: 10 }}
+                          animate={{ opacity: 1, y: 0 }}
+                          exit={{ opacity: 0, scale: 0.95 }}
+                          transition={{ delay: i * 0.03 }}
                         >
-                          {isDone ? (
-                            <motion.div
-                              initial={{ scale: 0 }}
-                              animate={{ scale: 1 }}
-                              className="w-6 h-6 rounded-full flex items-center justify-center"
-                              style={{ backgroundColor: habit.color || "hsl(var(--primary))" }}
-                            >
-                              <span className="text-primary-foreground text-sm font-bold">✓</span>
-                            </motion.div>
-                          ) : (
-                            <Flame className="w-6 h-6" style={{ color: habit.color || "hsl(var(--primary))" }} />
-                          )}
-                        </div>
+                          <Card 
+                            className={`glass hover:shadow-md hover:-translate-y-0.5 transition-all duration-200 cursor-pointer overflow-hidden ${isDone ? "border-success/30" : ""}`}
+                            onClick={() => setDetailHabit(habit)}
+                          >
+                            <CardContent className="p-0">
+                              {/* Main content */}
+                              <div className="p-4 flex items-center gap-4">
+                                {/* Icon/Color indicator - habit app style */}
+                                <div 
+                                  className="w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 transition-transform ring-2 ring-offset-2"
+                                  style={{ 
+                                    backgroundColor: (habit.color || "hsl(var(--primary))") + "25",
+                                    boxShadow: isDone ? `inset 0 0 0 2px ${habit.color || "hsl(var(--primary))"}` : "none"
+                                  }}
+                                >
+                                  {isDone ? (
+                                    <motion.div
+                                      initial={{ scale: 0 }}
+                                      animate={{ scale: 1 }}
+                                      className="w-6 h-6 rounded-full flex items-center justify-center"
+                                      style={{ backgroundColor: habit.color || "hsl(var(--primary))" }}
+                                    >
+                                      <span className="text-primary-foreground text-sm font-bold">✓</span>
+                                    </motion.div>
+                                  ) : (
+                                    <Flame className="w-6 h-6" style={{ color: habit.color || "hsl(var(--primary))" }} />
+                                  )}
+                                </div>
 
-                        {/* Info */}
-                        <div className="flex-1 min-w-0">
-                          <p className={`font-semibold truncate ${isDone ? "line-through text-muted-foreground" : ""}`}>
-                            {habit.name}
-                          </p>
-                          <div className="flex items-center gap-3 mt-1">
-                            <span className="text-xs text-muted-foreground">{getScheduleLabel(habit)}</span>
-                            {streak.current > 0 && (
-                              <span 
-                                className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full"
-                                style={{ 
-                                  backgroundColor: (habit.color || "hsl(var(--primary))") + "20",
-                                  color: habit.color || "hsl(var(--primary))"
-                                }}
-                              >
-                                <Flame className="w-3 h-3" />
-                                {streak.current} day{streak.current !== 1 ? "s" : ""}
-                              </span>
-                            )}
-                          </div>
-                        </div>
+                                {/* Info */}
+                                <div className="flex-1 min-w-0">
+                                  <p className={`font-semibold truncate ${isDone && !isQuit ? "line-through text-muted-foreground" : ""}`}>
+                                    {habit.name}
+                                  </p>
+                                  <div className="flex items-center gap-3 mt-1">
+                                    <span className="text-xs text-muted-foreground">{getScheduleLabel(habit)}</span>
+                                    {isPaused && (
+                                      <span className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full bg-muted text-muted-foreground">
+                                        <Pause className="w-3 h-3" />
+                                        Paused
+                                      </span>
+                                    )}
+                                    {streak.current > 0 && (
+                                      <span 
+                                        className="flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full"
+                                        style={{ 
+                                          backgroundColor: (habit.color || "hsl(var(--primary))") + "20",
+                                          color: habit.color || "hsl(var(--primary))"
+                                        }}
+                                      >
+                                        <Flame className="w-3 h-3" />
+                                        {formatStreak(habit, streak.current)}
+                                      </span>
+                                    )}
+                                    <span className="flex items-center gap-1 text-xs text-muted-foreground" title="Habit strength">
+                                      <Activity className="w-3 h-3" />
+                                      {strength}%
+                                    </span>
+                                  </div>
+                                  {isDuration && habit.goalTarget && (
+                                    <div className="flex items-center gap-2 mt-2">
+                                      <Progress value={Math.min(100, (minutesToday / habit.goalTarget) * 100)} className="h-1.5 flex-1" />
+                                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                                        {minutesToday} / {habit.goalTarget} min
+                                      </span>
+                                    </div>
+                                  )}
+                                </div>
 
-                        {/* Actions */}
-                        {!habit.archived && (
-                          <motion.button
-                            whileHover={{ scale: 1.05 }}
-                            whileTap={{ scale: 0.95 }}
-                            className={`h-10 px-4 rounded-xl font-medium text-sm transition-all ${
-                              isDone 
-                                ? "bg-success/20 text-success" 
-                                : "text-primary-foreground shadow-glow"
-                            }`}
-                            style={!isDone ? { background: `var(--gradient-primary)` } : {}}
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              logHabit(habit.id, isDone ? "skipped" : "done");
-                            }}
-                          >
-                            {isDone ? "Done ✓" : "Mark Done"}
-                          </motion.button>
-                        )}
-                        <DropdownMenu>
-                          <DropdownMenuTrigger asChild onClick={e => e.stopPropagation()}>
-                            <Button variant="ghost" size="icon" className="h-8 w-8">
-                              <MoreVertical className="w-4 h-4" />
-                            </Button>
-                          </DropdownMenuTrigger>
-                          <DropdownMenuContent align="end">
-                            <DropdownMenuItem onClick={(e) => { e.stopPropagation(); openEdit(habit); }}>
-                              <Edit className="w-4 h-4 mr-2" />Edit
-                            </DropdownMenuItem>
-                            {habit.archived ? (
-                              <DropdownMenuItem onClick={(e) => { e.stopPropagation(); unarchiveHabit(habit.id); }}>
-                                <Archive className="w-4 h-4 mr-2" />Unarchive
-                              </DropdownMenuItem>
-                            ) : (
-                              <DropdownMenuItem onClick={(e) => { e.stopPropagation(); archiveHabit(habit.id); }}>
-                                <Archive className="w-4 h-4 mr-2" />Archive
-                              </DropdownMenuItem>
-                            )}
-                            <DropdownMenuItem 
-                              onClick={(e) => { e.stopPropagation(); handleDelete(habit.id); }} 
-                              className="text-destructive"
-                            >
-                              <Trash2 className="w-4 h-4 mr-2" />Delete
-                            </DropdownMenuItem>
-                          </DropdownMenuContent>
-                        </DropdownMenu>
-                      </div>
+                                {/* Actions */}
+                                {!habit.archived && isQuit && (
+                                  <LogSlipPopover habit={habit}>
+                                    <motion.button
+                                      whileHover={{ scale: 1.05 }}
+                                      whileTap={{ scale: 0.95 }}
+                                      className={`h-10 px-4 rounded-xl font-medium text-sm transition-all ${
+                                        hasSlippedToday
+                                          ? "bg-destructive/15 text-destructive"
+                                          : "bg-secondary text-foreground hover:bg-secondary/80"
+                                      }`}
+                                      onClick={(e) => e.stopPropagation()}
+                                    >
+                                      {hasSlippedToday ? "Slipped" : "Log slip"}
+                                    </motion.button>
+                                  </LogSlipPopover>
+                                )}
+                                {!habit.archived && isDuration && !isDone && (
+                                  <AddTimePopover habit={habit}>
+                                    <motion.button
+                                      whileHover={{ scale: 1.05 }}
+                                      whileTap={{ scale: 0.95 }}
+                                      className="h-10 px-4 rounded-xl font-medium text-sm transition-all text-primary-foreground shadow-glow"
+                                      style={{ background: `var(--gradient-primary)` }}
+                                      onClick={(e) => e.stopPropagation()}
+                                    >
+                                      + Time
+                                    </motion.button>
+                                  </AddTimePopover>
+                                )}
+                                {!habit.archived && !isQuit && (!isDuration || isDone) && (
+                                  <motion.button
+                                    whileHover={{ scale: 1.05 }}
+                                    whileTap={{ scale: 0.95 }}
+                                    className={`h-10 px-4 rounded-xl font-medium text-sm transition-all ${
+                                      isDone 
+                                        ? "bg-success/20 text-success" 
+                                        : "text-primary-foreground shadow-glow"
+                                    }`}
+                                    style={!isDone ? { background: `var(--gradient-primary)` } : {}}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      logHabit(habit.id, isDone ? "skipped" : "done");
+                                    }}
+                                  >
+                                    {isDone ? "Done ✓" : "Mark Done"}
+                                  </motion.button>
+                                )}
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild onClick={e => e.stopPropagation()}>
+                                    <Button variant="ghost" size="icon" className="h-8 w-8">
+                                      <MoreVertical className="w-4 h-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    <DropdownMenuItem onClick={(e) => { e.stopPropagation(); openEdit(habit); }}>
+                                      <Edit className="w-4 h-4 mr-2" />Edit
+                                    </DropdownMenuItem>
+                                    {habit.archived ? (
+                                      <DropdownMenuItem onClick={(e) => { e.stopPropagation(); unarchiveHabit(habit.id); }}>
+                                        <Archive className="w-4 h-4 mr-2" />Unarchive
+                                      </DropdownMenuItem>
+                                    ) : (
+                                      <DropdownMenuItem onClick={(e) => { e.stopPropagation(); archiveHabit(habit.id); }}>
+                                        <Archive className="w-4 h-4 mr-2" />Archive
+                                      </DropdownMenuItem>
+                                    )}
+                                    <DropdownMenuItem 
+                                      onClick={(e) => { e.stopPropagation(); handleDelete(habit.id); }} 
+                                      className="text-destructive"
+                                    >
+                                      <Trash2 className="w-4 h-4 mr-2" />Delete
+                                    </DropdownMenuItem>
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              </div>
 
-                      {/* Weekly progress bar - habit app style */}
-                      <div className="px-4 pb-3">
-                        <div className="flex items-center gap-1.5">
-                          {last7Days.map((completed, idx) => (
-                            <div 
-                              key={idx}
-                              className={`flex-1 h-2 rounded-full transition-all ${
-                                completed ? "" : "bg-muted"
-                              }`}
-                              style={completed ? { backgroundColor: habit.color || "hsl(var(--primary))" } : {}}
-                              title={completed ? "Completed" : "Missed"}
-                            />
-                          ))}
-                        </div>
-                        <div className="flex justify-between mt-2">
-                          <span className="text-xs text-muted-foreground">Last 7 days</span>
-                          <span className="text-xs font-medium" style={{ color: habit.color || "hsl(var(--primary))" }}>
-                            {weeklyRate}%
-                          </span>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </motion.div>
-              );
-            })}
+                              {/* Weekly progress bar - habit app style */}
+                              <div className="px-4 pb-3">
+                                <div className="flex items-center gap-1.5">
+                                  {last7Days.map((completed, idx) => (
+                                    <div 
+                                      key={idx}
+                                      className={`flex-1 h-2 rounded-full transition-all ${
+                                        completed ? "" : "bg-muted"
+                                      }`}
+                                      style={completed ? { backgroundColor: habit.color || "hsl(var(--primary))" } : {}}
+                                      title={completed ? (isQuit ? "Clean" : "Completed") : (isQuit ? "Slipped" : "Missed")}
+                                    />
+                                  ))}
+                                </div>
+                                <div className="flex justify-between mt-2">
+                                  <span className="text-xs text-muted-foreground">Last 7 days</span>
+                                  <span className="text-xs font-medium" style={{ color: habit.color || "hsl(var(--primary))" }}>
+                                    {weeklyRate}%
+                                  </span>
+                                </div>
+                              </div>
+                            </CardContent>
+                          </Card>
+                        </motion.div>
+                      );
+                    })}
+                  </div>
+                )}
+              </section>
+            ))}
           </div>
         )}
       </AnimatePresence>
@@ -321,40 +475,45 @@ export default function Habits() {
                     <CardContent className="p-4 text-center">
                       <Flame className="w-5 h-5 text-primary mx-auto mb-1" />
                       <p className="text-2xl font-bold">{detailStreak.current}</p>
-                      <p className="text-xs text-muted-foreground">Current streak</p>
+                      <p className="text-xs text-muted-foreground">
+                        {isQuitHabit(detailHabit) ? "Days since last slip" : "Current streak"}
+                      </p>
                     </CardContent>
                   </Card>
                   <Card className="glass">
                     <CardContent className="p-4 text-center">
                       <Target className="w-5 h-5 text-success mx-auto mb-1" />
                       <p className="text-2xl font-bold">{detailStreak.best}</p>
-                      <p className="text-xs text-muted-foreground">Best streak</p>
+                      <p className="text-xs text-muted-foreground">
+                        {isQuitHabit(detailHabit) ? "Longest clean run" : "Best streak"}
+                      </p>
                     </CardContent>
                   </Card>
                 </div>
 
-                <div>
-                  <p className="text-sm font-medium mb-3">Last 14 days</p>
-                  <div className="grid grid-cols-7 gap-1">
-                    {last14Days.map(({ date, dayNum }) => {
-                      const hasLog = logs.some(l => 
-                        l.habitId === detailHabit.id && l.date === date && l.status === "done"
-                      );
-                      return (
-                        <div
-                          key={date}
-                          className={`aspect-square rounded-md flex items-center justify-center text-2xs ${
-                            hasLog 
-                              ? "gradient-primary text-primary-foreground" 
-                              : "bg-secondary text-muted-foreground"
-                          }`}
-                          title={date}
-                        >
-                          {DAY_NAMES[dayNum]}
-                        </div>
-                      );
-                    })}
+                <HabitStrengthCard habit={detailHabit} logs={logs} />
+
+                <HabitPauseSection habit={detailHabit} />
+
+                {isQuitHabit(detailHabit) && (
+                  <div>
+                    <p className="text-sm font-medium mb-3">Relapse timeline</p>
+                    <RelapseTimeline habit={detailHabit} logs={logs} />
                   </div>
+                )}
+
+                <div>
+                  <p className="text-sm font-medium mb-3">History</p>
+                  <HabitMonthGrid habit={detailHabit} logs={logs} />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full mt-2"
+                    onClick={() => navigate(`/habits/${detailHabit.id}`)}
+                  >
+                    <CalendarRange className="w-4 h-4 mr-2" />
+                    View full history
+                  </Button>
                 </div>
 
                 <div className="flex gap-2">
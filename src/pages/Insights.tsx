@@ -1,26 +1,34 @@
 import { useState, useMemo, useEffect } from "react";
-import { BarChart3, TrendingUp, Target, Timer, Trophy, AlertCircle, Lightbulb, ChevronDown, ChevronLeft, ChevronRight, Brain, Zap, Calendar } from "lucide-react";
+import { BarChart3, TrendingUp, Target, Timer, Trophy, AlertCircle, Lightbulb, ChevronDown, ChevronLeft, ChevronRight, Brain, Zap, Calendar, ShieldCheck, Activity, ListChecks, Clock } from "lucide-react";
 import { useHabitStore } from "@/store/habitStore";
 import { useFocusStore } from "@/store/focusStore";
 import { useSettingsStore } from "@/store/settingsStore";
 import { useJournalStore } from "@/store/journalStore";
+import { useTaskStore } from "@/store/taskStore";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Progress } from "@/components/ui/progress";
 import { format, startOfWeek, endOfWeek, subWeeks, addDays, subDays } from "date-fns";
-import { calculateStreak, calculateCompletionRate, isHabitDueOnDate } from "@/lib/utils";
+import {
+  calculateStreak, calculateCompletionRate, isHabitDueOnDate, isHabitCompletedOnDate, isQuitHabit, getSlipLogs,
+  formatStreak, calculateHabitStrength, calculateRoutineCompletionRate, calculateAverageFocusQuality,
+} from "@/lib/utils";
 import { cn } from "@/lib/utils";
+import { getEstimateAccuracy, getFocusHeatmap, getFocusTotalsByProject, getFocusTotalsByTask } from "@/lib/focusAnalytics";
 import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, BarChart, Bar } from "recharts";
+import { DAY_NAMES, DAY_NAMES_FULL, FOCUS_MODE_LABELS, FOCUS_PAUSE_REASON_LABELS, type FocusMode, type FocusPauseReason } from "@/types";
 
 export default function Insights() {
-  const { habits, logs } = useHabitStore();
+  const { habits, logs, pauses, routines } = useHabitStore();
   const { sessions, fetchSessions } = useFocusStore();
   const { weeklyReviews, addWeeklyReview, settings } = useSettingsStore();
   const { entries: journalEntries } = useJournalStore();
+  const tasks = useTaskStore((s) => s.tasks);
   
   const [range, setRange] = useState<7 | 30>(7);
+  const [focusTotalsBy, setFocusTotalsBy] = useState<"task" | "project">("task");
 
   // Refresh focus sessions when the page mounts to ensure latest data
   useEffect(() => {
@@ -51,10 +59,8 @@ export default function Insights() {
   const weekHabitCompletions = weekDays.map((date) => {
     const activeHabits = habits.filter((h) => !h.archived);
     const dateObj = new Date(date + "T12:00:00");
-    const dueHabits = activeHabits.filter((h) => isHabitDueOnDate(h, dateObj));
-    const completed = dueHabits.filter((h) =>
-      logs.some((l) => l.habitId === h.id && l.date === date && l.status === "done")
-    );
+    const dueHabits = activeHabits.filter((h) => isHabitDueOnDate(h, dateObj, pauses));
+    const completed = dueHabits.filter((h) => isHabitCompletedOnDate(h, logs, date));
 
     const total = dueHabits.length;
     return {
@@ -79,10 +85,8 @@ export default function Insights() {
   const habitCompletions = days.map((date) => {
     const activeHabits = habits.filter((h) => !h.archived);
     const dateObj = new Date(date + "T12:00:00");
-    const dueHabits = activeHabits.filter((h) => isHabitDueOnDate(h, dateObj));
-    const completed = dueHabits.filter((h) =>
-      logs.some((l) => l.habitId === h.id && l.date === date && l.status === "done")
-    );
+    const dueHabits = activeHabits.filter((h) => isHabitDueOnDate(h, dateObj, pauses));
+    const completed = dueHabits.filter((h) => isHabitCompletedOnDate(h, logs, date));
 
     const total = dueHabits.length;
     return {
@@ -115,6 +119,82 @@ export default function Insights() {
 
   const totalSessions = sessions.filter((s) => days.includes(s.date)).length;
 
+  // Minutes, session count and average length per focus mode in the range
+  const focusByMode = useMemo(() => {
+    const rangeSessions = sessions.filter((s) => days.includes(s.date));
+    return (Object.keys(FOCUS_MODE_LABELS) as FocusMode[])
+      .map((mode) => {
+        const modeSessions = rangeSessions.filter((s) => s.mode === mode);
+        const minutes = modeSessions.reduce((acc, s) => acc + s.durationMinutes, 0);
+        return {
+          mode,
+          minutes,
+          count: modeSessions.length,
+          avgMinutes: modeSessions.length > 0 ? Math.round(minutes / modeSessions.length) : 0,
+        };
+      })
+      .filter((m) => m.count > 0);
+  }, [sessions, days]);
+  const focusByModeTotal = focusByMode.reduce((acc, m) => acc + m.minutes, 0);
+
+  // Finished vs abandoned sessions, overall and per task (tasks with 2+ sessions)
+  const sessionCompletion = useMemo(() => {
+    const rangeSessions = sessions.filter((s) => days.includes(s.date));
+    const completed = rangeSessions.filter((s) => s.completed).length;
+    const byTask = new Map<string, { task: string; total: number; abandoned: number }>();
+    rangeSessions.forEach((s) => {
+      const task = s.task?.trim() || "No task";
+      const key = task.toLowerCase();
+      const entry = byTask.get(key) || { task, total: 0, abandoned: 0 };
+      entry.total++;
+      if (!s.completed) entry.abandoned++;
+      byTask.set(key, entry);
+    });
+    return {
+      total: rangeSessions.length,
+      completed,
+      abandoned: rangeSessions.length - completed,
+      rate: rangeSessions.length > 0 ? Math.round((completed / rangeSessions.length) * 100) : 0,
+      tasks: [...byTask.values()]
+        .filter((t) => t.total >= 2)
+        .map((t) => ({ ...t, abandonRate: Math.round((t.abandoned / t.total) * 100) }))
+        .sort((a, b) => b.abandonRate - a.abandonRate || b.total - a.total)
+        .slice(0, 5),
+    };
+  }, [sessions, days]);
+
+  // Quality score plus what interrupted sessions in the range
+  const focusQuality = useMemo(() => {
+    const tracked = sessions.filter((s) => days.includes(s.date) && (s.pauses || s.distractions));
+    const pauses = tracked.flatMap((s) => s.pauses || []);
+    return {
+      score: calculateAverageFocusQuality(tracked),
+      distractions: tracked.reduce((acc, s) => acc + (s.distractions?.length || 0), 0),
+      pauses: pauses.length,
+      reasons: (Object.keys(FOCUS_PAUSE_REASON_LABELS) as FocusPauseReason[])
+        .map((reason) => ({ reason, count: pauses.filter((p) => p.reason === reason).length }))
+        .filter((r) => r.count > 0),
+    };
+  }, [sessions, days]);
+
+  // When focus happens and where it goes, over the range
+  const focusAnalytics = useMemo(() => {
+    const rangeSessions = sessions.filter((s) => days.includes(s.date));
+    const heatmap = getFocusHeatmap(rangeSessions);
+    const max = Math.max(0, ...heatmap.flat());
+    const bestDay = heatmap.findIndex((row) => row.includes(max));
+    return {
+      heatmap,
+      max,
+      best: max > 0 ? { day: bestDay, hour: heatmap[bestDay].indexOf(max) } : null,
+      byTask: getFocusTotalsByTask(rangeSessions, tasks).slice(0, 6),
+      byProject: getFocusTotalsByProject(rangeSessions, tasks).slice(0, 6),
+      estimates: getEstimateAccuracy(tasks),
+    };
+  }, [sessions, days, tasks]);
+  const heatmapDays = Array.from({ length: 7 }, (_, i) => (i + weekStartsOn) % 7);
+  const focusTotals = focusTotalsBy === "task" ? focusAnalytics.byTask : focusAnalytics.byProject;
+
   // Mood tracking from journal
   const moodCounts = useMemo(() => {
     const counts: Record<string, number> = {};
@@ -141,7 +221,7 @@ export default function Insights() {
     
     // Consistency bonus 20% (streaks)
     const avgStreak = habits.filter(h => !h.archived).reduce((acc, h) => {
-      return acc + calculateStreak(h, logs).current;
+      return acc + calculateStreak(h, logs, settings.weekStartsMonday, pauses).current;
     }, 0) / Math.max(1, habits.filter(h => !h.archived).length);
     score += Math.min(100, avgStreak * 10) * 0.2;
     
@@ -150,7 +230,7 @@ export default function Insights() {
     score += (journalDays / range) * 100 * 0.1;
     
     return Math.round(score);
-  }, [avgCompletion, totalFocus, range, habits, logs, journalEntries, days]);
+  }, [avgCompletion, totalFocus, range, habits, logs, journalEntries, days, settings.weekStartsMonday, pauses]);
 
   // Trend calculation (compare against previous period using the same "due habits" logic)
   const previousPeriod = Array.from({ length: range }, (_, i) =>
@@ -162,13 +242,11 @@ export default function Insights() {
 
     const dayRates = previousPeriod.map((date) => {
       const dateObj = new Date(date + "T12:00:00");
-      const dueHabits = activeHabits.filter((h) => isHabitDueOnDate(h, dateObj));
+      const dueHabits = activeHabits.filter((h) => isHabitDueOnDate(h, dateObj, pauses));
       const total = dueHabits.length;
       if (total === 0) return null;
 
-      const completed = dueHabits.filter((h) =>
-        logs.some((l) => l.habitId === h.id && l.date === date && l.status === "done")
-      );
+      const completed = dueHabits.filter((h) => isHabitCompletedOnDate(h, logs, date));
 
       return (completed.length / total) * 100;
     });
@@ -177,7 +255,7 @@ export default function Insights() {
     return validRates.length
       ? Math.round(validRates.reduce((a, b) => a + b, 0) / validRates.length)
       : 0;
-  }, [previousPeriod, habits, logs]);
+  }, [previousPeriod, habits, logs, pauses]);
 
   const trend = avgCompletion - previousAvg;
 
@@ -197,10 +275,51 @@ export default function Insights() {
   // Most consistent and most missed habits
   const habitStats = habits.filter(h => !h.archived).map(h => ({
     habit: h,
-    completionRate: calculateCompletionRate(h, logs, range),
-    streak: calculateStreak(h, logs)
+    completionRate: calculateCompletionRate(h, logs, range, pauses),
+    streak: calculateStreak(h, logs, settings.weekStartsMonday, pauses)
   })).sort((a, b) => b.completionRate - a.completionRate);
 
+  // Habit strength across the range: the daily average for the chart, and each
+  // habit's change since the start of the range
+  const strengthTrend = useMemo(() => {
+    const activeHabits = habits.filter(h => !h.archived);
+    const rangeStart = subDays(new Date(), range - 1);
+    const chart = Array.from({ length: range }, (_, i) => {
+      const date = addDays(rangeStart, i);
+      const strengths = activeHabits
+        .filter(h => h.createdAt <= date.getTime())
+        .map(h => calculateHabitStrength(h, logs, settings.weekStartsMonday, pauses, date));
+      return {
+        day: format(date, range === 7 ? "EEE" : "MMM d"),
+        strength: strengths.length
+          ? Math.round(strengths.reduce((a, b) => a + b, 0) / strengths.length)
+          : 0,
+      };
+    });
+    const perHabit = activeHabits
+      .map(habit => {
+        const strength = calculateHabitStrength(habit, logs, settings.weekStartsMonday, pauses);
+        const start = calculateHabitStrength(habit, logs, settings.weekStartsMonday, pauses, rangeStart);
+        return { habit, strength, change: strength - start };
+      })
+      .sort((a, b) => b.strength - a.strength);
+    return { chart, perHabit };
+  }, [habits, logs, pauses, range, settings.weekStartsMonday]);
+
+  // A routine counts as complete on days every due step was done
+  const routineStats = routines
+    .map(routine => ({ routine, rate: calculateRoutineCompletionRate(routine, habits, logs, range, pauses) }))
+    .filter((stat): stat is { routine: typeof stat.routine; rate: number } => stat.rate !== null);
+
+  // Quit habits report clean runs and slips rather than completions
+  const quitStats = habitStats
+    .filter(({ habit }) => isQuitHabit(habit))
+    .map(({ habit, streak }) => ({
+      habit,
+      streak,
+      slips: getSlipLogs(habit, logs).filter(l => l.date >= days[0]).length,
+    }));
+
   const mostConsistent = habitStats[0];
   const mostMissed = habitStats[habitStats.length - 1];
 
@@ -504,6 +623,87 @@ export default function Insights() {
         </CardContent>
       </Card>
 
+      {/* Habit Strength */}
+      {strengthTrend.perHabit.length > 0 && (
+        <Card className="border border-border">
+          <CardContent className="p-6">
+            <h3 className="font-semibold mb-1 flex items-center gap-2">
+              <Activity className="w-4 h-4 text-foreground" />
+              Habit Strength
+            </h3>
+            <p className="text-xs text-muted-foreground mb-4">
+              Builds with every completion and fades slowly with misses
+            </p>
+            <div className="h-32 mb-4">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={strengthTrend.chart}>
+                  <defs>
+                    <linearGradient id="strengthGradient" x1="0" y1="0" x2="0" y2="1">
+                      <stop offset="5%" stopColor="hsl(var(--foreground))" stopOpacity={0.25}/>
+                      <stop offset="95%" stopColor="hsl(var(--foreground))" stopOpacity={0}/>
+                    </linearGradient>
+                  </defs>
+                  <XAxis dataKey="day" axisLine={false} tickLine={false} tick={{ fontSize: 11 }} minTickGap={12} />
+                  <YAxis hide domain={[0, 100]} />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px"
+                    }}
+                    formatter={(value: number) => [`${value}%`, "Avg strength"]}
+                  />
+                  <Area
+                    type="monotone"
+                    dataKey="strength"
+                    stroke="hsl(var(--success))"
+                    strokeWidth={2}
+                    fill="url(#strengthGradient)"
+                  />
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="space-y-3">
+              {strengthTrend.perHabit.map(({ habit, strength, change }) => (
+                <div key={habit.id} className="flex items-center gap-3">
+                  <span className="text-sm truncate w-28 flex-shrink-0">{habit.name}</span>
+                  <Progress value={strength} className="h-2 flex-1" />
+                  <span className="text-sm font-medium w-10 text-right">{strength}%</span>
+                  <span className={cn(
+                    "text-xs w-10 text-right",
+                    change > 0 ? "text-success" : change < 0 ? "text-destructive" : "text-muted-foreground"
+                  )}>
+                    {change > 0 ? "+" : ""}{change}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Routine Completion */}
+      {routineStats.length > 0 && (
+        <Card className="border border-border">
+          <CardContent className="p-6">
+            <h3 className="font-semibold mb-4 flex items-center gap-2">
+              <ListChecks className="w-4 h-4 text-foreground" />
+              Routine Completion
+            </h3>
+            <div className="space-y-3">
+              {routineStats.map(({ routine, rate }) => (
+                <div key={routine.id} className="flex items-center gap-3">
+                  <span className="text-sm truncate w-28 flex-shrink-0">{routine.name}</span>
+                  <Progress value={rate} className="h-2 flex-1" />
+                  <span className="text-sm font-medium w-10 text-right">{rate}%</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3">Days every step was done, last {range} days</p>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Focus Minutes Chart */}
       <Card className="border border-border">
         <CardContent className="p-6">
@@ -533,9 +733,161 @@ export default function Insights() {
               </BarChart>
             </ResponsiveContainer>
           </div>
+          {focusByMode.length > 0 && (
+            <div className="space-y-3 mt-4 pt-4 border-t border-border">
+              {focusByMode.map(({ mode, minutes, count, avgMinutes }) => (
+                <div key={mode} className="flex items-center gap-3">
+                  <span className="text-sm w-24 flex-shrink-0">{FOCUS_MODE_LABELS[mode]}</span>
+                  <Progress value={focusByModeTotal > 0 ? (minutes / focusByModeTotal) * 100 : 0} className="h-2 flex-1" />
+                  <span className="text-xs text-muted-foreground w-28 text-right">
+                    {minutes}m • {count}× ~{avgMinutes}m
+                  </span>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">Minutes, sessions and average length by mode, last {range} days</p>
+            </div>
+          )}
+          {focusQuality.score !== null && (
+            <div className="flex items-start gap-3 mt-4 pt-4 border-t border-border">
+              <div className="text-center w-14 flex-shrink-0">
+                <p className="text-2xl font-bold">{focusQuality.score}</p>
+                <p className="text-[10px] text-muted-foreground">Quality</p>
+              </div>
+              <div className="text-xs text-muted-foreground space-y-1">
+                <p>
+                  {focusQuality.pauses} pause{focusQuality.pauses !== 1 ? "s" : ""} • {focusQuality.distractions} distraction
+                  {focusQuality.distractions !== 1 ? "s" : ""} marked
+                </p>
+                {focusQuality.reasons.length > 0 && (
+                  <p>{focusQuality.reasons.map((r) => `${FOCUS_PAUSE_REASON_LABELS[r.reason]} ${r.count}`).join(" • ")}</p>
+                )}
+                <p>Fewer and shorter interruptions score higher</p>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
+      {/* Session Completion */}
+      {sessionCompletion.total > 0 && (
+        <Card className="border border-border">
+          <CardContent className="p-6">
+            <h3 className="font-semibold mb-4 flex items-center gap-2">
+              <Target className="w-4 h-4 text-foreground" />
+              Session Completion
+            </h3>
+            <div className="flex items-center gap-3">
+              <Progress value={sessionCompletion.rate} className="h-2 flex-1" />
+              <span className="text-sm font-medium w-10 text-right">{sessionCompletion.rate}%</span>
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              {sessionCompletion.completed} finished • {sessionCompletion.abandoned} abandoned, last {range} days
+            </p>
+            {sessionCompletion.tasks.length > 0 && (
+              <div className="space-y-2 mt-4 pt-4 border-t border-border">
+                <p className="text-xs text-muted-foreground">Abandoned by task</p>
+                {sessionCompletion.tasks.map(({ task, total, abandoned, abandonRate }) => (
+                  <div key={task} className="flex items-center gap-3">
+                    <span className="text-sm truncate flex-1">{task}</span>
+                    <span className="text-xs text-muted-foreground">{abandoned}/{total}</span>
+                    <span className={cn("text-sm font-medium w-10 text-right", abandonRate >= 50 && "text-destructive")}>
+                      {abandonRate}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Focus Analytics */}
+      {focusAnalytics.max > 0 && (
+        <Card className="border border-border">
+          <CardContent className="p-6">
+            <h3 className="font-semibold mb-1 flex items-center gap-2">
+              <Clock className="w-4 h-4 text-foreground" />
+              When You Focus
+            </h3>
+            {focusAnalytics.best && (
+              <p className="text-xs text-muted-foreground mb-4">
+                Most focus on {DAY_NAMES_FULL[focusAnalytics.best.day]}s around {focusAnalytics.best.hour}:00, last {range} days
+              </p>
+            )}
+            <div className="overflow-x-auto -mx-1 px-1" data-no-page-swipe>
+              <div className="min-w-[320px] space-y-[3px]">
+                {heatmapDays.map((day) => (
+                  <div key={day} className="flex items-center gap-1">
+                    <span className="text-[10px] text-muted-foreground w-7 flex-shrink-0">{DAY_NAMES[day]}</span>
+                    <div className="grid flex-1 gap-[2px]" style={{ gridTemplateColumns: "repeat(24, minmax(0, 1fr))" }}>
+                      {focusAnalytics.heatmap[day].map((minutes, hour) => (
+                        <div
+                          key={hour}
+                          title={`${DAY_NAMES[day]} ${hour}:00 — ${minutes} min`}
+                          className={cn("aspect-square rounded-[2px]", minutes === 0 && "bg-secondary/60")}
+                          style={minutes > 0 ? { backgroundColor: `hsl(var(--primary) / ${0.2 + 0.8 * (minutes / focusAnalytics.max)})` } : undefined}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+                <div className="flex gap-1">
+                  <span className="w-7 flex-shrink-0" />
+                  <div className="grid flex-1 text-[10px] text-muted-foreground" style={{ gridTemplateColumns: "repeat(4, minmax(0, 1fr))" }}>
+                    {[0, 6, 12, 18].map((hour) => <span key={hour}>{hour}:00</span>)}
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-4 pt-4 border-t border-border space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-xs text-muted-foreground">Focus time by {focusTotalsBy}</p>
+                <div className="flex gap-1">
+                  {(["task", "project"] as const).map((by) => (
+                    <Button
+                      key={by}
+                      variant={focusTotalsBy === by ? "default" : "ghost"}
+                      size="sm"
+                      className="h-6 px-2 text-xs capitalize"
+                      onClick={() => setFocusTotalsBy(by)}
+                    >
+                      {by}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {focusTotals.map(({ label, minutes, sessions: count }) => (
+                <div key={label} className="flex items-center gap-3">
+                  <span className="text-sm w-28 truncate flex-shrink-0">{label}</span>
+                  <Progress value={(minutes / focusTotals[0].minutes) * 100} className="h-2 flex-1" />
+                  <span className="text-xs text-muted-foreground w-16 text-right">
+                    {minutes}m • {count}×
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {focusAnalytics.estimates.tasks.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-border space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Planned vs actual pomodoros: {focusAnalytics.estimates.actual} of {focusAnalytics.estimates.estimated} estimated
+                  {focusAnalytics.estimates.ratio !== null && ` • finished tasks took ${focusAnalytics.estimates.ratio}× their estimate`}
+                </p>
+                {focusAnalytics.estimates.tasks.slice(0, 5).map(({ id, title, estimated, actual }) => (
+                  <div key={id} className="flex items-center gap-3">
+                    <span className="text-sm truncate flex-1">{title}</span>
+                    <span className={cn("text-sm font-medium", actual > estimated && "text-destructive")}>
+                      {actual}/{estimated} 🍅
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Insights Grid */}
       <div className="grid grid-cols-2 gap-3">
         <Card className="border border-border">
@@ -551,7 +903,11 @@ export default function Insights() {
             <CardContent className="p-4">
               <Target className="w-4 h-4 text-foreground mb-2" />
               <p className="text-sm font-medium truncate">{mostConsistent.habit.name}</p>
-              <p className="text-xs text-muted-foreground">{mostConsistent.completionRate}% • {mostConsistent.streak.current} day streak</p>
+              <p className="text-xs text-muted-foreground">
+                {mostConsistent.completionRate}% • {isQuitHabit(mostConsistent.habit)
+                  ? formatStreak(mostConsistent.habit, mostConsistent.streak.current)
+                  : `${mostConsistent.streak.current} day streak`}
+              </p>
             </CardContent>
           </Card>
         )}
@@ -567,6 +923,20 @@ export default function Insights() {
             </CardContent>
           </Card>
         )}
+
+        {quitStats.map(({ habit, streak, slips }) => (
+          <Card key={habit.id} className="border border-border col-span-2">
+            <CardContent className="p-4 flex items-start gap-3">
+              <ShieldCheck className="w-4 h-4 text-foreground mt-0.5" />
+              <div>
+                <p className="text-sm font-medium">{habit.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatStreak(habit, streak.current)} • longest {streak.best} • {slips} slip{slips !== 1 ? "s" : ""} in {range} days
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
       {/* AI Tips */}
@@ -1,7 +1,7 @@
 import { useEffect } from "react";
 import { useActivityStore } from "@/store/activityStore";
 import { InAppNavigation } from "@/components/activity/InAppNavigation";
-import { toast } from "sonner";
+import { toast } from "@/lib/toast";
 
 export default function Navigate() {
   const { currentPosition, updatePosition } = useActivityStore();
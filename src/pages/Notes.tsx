@@ -49,7 +49,7 @@ import {
 } from "@/components/ui/dialog";
 import { useNotesStore, type Note, DEFAULT_FOLDERS } from "@/store/notesStore";
 import { formatDistanceToNow } from "date-fns";
-import { toast } from "sonner";
+import { toast } from "@/lib/toast";
 import { cn } from "@/lib/utils";
 import { exportNoteToPdf, shareNote, copyNoteToClipboard } from "@/lib/exportPdf";
 
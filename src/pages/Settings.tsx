@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Moon, Sun, Download, Upload, Trash2, LogOut, Bell, BellOff, Cloud, Palette, Globe, Shield, Smartphone, ChevronRight, Vibrate, Clock, Timer, Eye, Zap, Github } from "lucide-react";
+import { Moon, Sun, Download, Upload, Trash2, LogOut, Bell, BellOff, Cloud, Palette, Globe, Shield, Smartphone, ChevronRight, Vibrate, Clock, Timer, Eye, Zap, Github, TreePalm, FileSpreadsheet } from "lucide-react";
 import { useNavigate, Link } from "react-router-dom";
 import { useSettingsStore } from "@/store/settingsStore";
 import { useHabitStore } from "@/store/habitStore";
@@ -16,20 +16,23 @@ import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
-import { toast } from "sonner";
+import { HabitCsvDialog } from "@/components/habits/HabitCsvDialog";
+import { NOTIFICATION_SOURCE_LABELS, type NotificationSource } from "@/types";
+import { toast } from "@/lib/toast";
 import { Capacitor } from "@capacitor/core";
 
 export default function Settings() {
   const navigate = useNavigate();
   const { signOut, user } = useAuth();
   const { settings, setTheme, updateSettings, resetSettings, clearAllData: clearSettings, weeklyReviews } = useSettingsStore();
-  const { habits, logs, clearAllData: clearHabits } = useHabitStore();
+  const { habits, logs, clearAllData: clearHabits, getVacation, startVacation, endVacation } = useHabitStore();
   const { accessToken, setAccessToken } = useGitHubStore();
-  const { sessions, preset, updatePreset, clearAllData: clearFocus } = useFocusStore();
+  const { sessions, preset, presets, activePresetId, updatePreset, clearAllData: clearFocus } = useFocusStore();
   const { entries: journalEntries, clearAllData: clearJournal } = useJournalStore();
   const { events, clearAllData: clearCalendar } = useCalendarStore();
   
   const [syncing, setSyncing] = useState(false);
+  const [csvOpen, setCsvOpen] = useState(false);
   const [lastSync, setLastSync] = useState<string | null>(() => 
     localStorage.getItem("last-sync-time")
   );
@@ -127,7 +130,9 @@ export default function Settings() {
           schedule_type: habit.schedule.type,
           schedule_days_of_week: habit.schedule.daysOfWeek,
           schedule_times_per_week: habit.schedule.timesPerWeek,
-          reminder_time: habit.reminderTime,
+          reminder_time: habit.reminderTimes?.[0],
+          reminder_times: habit.reminderTimes,
+          sort_order: habit.sortOrder,
           goal_type: habit.goalType,
           goal_target: habit.goalTarget,
         }, { onConflict: "id" });
@@ -309,8 +314,26 @@ export default function Settings() {
     updatePreset({ autoStartWork: enabled });
   };
 
+  const handleVacationToggle = async (enabled: boolean) => {
+    if (enabled) {
+      await startVacation();
+      toast.success("Vacation mode on. Your streaks are safe.");
+    } else {
+      await endVacation();
+      toast.success("Welcome back! Habits are due again from today.");
+    }
+  };
+
   const isDark = settings.theme === "dark";
+  const vacation = getVacation();
   const focusModeEnabled = settings.focusModeEnabled ?? false;
+  const focusModeAllowed = settings.focusModeAllowed ?? [];
+
+  const toggleFocusModeAllowed = (source: NotificationSource, allowed: boolean) => {
+    updateSettings({
+      focusModeAllowed: allowed ? [...focusModeAllowed, source] : focusModeAllowed.filter(s => s !== source),
+    });
+  };
 
   return (
     <div className="space-y-6 animate-fade-in pb-24">
@@ -515,8 +538,10 @@ export default function Settings() {
 
           <div className="flex items-center justify-between">
             <div>
-              <p className="font-medium">Default Work Duration</p>
-              <p className="text-sm text-muted-foreground">Pomodoro work session length</p>
+              <p className="font-medium">Work Duration</p>
+              <p className="text-sm text-muted-foreground">
+                Pomodoro length for the "{presets.find(p => p.id === activePresetId)?.name}" preset
+              </p>
             </div>
             <Select 
               value={preset.workMinutes.toString()}
@@ -539,6 +564,31 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* Habits */}
+      <Card className="glass">
+        <CardContent className="p-6 space-y-6">
+          <h3 className="font-semibold flex items-center gap-2">
+            <TreePalm className="w-4 h-4 text-primary" />
+            Habits
+          </h3>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <TreePalm className="w-5 h-5 text-primary" />
+              <div>
+                <p className="font-medium">Vacation Mode</p>
+                <p className="text-sm text-muted-foreground">
+                  {vacation
+                    ? `Paused since ${vacation.startDate}. Streaks won't break.`
+                    : "Pause every habit without losing streaks"}
+                </p>
+              </div>
+            </div>
+            <Switch checked={!!vacation} onCheckedChange={handleVacationToggle} />
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Display Preferences */}
       <Card className="glass">
         <CardContent className="p-6 space-y-6">
@@ -619,8 +669,8 @@ export default function Settings() {
                 <p className="font-medium">Focus Mode</p>
                 <p className="text-sm text-muted-foreground">
                   {focusModeEnabled 
-                    ? "Notifications silenced during focus sessions" 
-                    : "Mute notifications during focus sessions"}
+                    ? "Notifications held until your break" 
+                    : "Hold notifications during focus sessions"}
                 </p>
               </div>
             </div>
@@ -630,9 +680,21 @@ export default function Settings() {
             />
           </div>
           {focusModeEnabled && (
-            <p className="text-xs text-muted-foreground mt-3 p-3 bg-primary/5 rounded-lg">
-              Note: Enable "Do Not Disturb" on your device for best results.
-            </p>
+            <div className="mt-4 space-y-3">
+              <p className="text-sm font-medium">Let through</p>
+              {(Object.keys(NOTIFICATION_SOURCE_LABELS) as NotificationSource[]).map(source => (
+                <div key={source} className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">{NOTIFICATION_SOURCE_LABELS[source]}</p>
+                  <Switch
+                    checked={focusModeAllowed.includes(source)}
+                    onCheckedChange={c => toggleFocusModeAllowed(source, c)}
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground p-3 bg-primary/5 rounded-lg">
+                Everything else waits for a summary when the break starts. Enable "Do Not Disturb" on your device to silence other apps too.
+              </p>
+            </div>
           )}
         </CardContent>
       </Card>
@@ -671,7 +733,12 @@ export default function Settings() {
               <Upload className="w-4 h-4 mr-2" />
               Import Data
             </Button>
+            <Button variant="outline" onClick={() => setCsvOpen(true)} className="justify-start col-span-2">
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Habits CSV import / export
+            </Button>
           </div>
+          <HabitCsvDialog open={csvOpen} onOpenChange={setCsvOpen} />
 
           <div className="pt-4 border-t border-border">
             <Button variant="destructive" onClick={handleClearAll} className="w-full">
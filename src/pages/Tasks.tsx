@@ -0,0 +1,303 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Plus, ListTodo, Play, Pencil, Trash2, CalendarDays, FolderOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useTaskStore } from "@/store/taskStore";
+import { useFocusStore } from "@/store/focusStore";
+import { cn, formatPomodoros, getToday } from "@/lib/utils";
+import { toast } from "@/lib/toast";
+import { TASK_STATUS_LABELS, type Task, type TaskStatus } from "@/types";
+
+type TaskFilter = "open" | "done";
+
+export default function Tasks() {
+  const navigate = useNavigate();
+  const { tasks, addTask, updateTask, deleteTask } = useTaskStore();
+  const timer = useFocusStore((s) => s.timer);
+  const startTimer = useFocusStore((s) => s.startTimer);
+
+  const [filter, setFilter] = useState<TaskFilter>("open");
+  const [project, setProject] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Task | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const today = getToday();
+
+  const projects = useMemo(
+    () => [...new Set(tasks.map(t => t.project).filter((p): p is string => !!p))].sort(),
+    [tasks]
+  );
+
+  // Open tasks sort by due date (undated last), done tasks by when they were finished
+  const visibleTasks = useMemo(() => {
+    const filtered = tasks.filter(t =>
+      (filter === "done" ? t.status === "done" : t.status !== "done") && (!project || t.project === project)
+    );
+    return filter === "done"
+      ? filtered.sort((a, b) => (b.completedAt || 0) - (a.completedAt || 0))
+      : filtered.sort((a, b) => (a.dueDate || "9999").localeCompare(b.dueDate || "9999") || b.createdAt - a.createdAt);
+  }, [tasks, filter, project]);
+
+  const handleNew = () => {
+    setEditing(null);
+    setShowForm(true);
+  };
+
+  const handleEdit = (task: Task) => {
+    setEditing(task);
+    setShowForm(true);
+  };
+
+  const handleSave = async (values: Pick<Task, "title" | "project" | "dueDate" | "estimatedPomodoros" | "status">) => {
+    if (editing) {
+      // Only send a status change, so completedAt isn't restamped
+      const { status, ...details } = values;
+      await updateTask(editing.id, status === editing.status ? details : values);
+    } else {
+      const created = await addTask(values);
+      if (!created) {
+        toast.error("Couldn't add the task");
+        return;
+      }
+    }
+    setShowForm(false);
+  };
+
+  const handleToggleDone = (task: Task) => {
+    void updateTask(task.id, { status: task.status === "done" ? "todo" : "done" });
+  };
+
+  const handleFocus = (task: Task) => {
+    if (timer.isRunning) {
+      toast.info("A focus session is already running");
+      navigate("/focus");
+      return;
+    }
+    startTimer("pomodoro", task.title, undefined, task.id);
+    navigate("/focus");
+    toast.success(`Focusing on "${task.title}"`);
+  };
+
+  const handleDelete = (task: Task) => {
+    if (!confirm(`Delete "${task.title}"? Its focus sessions are kept.`)) return;
+    void deleteTask(task.id);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      <header className="flex items-center justify-between">
+        <div>
+          <h1 className="text-display-sm font-semibold tracking-tight">Tasks</h1>
+          <p className="text-muted-foreground mt-0.5 text-sm">Plan work in pomodoros</p>
+        </div>
+        <Button onClick={handleNew} size="sm" className="gap-2 rounded-xl">
+          <Plus className="w-4 h-4" />
+          New task
+        </Button>
+      </header>
+
+      <Tabs value={filter} onValueChange={v => setFilter(v as TaskFilter)}>
+        <TabsList className="glass w-full p-1 rounded-xl h-11">
+          <TabsTrigger value="open" className="flex-1 rounded-lg">Open</TabsTrigger>
+          <TabsTrigger value="done" className="flex-1 rounded-lg">Done</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {projects.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1" data-no-page-swipe>
+          {[null, ...projects].map(p => (
+            <button
+              key={p ?? "all"}
+              type="button"
+              onClick={() => setProject(p)}
+              className={cn(
+                "px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap transition-colors",
+                project === p ? "bg-primary text-primary-foreground" : "glass bg-background/40 hover:bg-secondary/60"
+              )}
+            >
+              {p ?? "All projects"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {visibleTasks.length === 0 ? (
+        <Card className="glass border-0">
+          <CardContent className="p-8 flex flex-col items-center text-center gap-2">
+            <ListTodo className="w-8 h-8 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              {filter === "open" ? "Nothing to do. Add a task and estimate it in pomodoros." : "No finished tasks yet."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {visibleTasks.map(task => {
+            const isOverdue = task.status !== "done" && !!task.dueDate && task.dueDate < today;
+            const isFocused = timer.isRunning && timer.taskId === task.id;
+            return (
+              <Card key={task.id} className={cn("glass border-0", isFocused && "ring-1 ring-primary")}>
+                <CardContent className="p-4 flex items-center gap-3">
+                  <Checkbox checked={task.status === "done"} onCheckedChange={() => handleToggleDone(task)} />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("font-medium truncate", task.status === "done" && "line-through text-muted-foreground")}>
+                      {task.title}
+                    </p>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-muted-foreground">
+                      <span>{formatPomodoros(task)}</span>
+                      {task.status === "inProgress" && <span className="text-primary">{TASK_STATUS_LABELS.inProgress}</span>}
+                      {task.project && (
+                        <span className="flex items-center gap-1">
+                          <FolderOpen className="w-3 h-3" />
+                          {task.project}
+                        </span>
+                      )}
+                      {task.dueDate && (
+                        <span className={cn("flex items-center gap-1", isOverdue && "text-destructive")}>
+                          <CalendarDays className="w-3 h-3" />
+                          {task.dueDate === today ? "Today" : format(parseISO(task.dueDate), "MMM d")}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {task.status !== "done" && (
+                    <Button variant="ghost" size="icon" className="rounded-full text-primary" onClick={() => handleFocus(task)}>
+                      <Play className="w-4 h-4 fill-current" />
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" className="rounded-full" onClick={() => handleEdit(task)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="rounded-full text-muted-foreground" onClick={() => handleDelete(task)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        {showForm && (
+          <TaskFormDialog
+            key={editing?.id ?? "new"}
+            task={editing}
+            projects={projects}
+            onSave={handleSave}
+          />
+        )}
+      </Dialog>
+    </div>
+  );
+}
+
+function TaskFormDialog({
+  task,
+  projects,
+  onSave,
+}: {
+  task: Task | null;
+  projects: string[];
+  onSave: (values: Pick<Task, "title" | "project" | "dueDate" | "estimatedPomodoros" | "status">) => void;
+}) {
+  const [title, setTitle] = useState(task?.title || "");
+  const [project, setProject] = useState(task?.project || "");
+  const [dueDate, setDueDate] = useState(task?.dueDate || "");
+  const [estimate, setEstimate] = useState(task?.estimatedPomodoros?.toString() || "");
+  const [status, setStatus] = useState<TaskStatus>(task?.status || "todo");
+
+  const handleSubmit = () => {
+    if (!title.trim()) return;
+    const estimated = parseInt(estimate, 10);
+    onSave({
+      title: title.trim(),
+      project: project.trim() || undefined,
+      dueDate: dueDate || undefined,
+      estimatedPomodoros: estimated > 0 ? estimated : undefined,
+      status,
+    });
+  };
+
+  return (
+    <DialogContent className="glass-strong sm:max-w-md">
+      <DialogHeader>
+        <DialogTitle>{task ? "Edit task" : "New task"}</DialogTitle>
+      </DialogHeader>
+      <div className="space-y-4 pt-2">
+        <div className="space-y-2">
+          <Label htmlFor="task-title">Title</Label>
+          <Input
+            id="task-title"
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            onKeyDown={e => e.key === "Enter" && handleSubmit()}
+            placeholder="e.g., Draft the project proposal"
+            autoFocus
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="task-project">Project</Label>
+          <Input
+            id="task-project"
+            list="task-projects"
+            value={project}
+            onChange={e => setProject(e.target.value)}
+            placeholder="Optional"
+          />
+          <datalist id="task-projects">
+            {projects.map(p => <option key={p} value={p} />)}
+          </datalist>
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="task-due">Due date</Label>
+            <Input id="task-due" type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-estimate">Estimate (🍅)</Label>
+            <Input
+              id="task-estimate"
+              type="number"
+              min={1}
+              max={50}
+              value={estimate}
+              onChange={e => setEstimate(e.target.value)}
+              placeholder="e.g., 4"
+            />
+          </div>
+        </div>
+        {task && (
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <div className="flex gap-2">
+              {(Object.keys(TASK_STATUS_LABELS) as TaskStatus[]).map(s => (
+                <button
+                  key={s}
+                  type="button"
+                  onClick={() => setStatus(s)}
+                  className={cn(
+                    "flex-1 px-3 py-2 rounded-lg text-xs font-medium transition-colors",
+                    status === s ? "bg-primary text-primary-foreground" : "bg-secondary/60 hover:bg-secondary"
+                  )}
+                >
+                  {TASK_STATUS_LABELS[s]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">{formatPomodoros(task)} done so far</p>
+          </div>
+        )}
+        <Button className="w-full" onClick={handleSubmit} disabled={!title.trim()}>
+          {task ? "Save" : "Add task"}
+        </Button>
+      </div>
+    </DialogContent>
+  );
+}
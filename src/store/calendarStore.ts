@@ -1,8 +1,12 @@
 import { create } from "zustand";
 import { supabase } from "@/integrations/supabase/client";
 
+// A focus block plans a focus session: it carries the preset and task to start with
+export type CalendarEventKind = "event" | "focus";
+
 export interface CalendarEvent {
   id: string;
+  kind?: CalendarEventKind; // Defaults to "event"
   title: string;
   description?: string;
   date: string; // YYYY-MM-DD
@@ -16,6 +20,8 @@ export interface CalendarEvent {
   recurrenceInterval?: number;
   recurrenceEndDate?: string;
   parentEventId?: string;
+  focusPresetId?: string;
+  taskId?: string;
   createdAt: number;
 }
 
@@ -68,6 +74,7 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
 
       const events: CalendarEvent[] = (data || []).map((row) => ({
         id: row.id,
+        kind: row.kind as CalendarEventKind,
         title: row.title,
         description: row.description || undefined,
         date: row.date,
@@ -81,6 +88,8 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
         recurrenceInterval: row.recurrence_interval || undefined,
         recurrenceEndDate: row.recurrence_end_date || undefined,
         parentEventId: row.parent_event_id || undefined,
+        focusPresetId: row.focus_preset_id || undefined,
+        taskId: row.task_id || undefined,
         createdAt: new Date(row.created_at).getTime(),
       }));
 
@@ -113,6 +122,9 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
           recurrence_interval: event.recurrenceInterval || null,
           recurrence_end_date: event.recurrenceEndDate || null,
           parent_event_id: event.parentEventId || null,
+          kind: event.kind || "event",
+          focus_preset_id: event.focusPresetId || null,
+          task_id: event.taskId || null,
         })
         .select()
         .single();
@@ -124,6 +136,7 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
 
       const newEvent: CalendarEvent = {
         id: data.id,
+        kind: data.kind as CalendarEventKind,
         title: data.title,
         description: data.description || undefined,
         date: data.date,
@@ -137,6 +150,8 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
         recurrenceInterval: data.recurrence_interval || undefined,
         recurrenceEndDate: data.recurrence_end_date || undefined,
         parentEventId: data.parent_event_id || undefined,
+        focusPresetId: data.focus_preset_id || undefined,
+        taskId: data.task_id || undefined,
         createdAt: new Date(data.created_at).getTime(),
       };
 
@@ -163,6 +178,9 @@ export const useCalendarStore = create<CalendarState>((set, get) => ({
       if (updates.recurrenceType !== undefined) dbUpdates.recurrence_type = updates.recurrenceType || null;
       if (updates.recurrenceInterval !== undefined) dbUpdates.recurrence_interval = updates.recurrenceInterval || null;
       if (updates.recurrenceEndDate !== undefined) dbUpdates.recurrence_end_date = updates.recurrenceEndDate || null;
+      if (updates.kind !== undefined) dbUpdates.kind = updates.kind;
+      if (updates.focusPresetId !== undefined) dbUpdates.focus_preset_id = updates.focusPresetId || null;
+      if (updates.taskId !== undefined) dbUpdates.task_id = updates.taskId || null;
 
       const { error } = await supabase
         .from("calendar_events")
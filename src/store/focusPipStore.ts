@@ -0,0 +1,47 @@
+import { create } from "zustand";
+import {
+  hasDocumentPictureInPicture, openDocumentPictureInPicture, openTimerVideoPictureInPicture,
+} from "@/lib/pictureInPicture";
+
+interface FocusPipState {
+  // Set while the Document PiP window is open; FocusPipTimer portals into it
+  pipWindow: Window | null;
+  isVideoOpen: boolean;
+
+  // Actions
+  open: () => Promise<boolean>;
+  close: () => void;
+}
+
+// The popped-out timer lives outside any page, so it stays open while navigating
+export const useFocusPipStore = create<FocusPipState>((set, get) => ({
+  pipWindow: null,
+  isVideoOpen: false,
+
+  // Must be called from a user gesture. Resolves to false if the browser refused
+  open: async () => {
+    if (get().pipWindow || get().isVideoOpen) return true;
+
+    try {
+      if (hasDocumentPictureInPicture()) {
+        const pipWindow = await openDocumentPictureInPicture();
+        pipWindow.addEventListener("pagehide", () => set({ pipWindow: null }), { once: true });
+        set({ pipWindow });
+      } else {
+        await openTimerVideoPictureInPicture(() => set({ isVideoOpen: false }));
+        set({ isVideoOpen: true });
+      }
+      return true;
+    } catch (error) {
+      console.error("Error opening picture-in-picture:", error);
+      return false;
+    }
+  },
+
+  close: () => {
+    const { pipWindow, isVideoOpen } = get();
+    pipWindow?.close();
+    if (isVideoOpen && document.pictureInPictureElement) void document.exitPictureInPicture();
+    set({ pipWindow: null });
+  },
+}));
@@ -1,8 +1,18 @@
 import { create } from "zustand";
+import { format } from "date-fns";
 import { persist } from "zustand/middleware";
 import { supabase } from "@/integrations/supabase/client";
-import type { FocusSession, FocusTimer, FocusPreset } from "@/types";
-import { getToday } from "@/lib/utils";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type {
+  FocusSession, FocusTimer, FocusPreset, FocusMode, FocusPause, FocusPauseReason, NamedFocusPreset,
+} from "@/types";
+import { generateId, getToday } from "@/lib/utils";
+import { useHabitStore } from "@/store/habitStore";
+import { useTaskStore } from "@/store/taskStore";
+import type { CalendarEvent } from "@/store/calendarStore";
+import {
+  buildBreakWorkout, getBreakExerciseEnd, getBreakWorkoutPosition, type Exercise,
+} from "@/lib/exercises";
 
 const DEFAULT_PRESET: FocusPreset = {
   workMinutes: 25,
@@ -10,35 +20,79 @@ const DEFAULT_PRESET: FocusPreset = {
   longBreakMinutes: 15,
   sessionsBeforeLongBreak: 4,
   deepFocusMinutes: 60,
+  flowCheckInMinutes: 0,
   autoStartBreaks: false,
   autoStartWork: false,
+  breakWorkouts: true,
   alarmSound: "chime",
+  ambientSound: "none",
+  ambientVolumes: {},
 };
 
+const DEFAULT_PRESET_ID = "default";
+const MAX_TIMER_SYNC_RETRIES = 3;
+
+const getDefaultPresets = (): NamedFocusPreset[] => [
+  { ...DEFAULT_PRESET, id: DEFAULT_PRESET_ID, name: "Classic 25/5" },
+];
+
 interface FocusState {
   sessions: FocusSession[];
   timer: FocusTimer;
-  preset: FocusPreset;
+  preset: FocusPreset; // Values of the active preset
+  presets: NamedFocusPreset[];
+  activePresetId: string;
   isLoading: boolean;
+
+  // Cross-device sync of the running timer
+  timerRevision: number; // Last focus_timer_state revision seen
+  timerChangedAt: number; // When the synced timer state was last changed (ms)
+  timerDeviceId: string | null; // Device that made that change; it handles completion and notifications
+  timerSyncPending: boolean; // A local change hasn't reached the server yet
+
+  breakWorkout: BreakWorkout | null; // Offered when a pomodoro break starts
   
   // Timer Actions
-  startTimer: (mode: "pomodoro" | "deepFocus", task?: string, customDuration?: number) => void;
-  pauseTimer: () => void;
+  startTimer: (mode: FocusMode, task?: string, customDuration?: number, taskId?: string, calendarEventId?: string) => void;
+  startFocusBlock: (block: CalendarEvent) => void;
+  pauseTimer: (reason?: FocusPauseReason) => void;
+  setPauseReason: (reason: FocusPauseReason) => void;
   resumeTimer: () => void;
+  markDistraction: () => void;
   resetTimer: () => void;
   completeSession: (note?: string) => Promise<void>;
+  skipSession: () => void;
   skipBreak: () => void;
+
+  // Break workout Actions
+  startBreakWorkout: () => void;
+  getBreakWorkoutElapsed: () => number;
+  advanceBreakWorkout: () => void;
+  recordBreakReps: (index: number, reps: number) => void;
+  endBreakWorkout: () => void;
   
   // Get current time remaining
   getTimeRemaining: () => number;
   getElapsedTime: () => number;
+  isTimerOwner: () => boolean;
+
+  // Timer sync Actions
+  fetchTimerState: () => Promise<void>;
+  pushTimerState: () => Promise<void>;
+  applyRemoteTimer: (row: Tables<"focus_timer_state">) => void;
   
   // Preset Actions
+  fetchPresets: () => Promise<void>;
   updatePreset: (preset: Partial<FocusPreset>) => void;
+  selectPreset: (id: string) => void;
+  addPreset: (name: string, values?: Partial<FocusPreset>) => string;
+  renamePreset: (id: string, name: string) => void;
+  deletePreset: (id: string) => void;
   
   // Session Actions
   fetchSessions: () => Promise<void>;
   addSession: (session: Omit<FocusSession, "id">) => Promise<void>;
+  updateSession: (id: string, updates: Partial<Omit<FocusSession, "id" | "date">>) => Promise<void>;
   deleteSession: (id: string) => Promise<void>;
   
   // Data management
@@ -46,6 +100,15 @@ interface FocusState {
   clearAllData: () => void;
 }
 
+// A short movement routine run on the break timer
+export interface BreakWorkout {
+  exercises: Exercise[];
+  startedAt: number | null; // Break seconds elapsed at start; null while only offered
+  startedTimestamp: number | null;
+  skippedSeconds: number; // Jumped ahead by finishing rep exercises early
+  repCounts: Record<number, number>; // Reps counted by motion, per exercise index
+}
+
 const getInitialTimer = (): FocusTimer => ({
   isRunning: false,
   isPaused: false,
@@ -57,15 +120,311 @@ const getInitialTimer = (): FocusTimer => ({
   totalDuration: DEFAULT_PRESET.workMinutes * 60,
   currentSession: 1,
   task: undefined,
+  pauses: [],
+  distractions: [],
 });
 
+function mapPausesFromDb(value: Json | undefined): FocusPause[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value.flatMap((pause) => {
+    if (!pause || typeof pause !== "object" || Array.isArray(pause) || typeof pause.paused_at !== "number") return [];
+    return [{
+      pausedAt: pause.paused_at,
+      resumedAt: typeof pause.resumed_at === "number" ? pause.resumed_at : undefined,
+      reason: (pause.reason as FocusPauseReason | null) || undefined,
+    }];
+  });
+}
+
+const mapDistractionsFromDb = (value: Json | undefined): number[] | undefined =>
+  Array.isArray(value) ? value.filter((at): at is number => typeof at === "number") : undefined;
+
+function mapSessionFromDb(row: Tables<"focus_sessions">): FocusSession {
+  return {
+    id: row.id,
+    date: row.date,
+    startTime: row.start_time,
+    durationMinutes: row.duration_minutes,
+    mode: row.mode as FocusMode,
+    task: row.task || undefined,
+    taskId: row.task_id || undefined,
+    calendarEventId: row.calendar_event_id || undefined,
+    note: row.note || undefined,
+    completed: row.completed || false,
+    pauses: mapPausesFromDb(row.pauses ?? undefined),
+    distractions: mapDistractionsFromDb(row.distractions ?? undefined),
+  };
+}
+
+// The session to log for a timer's work phase; breaks and runs under a minute
+// aren't logged. Abandoned sessions are kept with completed: false
+function getWorkSession(
+  timer: FocusTimer,
+  elapsedSeconds: number,
+  completed: boolean,
+  note?: string
+): Omit<FocusSession, "id"> | null {
+  const durationMinutes = Math.floor(elapsedSeconds / 60);
+  if (!timer.isRunning || timer.phase !== "work" || durationMinutes <= 0) return null;
+
+  return {
+    date: getToday(),
+    startTime: getPhaseStartTime(timer, elapsedSeconds),
+    durationMinutes,
+    mode: timer.mode,
+    task: timer.task,
+    taskId: timer.taskId,
+    calendarEventId: timer.calendarEventId,
+    note,
+    completed,
+    // A pause nobody resumed from is where the session ended, not an interruption
+    pauses: (timer.pauses || []).filter((p) => p.resumedAt),
+    distractions: timer.distractions || [],
+  };
+}
+
+// startTimestamp moves on every resume, so work back from where the phase ended
+// (now, or the pause still running): its focused time plus every pause in between
+function getPhaseStartTime(timer: FocusTimer, elapsedSeconds: number): number {
+  const end = timer.isPaused && timer.pausedAt ? timer.pausedAt : Date.now();
+  const pausedMs = (timer.pauses || []).reduce(
+    (total, p) => total + (p.resumedAt ? p.resumedAt - p.pausedAt : 0),
+    0
+  );
+  return end - elapsedSeconds * 1000 - pausedMs;
+}
+
+// Pomodoro breaks offer a workout when the preset allows it
+function offerBreakWorkout(timer: FocusTimer, preset: FocusPreset): BreakWorkout | null {
+  if (!timer.isRunning || timer.phase === "work" || preset.breakWorkouts === false) return null;
+  return {
+    exercises: buildBreakWorkout(timer.totalDuration / 60),
+    startedAt: null,
+    startedTimestamp: null,
+    skippedSeconds: 0,
+    repCounts: {},
+  };
+}
+
+// Mini-workouts are logged with workout plans, as kind "focusBreak"
+async function logBreakWorkout(workout: BreakWorkout, exercisesCompleted: number) {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase.from("workout_sessions").insert({
+      user_id: user.id,
+      kind: "focusBreak",
+      started_at: new Date(workout.startedTimestamp || Date.now()).toISOString(),
+      completed_at: new Date().toISOString(),
+      exercises_completed: exercisesCompleted,
+      total_exercises: workout.exercises.length,
+      status: exercisesCompleted >= workout.exercises.length ? "completed" : "partial",
+      exercises: workout.exercises.slice(0, exercisesCompleted).map((e, i) => ({
+        name: e.name,
+        duration: e.duration,
+        reps: e.reps,
+        reps_counted: workout.repCounts[i] ?? null,
+      })),
+    });
+
+    if (error) console.error("Error logging break workout:", error);
+  } catch (error) {
+    console.error("Error logging break workout:", error);
+  }
+}
+
+// Completed sessions feed linked duration habits and their task's pomodoro
+// count; sign -1 takes that back for edited or deleted sessions
+async function countSession(session: FocusSession, sign: 1 | -1) {
+  if (!session.completed) return;
+  const habitStore = useHabitStore.getState();
+  await (sign > 0 ? habitStore.addFocusSessionProgress(session) : habitStore.removeFocusSessionProgress(session));
+  if (session.taskId) await useTaskStore.getState().addActualPomodoro(session.taskId, sign);
+}
+
+// Pomodoro work phases move to a (long) break and breaks back to work; other modes end
+function getNextPhaseTimer(timer: FocusTimer, preset: FocusPreset): FocusTimer {
+  if (timer.mode !== "pomodoro") return getInitialTimer();
+
+  const phaseStart = {
+    startTimestamp: Date.now(),
+    pausedAt: null,
+    elapsedBeforePause: 0,
+    isPaused: false,
+    pauses: [],
+    distractions: [],
+  };
+
+  if (timer.phase === "work") {
+    const isLongBreak = timer.currentSession % preset.sessionsBeforeLongBreak === 0;
+    const breakDuration = isLongBreak ? preset.longBreakMinutes : preset.breakMinutes;
+    return {
+      ...timer,
+      ...phaseStart,
+      phase: isLongBreak ? "longBreak" : "break",
+      totalDuration: breakDuration * 60,
+      currentSession: timer.currentSession + 1,
+    };
+  }
+
+  return { ...timer, ...phaseStart, phase: "work", totalDuration: preset.workMinutes * 60 };
+}
+
+// Presets are stored in user_settings.focus_preset as
+// { active_preset_id, presets: [{ id, name, work_minutes, ... }] }
+function mapPresetsFromDb(value: Json | null): { presets: NamedFocusPreset[]; activePresetId: string } | null {
+  if (!value || typeof value !== "object" || Array.isArray(value) || !Array.isArray(value.presets)) return null;
+
+  const presets = value.presets.flatMap((row) => {
+    if (!row || typeof row !== "object" || Array.isArray(row) || typeof row.id !== "string") return [];
+    const number = (v: Json | undefined, fallback: number) => (typeof v === "number" ? v : fallback);
+    return [{
+      id: row.id,
+      name: typeof row.name === "string" ? row.name : "Preset",
+      workMinutes: number(row.work_minutes, DEFAULT_PRESET.workMinutes),
+      breakMinutes: number(row.break_minutes, DEFAULT_PRESET.breakMinutes),
+      longBreakMinutes: number(row.long_break_minutes, DEFAULT_PRESET.longBreakMinutes),
+      sessionsBeforeLongBreak: number(row.sessions_before_long_break, DEFAULT_PRESET.sessionsBeforeLongBreak),
+      deepFocusMinutes: number(row.deep_focus_minutes, DEFAULT_PRESET.deepFocusMinutes),
+      flowCheckInMinutes: number(row.flow_check_in_minutes, 0),
+      autoStartBreaks: row.auto_start_breaks === true,
+      autoStartWork: row.auto_start_work === true,
+      breakWorkouts: row.break_workouts !== false,
+      alarmSound: (typeof row.alarm_sound === "string" ? row.alarm_sound : DEFAULT_PRESET.alarmSound) as FocusPreset["alarmSound"],
+      ambientSound: (typeof row.ambient_sound === "string" ? row.ambient_sound : "none") as FocusPreset["ambientSound"],
+      ambientVolumes: row.ambient_volumes && typeof row.ambient_volumes === "object" && !Array.isArray(row.ambient_volumes)
+        ? Object.fromEntries(Object.entries(row.ambient_volumes).filter((e): e is [string, number] => typeof e[1] === "number"))
+        : {},
+    }];
+  });
+  if (presets.length === 0) return null;
+
+  const activeId = typeof value.active_preset_id === "string" ? value.active_preset_id : "";
+  return { presets, activePresetId: presets.some((p) => p.id === activeId) ? activeId : presets[0].id };
+}
+
+function mapPresetsToDb(presets: NamedFocusPreset[], activePresetId: string): Json {
+  return {
+    active_preset_id: activePresetId,
+    presets: presets.map((p) => ({
+      id: p.id,
+      name: p.name,
+      work_minutes: p.workMinutes,
+      break_minutes: p.breakMinutes,
+      long_break_minutes: p.longBreakMinutes,
+      sessions_before_long_break: p.sessionsBeforeLongBreak,
+      deep_focus_minutes: p.deepFocusMinutes,
+      flow_check_in_minutes: p.flowCheckInMinutes ?? 0,
+      auto_start_breaks: p.autoStartBreaks,
+      auto_start_work: p.autoStartWork,
+      break_workouts: p.breakWorkouts ?? true,
+      alarm_sound: p.alarmSound,
+      ambient_sound: p.ambientSound ?? "none",
+      ambient_volumes: p.ambientVolumes ?? {},
+    })),
+  };
+}
+
+// Strip id and name so the active preset's values can be used as a FocusPreset
+const toFocusPreset = ({ id: _id, name: _name, ...values }: NamedFocusPreset): FocusPreset => values;
+
+// Preset edits come in bursts (+/- buttons), so cloud writes wait for a quiet second
+let presetSyncTimeout: ReturnType<typeof setTimeout> | undefined;
+
+function schedulePresetSync(presets: NamedFocusPreset[], activePresetId: string) {
+  clearTimeout(presetSyncTimeout);
+  presetSyncTimeout = setTimeout(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from("user_settings")
+        .upsert({ user_id: user.id, focus_preset: mapPresetsToDb(presets, activePresetId) }, { onConflict: "user_id" });
+
+      if (error) console.error("Error syncing focus presets:", error);
+    } catch (error) {
+      console.error("Error syncing focus presets:", error);
+    }
+  }, 1000);
+}
+
+function mapPausesToDb(pauses: FocusPause[]): Json {
+  return pauses.map((pause) => ({
+    paused_at: pause.pausedAt,
+    resumed_at: pause.resumedAt ?? null,
+    reason: pause.reason ?? null,
+  }));
+}
+
+// Live timer state shared through focus_timer_state.state
+function mapTimerToDb(timer: FocusTimer): Json {
+  return {
+    is_running: timer.isRunning,
+    is_paused: timer.isPaused,
+    mode: timer.mode,
+    phase: timer.phase,
+    start_timestamp: timer.startTimestamp,
+    paused_at: timer.pausedAt,
+    elapsed_before_pause: timer.elapsedBeforePause,
+    total_duration: timer.totalDuration,
+    current_session: timer.currentSession,
+    task: timer.task ?? null,
+    task_id: timer.taskId ?? null,
+    calendar_event_id: timer.calendarEventId ?? null,
+    pauses: mapPausesToDb(timer.pauses || []),
+    distractions: timer.distractions || [],
+  };
+}
+
+function mapTimerFromDb(state: Json): FocusTimer | null {
+  if (!state || typeof state !== "object" || Array.isArray(state) || typeof state.is_running !== "boolean") return null;
+  const number = (v: Json | undefined) => (typeof v === "number" ? v : null);
+  return {
+    isRunning: state.is_running,
+    isPaused: state.is_paused === true,
+    mode: (state.mode as FocusMode) || "pomodoro",
+    phase: (state.phase as FocusTimer["phase"]) || "work",
+    startTimestamp: number(state.start_timestamp),
+    pausedAt: number(state.paused_at),
+    elapsedBeforePause: number(state.elapsed_before_pause) ?? 0,
+    totalDuration: number(state.total_duration) ?? DEFAULT_PRESET.workMinutes * 60,
+    currentSession: number(state.current_session) ?? 1,
+    task: typeof state.task === "string" ? state.task : undefined,
+    taskId: typeof state.task_id === "string" ? state.task_id : undefined,
+    calendarEventId: typeof state.calendar_event_id === "string" ? state.calendar_event_id : undefined,
+    pauses: mapPausesFromDb(state.pauses) || [],
+    distractions: mapDistractionsFromDb(state.distractions) || [],
+  };
+}
+
+// Identifies this browser/app install so only one device acts on the shared timer
+const DEVICE_ID_KEY = "focushabit-device-id";
+
+function getDeviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = generateId();
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
 export const useFocusStore = create<FocusState>()(
   persist(
     (set, get) => ({
       sessions: [],
       timer: getInitialTimer(),
       preset: DEFAULT_PRESET,
+      presets: getDefaultPresets(),
+      activePresetId: DEFAULT_PRESET_ID,
       isLoading: false,
+      timerRevision: 0,
+      timerChangedAt: 0,
+      timerDeviceId: null,
+      timerSyncPending: false,
+      breakWorkout: null,
 
       fetchSessions: async () => {
         set({ isLoading: true });
@@ -87,16 +446,7 @@ export const useFocusStore = create<FocusState>()(
             return;
           }
 
-          const sessions: FocusSession[] = (data || []).map((row) => ({
-            id: row.id,
-            date: row.date,
-            startTime: row.start_time,
-            durationMinutes: row.duration_minutes,
-            mode: row.mode as "pomodoro" | "deepFocus",
-            task: row.task || undefined,
-            note: row.note || undefined,
-            completed: row.completed || false,
-          }));
+          const sessions = (data || []).map(mapSessionFromDb);
 
           set({ sessions, isLoading: false });
         } catch (error) {
@@ -105,9 +455,12 @@ export const useFocusStore = create<FocusState>()(
         }
       },
 
-      startTimer: (mode, task, customDuration) => {
+      startTimer: (mode, task, customDuration, taskId, calendarEventId) => {
         const { preset } = get();
-        const duration = customDuration ?? (mode === "pomodoro" ? preset.workMinutes * 60 : preset.deepFocusMinutes * 60);
+        // Flow sessions count up, so they have no duration to run down
+        const duration = mode === "flow"
+          ? 0
+          : customDuration ?? (mode === "pomodoro" ? preset.workMinutes * 60 : preset.deepFocusMinutes * 60);
         
         set({
           timer: {
@@ -121,11 +474,27 @@ export const useFocusStore = create<FocusState>()(
             totalDuration: duration,
             currentSession: 1,
             task,
+            taskId,
+            calendarEventId,
+            pauses: [],
+            distractions: [],
           },
         });
+
+        // Focusing on a task that hasn't been started moves it along
+        const linked = taskId ? useTaskStore.getState().tasks.find((t) => t.id === taskId) : undefined;
+        if (linked?.status === "todo") void useTaskStore.getState().updateTask(linked.id, { status: "inProgress" });
       },
 
-      pauseTimer: () => {
+      // A focus block starts a pomodoro cycle with its preset and task. Repeats
+      // of a recurring block link to the block itself
+      startFocusBlock: (block) => {
+        if (block.focusPresetId) get().selectPreset(block.focusPresetId);
+        const task = block.taskId ? useTaskStore.getState().tasks.find((t) => t.id === block.taskId) : undefined;
+        get().startTimer("pomodoro", task?.title ?? block.title, undefined, task?.id, block.parentEventId ?? block.id);
+      },
+
+      pauseTimer: (reason) => {
         const { timer } = get();
         if (!timer.isRunning || timer.isPaused) return;
 
@@ -140,6 +509,19 @@ export const useFocusStore = create<FocusState>()(
             isPaused: true,
             pausedAt: now,
             elapsedBeforePause: elapsed,
+            pauses: [...(timer.pauses || []), { pausedAt: now, reason }],
+          },
+        });
+      },
+
+      setPauseReason: (reason) => {
+        const { timer } = get();
+        if (!timer.isPaused) return;
+
+        set({
+          timer: {
+            ...timer,
+            pauses: (timer.pauses || []).map((p) => (p.resumedAt ? p : { ...p, reason })),
           },
         });
       },
@@ -154,82 +536,105 @@ export const useFocusStore = create<FocusState>()(
             isPaused: false,
             startTimestamp: Date.now(),
             pausedAt: null,
+            pauses: (timer.pauses || []).map((p) => (p.resumedAt ? p : { ...p, resumedAt: Date.now() })),
           },
         });
       },
 
+      markDistraction: () => {
+        const { timer } = get();
+        if (!timer.isRunning || timer.isPaused || timer.phase !== "work") return;
+
+        set({ timer: { ...timer, distractions: [...(timer.distractions || []), Date.now()] } });
+      },
+
       resetTimer: () => {
+        const { timer } = get();
+        get().endBreakWorkout();
+        const session = getWorkSession(timer, get().getElapsedTime(), false);
         set({ timer: getInitialTimer() });
+        if (session) void get().addSession(session);
       },
 
       completeSession: async (note) => {
         const { timer, preset } = get();
-        const elapsed = get().getElapsedTime();
-        const durationMinutes = Math.floor(elapsed / 60);
+        const session = getWorkSession(timer, get().getElapsedTime(), true, note);
+
+        get().endBreakWorkout();
 
         // Update timer state FIRST so UI responds immediately (fixes multiple Continue clicks)
-        // Handle pomodoro phases
-        if (timer.mode === "pomodoro" && timer.phase === "work") {
-          const nextSession = timer.currentSession + 1;
-          const isLongBreak = timer.currentSession % preset.sessionsBeforeLongBreak === 0;
-          const breakDuration = isLongBreak ? preset.longBreakMinutes : preset.breakMinutes;
-
-          set({
-            timer: {
-              ...timer,
-              phase: isLongBreak ? "longBreak" : "break",
-              totalDuration: breakDuration * 60,
-              startTimestamp: Date.now(),
-              elapsedBeforePause: 0,
-              isPaused: false,
-              currentSession: nextSession,
-            },
-          });
-        } else if (timer.mode === "pomodoro" && (timer.phase === "break" || timer.phase === "longBreak")) {
-          // Start next work session
-          set({
-            timer: {
-              ...timer,
-              phase: "work",
-              totalDuration: preset.workMinutes * 60,
-              startTimestamp: Date.now(),
-              elapsedBeforePause: 0,
-              isPaused: false,
-            },
-          });
-        } else {
-          // Deep focus - just reset
-          set({ timer: getInitialTimer() });
-        }
+        const next = getNextPhaseTimer(timer, preset);
+        set({ timer: next, breakWorkout: offerBreakWorkout(next, preset) });
 
         // Log the session to database (fire-and-forget, don't block UI)
-        if (durationMinutes > 0) {
-          void get().addSession({
-            date: getToday(),
-            startTime: timer.startTimestamp || Date.now(),
-            durationMinutes,
-            mode: timer.mode,
-            task: timer.task,
-            note,
-            completed: true,
-          });
-        }
+        if (session) void get().addSession(session);
+      },
+
+      skipSession: () => {
+        const { timer, preset } = get();
+        if (!timer.isRunning || timer.mode !== "pomodoro") return;
+
+        const session = getWorkSession(timer, get().getElapsedTime(), false);
+        get().endBreakWorkout();
+        const next = getNextPhaseTimer(timer, preset);
+        set({ timer: next, breakWorkout: offerBreakWorkout(next, preset) });
+        if (session) void get().addSession(session);
       },
 
       skipBreak: () => {
         const { timer, preset } = get();
         if (timer.phase !== "break" && timer.phase !== "longBreak") return;
 
-        set({
-          timer: {
-            ...timer,
-            phase: "work",
-            totalDuration: preset.workMinutes * 60,
-            startTimestamp: Date.now(),
-            elapsedBeforePause: 0,
-            isPaused: false,
-          },
-        });
+        get().endBreakWorkout();
+        set({ timer: getNextPhaseTimer(timer, preset) });
+      },
+
+      startBreakWorkout: () => {
+        const { breakWorkout } = get();
+        if (!breakWorkout || breakWorkout.startedAt !== null) return;
+        set({ breakWorkout: { ...breakWorkout, startedAt: get().getElapsedTime(), startedTimestamp: Date.now() } });
+      },
+
+      // Seconds into the workout; it follows the break timer, so pausing pauses both
+      getBreakWorkoutElapsed: () => {
+        const { breakWorkout } = get();
+        if (!breakWorkout || breakWorkout.startedAt === null) return 0;
+        return get().getElapsedTime() - breakWorkout.startedAt + breakWorkout.skippedSeconds;
+      },
+
+      // Finishes the current exercise early and moves on to its rest
+      advanceBreakWorkout: () => {
+        const { breakWorkout } = get();
+        if (!breakWorkout || breakWorkout.startedAt === null) return;
+
+        const elapsed = get().getBreakWorkoutElapsed();
+        const { index, isResting } = getBreakWorkoutPosition(breakWorkout.exercises, elapsed);
+        if (index >= breakWorkout.exercises.length) return;
+
+        // During a rest, skip to the start of the next exercise instead
+        const target = isResting
+          ? getBreakExerciseEnd(breakWorkout.exercises, index) + breakWorkout.exercises[index].rest
+          : getBreakExerciseEnd(breakWorkout.exercises, index);
+        set({ breakWorkout: { ...breakWorkout, skippedSeconds: breakWorkout.skippedSeconds + Math.max(0, target - elapsed) } });
+      },
+
+      recordBreakReps: (index, reps) => {
+        const { breakWorkout } = get();
+        if (!breakWorkout) return;
+        set({ breakWorkout: { ...breakWorkout, repCounts: { ...breakWorkout.repCounts, [index]: reps } } });
+      },
+
+      // Logs whatever was done (if anything) and clears the offer
+      endBreakWorkout: () => {
+        const { breakWorkout } = get();
+        if (!breakWorkout) return;
+
+        if (breakWorkout.startedAt !== null) {
+          const position = getBreakWorkoutPosition(breakWorkout.exercises, get().getBreakWorkoutElapsed());
+          const done = position.isResting ? position.index + 1 : position.index;
+          if (done > 0) void logBreakWorkout(breakWorkout, done);
+        }
+        set({ breakWorkout: null });
       },
 
       getTimeRemaining: () => {
@@ -256,10 +661,217 @@ export const useFocusStore = create<FocusState>()(
         return timer.elapsedBeforePause + sinceStart;
       },
 
+      fetchPresets: async () => {
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) return;
+
+          const { data, error } = await supabase
+            .from("user_settings")
+            .select("focus_preset")
+            .eq("user_id", user.id)
+            .maybeSingle();
+
+          if (error) {
+            console.error("Error fetching focus presets:", error);
+            return;
+          }
+
+          const synced = mapPresetsFromDb(data?.focus_preset ?? null);
+          if (!synced) {
+            // Nothing in the cloud yet: this device's presets become the synced ones
+            const { presets, activePresetId } = get();
+            schedulePresetSync(presets, activePresetId);
+            return;
+          }
+
+          const active = synced.presets.find((p) => p.id === synced.activePresetId) || synced.presets[0];
+          set({ ...synced, preset: toFocusPreset(active) });
+        } catch (error) {
+          console.error("Error fetching focus presets:", error);
+        }
+      },
+
+      isTimerOwner: () => {
+        const { timerDeviceId } = get();
+        return !timerDeviceId || timerDeviceId === getDeviceId();
+      },
+
+      fetchTimerState: async () => {
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) return;
+
+          const { data, error } = await supabase
+            .from("focus_timer_state")
+            .select("*")
+            .eq("user_id", user.id)
+            .maybeSingle();
+
+          if (error) {
+            console.error("Error fetching focus timer:", error);
+            return;
+          }
+
+          // Changes made offline go up first; the push settles any conflict
+          if (get().timerSyncPending || (!data && get().timer.isRunning)) {
+            void get().pushTimerState();
+          } else if (data) {
+            get().applyRemoteTimer(data);
+          }
+        } catch (error) {
+          console.error("Error fetching focus timer:", error);
+        }
+      },
+
+      // Writes are compare-and-swap on the last revision seen. If another device
+      // got there first, the later change (by changed_at) wins
+      pushTimerState: async () => {
+        try {
+          const { data: { user } } = await supabase.auth.getUser();
+          if (!user) return;
+
+          const deviceId = getDeviceId();
+          const changedAt = Date.now();
+          set({ timerChangedAt: changedAt, timerDeviceId: deviceId, timerSyncPending: true });
+
+          const payload = { state: mapTimerToDb(get().timer), device_id: deviceId, changed_at: changedAt };
+          const swap = (revision: number) => supabase
+            .from("focus_timer_state")
+            .update({ ...payload, revision: revision + 1 })
+            .eq("user_id", user.id)
+            .eq("revision", revision)
+            .select();
+
+          const { data, error } = await swap(get().timerRevision);
+          if (error) {
+            console.error("Error syncing focus timer:", error);
+            return;
+          }
+          if (data.length > 0) {
+            set({ timerRevision: data[0].revision, timerSyncPending: false });
+            return;
+          }
+
+          // Nothing matched: either there's no row yet or another device wrote first.
+          // Keep retrying against the latest row while other writes keep landing
+          for (let attempt = 1; ; attempt++) {
+            const { data: remote, error: fetchError } = await supabase
+              .from("focus_timer_state")
+              .select("*")
+              .eq("user_id", user.id)
+              .maybeSingle();
+
+            if (fetchError) {
+              console.error("Error syncing focus timer:", fetchError);
+              return;
+            }
+
+            if (!remote) {
+              const { data: inserted, error: insertError } = await supabase
+                .from("focus_timer_state")
+                .insert({ ...payload, user_id: user.id, revision: 1 })
+                .select()
+                .single();
+
+              if (insertError) {
+                console.error("Error syncing focus timer:", insertError);
+                return;
+              }
+              set({ timerRevision: inserted.revision, timerSyncPending: false });
+              return;
+            }
+
+            // Out of retries, the remote timer wins rather than leaving the push pending
+            if (remote.changed_at > changedAt || attempt > MAX_TIMER_SYNC_RETRIES) {
+              set({ timerSyncPending: false });
+              get().applyRemoteTimer(remote);
+              return;
+            }
+
+            const { data: retried, error: retryError } = await swap(remote.revision);
+            if (retryError) {
+              console.error("Error syncing focus timer:", retryError);
+              return;
+            }
+            if (retried.length > 0) {
+              set({ timerRevision: retried[0].revision, timerSyncPending: false });
+              return;
+            }
+          }
+        } catch (error) {
+          console.error("Error syncing focus timer:", error);
+        }
+      },
+
+      // Revisions only grow, so anything at or below the last one seen is an echo or stale
+      applyRemoteTimer: (row) => {
+        if (row.revision <= get().timerRevision) return;
+
+        // Our own push, echoed back before its response arrived: keep the timer
+        // as is, or the store subscriber would take it for a local change
+        if (row.device_id === getDeviceId() && row.changed_at === get().timerChangedAt) {
+          set({ timerRevision: row.revision, timerSyncPending: false });
+          return;
+        }
+
+        const timer = mapTimerFromDb(row.state);
+        if (!timer) return;
+
+        set({
+          timer,
+          timerRevision: row.revision,
+          timerChangedAt: row.changed_at,
+          timerDeviceId: row.device_id,
+        });
+      },
+
+      // Edits apply to the active preset
       updatePreset: (presetUpdates) => {
+        const { presets, activePresetId } = get();
+        const updated = presets.map((p) => (p.id === activePresetId ? { ...p, ...presetUpdates } : p));
         set((state) => ({
           preset: { ...state.preset, ...presetUpdates },
+          presets: updated,
         }));
+        schedulePresetSync(updated, activePresetId);
+      },
+
+      selectPreset: (id) => {
+        const { presets } = get();
+        const selected = presets.find((p) => p.id === id);
+        if (!selected) return;
+
+        set({ activePresetId: id, preset: toFocusPreset(selected) });
+        schedulePresetSync(presets, id);
+      },
+
+      // New presets start from the active preset's values and become active
+      addPreset: (name, values) => {
+        const { preset, presets } = get();
+        const created: NamedFocusPreset = { ...preset, ...values, id: generateId(), name };
+        const updated = [...presets, created];
+
+        set({ presets: updated, activePresetId: created.id, preset: toFocusPreset(created) });
+        schedulePresetSync(updated, created.id);
+        return created.id;
+      },
+
+      renamePreset: (id, name) => {
+        const { presets, activePresetId } = get();
+        const updated = presets.map((p) => (p.id === id ? { ...p, name } : p));
+        set({ presets: updated });
+        schedulePresetSync(updated, activePresetId);
+      },
+
+      deletePreset: (id) => {
+        const { presets, activePresetId } = get();
+        if (presets.length <= 1) return;
+
+        const updated = presets.filter((p) => p.id !== id);
+        const active = id === activePresetId ? updated[0] : updated.find((p) => p.id === activePresetId) || updated[0];
+        set({ presets: updated, activePresetId: active.id, preset: toFocusPreset(active) });
+        schedulePresetSync(updated, active.id);
       },
 
       addSession: async (sessionData) => {
@@ -276,8 +888,12 @@ export const useFocusStore = create<FocusState>()(
               duration_minutes: sessionData.durationMinutes,
               mode: sessionData.mode,
               task: sessionData.task || null,
+              task_id: sessionData.taskId || null,
+              calendar_event_id: sessionData.calendarEventId || null,
               note: sessionData.note || null,
               completed: sessionData.completed,
+              pauses: sessionData.pauses ? mapPausesToDb(sessionData.pauses) : null,
+              distractions: sessionData.distractions ?? null,
             })
             .select()
             .single();
@@ -287,24 +903,62 @@ export const useFocusStore = create<FocusState>()(
             return;
           }
 
-          const newSession: FocusSession = {
-            id: data.id,
-            date: data.date,
-            startTime: data.start_time,
-            durationMinutes: data.duration_minutes,
-            mode: data.mode as "pomodoro" | "deepFocus",
-            task: data.task || undefined,
-            note: data.note || undefined,
-            completed: data.completed || false,
-          };
+          const newSession = mapSessionFromDb(data);
 
           set((state) => ({ sessions: [...state.sessions, newSession] }));
+
+          // Abandoned sessions don't count toward goals
+          void countSession(newSession, 1);
         } catch (error) {
           console.error("Error adding focus session:", error);
         }
       },
 
+      updateSession: async (id, updates) => {
+        const existing = get().sessions.find((s) => s.id === id);
+        if (!existing) return;
+
+        // The session's day follows its start time
+        const updated = { ...existing, ...updates };
+        updated.date = format(new Date(updated.startTime), "yyyy-MM-dd");
+
+        try {
+          const { data, error } = await supabase
+            .from("focus_sessions")
+            .update({
+              date: updated.date,
+              start_time: updated.startTime,
+              duration_minutes: updated.durationMinutes,
+              mode: updated.mode,
+              task: updated.task || null,
+              task_id: updated.taskId || null,
+              note: updated.note || null,
+              completed: updated.completed,
+            })
+            .eq("id", id)
+            .select()
+            .single();
+
+          if (error) {
+            console.error("Error updating focus session:", error);
+            return;
+          }
+
+          const saved = mapSessionFromDb(data);
+          set((state) => ({
+            sessions: state.sessions.map((s) => (s.id === id ? saved : s)),
+          }));
+
+          // Move habit progress and task pomodoros over to the edited session
+          await countSession(existing, -1);
+          await countSession(saved, 1);
+        } catch (error) {
+          console.error("Error updating focus session:", error);
+        }
+      },
+
       deleteSession: async (id) => {
+        const existing = get().sessions.find((s) => s.id === id);
         try {
           const { error } = await supabase.from("focus_sessions").delete().eq("id", id);
 
@@ -316,6 +970,7 @@ export const useFocusStore = create<FocusState>()(
           set((state) => ({
             sessions: state.sessions.filter((s) => s.id !== id),
           }));
+          if (existing) void countSession(existing, -1);
         } catch (error) {
           console.error("Error deleting focus session:", error);
         }
@@ -326,7 +981,14 @@ export const useFocusStore = create<FocusState>()(
       },
 
       clearAllData: () => {
-        set({ sessions: [], timer: getInitialTimer() });
+        set({
+          sessions: [],
+          timer: getInitialTimer(),
+          timerRevision: 0,
+          timerChangedAt: 0,
+          timerDeviceId: null,
+          timerSyncPending: false,
+        });
       },
     }),
     {
@@ -334,7 +996,29 @@ export const useFocusStore = create<FocusState>()(
       partialize: (state) => ({
         timer: state.timer,
         preset: state.preset,
+        presets: state.presets,
+        activePresetId: state.activePresetId,
+        timerRevision: state.timerRevision,
+        timerChangedAt: state.timerChangedAt,
+        timerDeviceId: state.timerDeviceId,
+        timerSyncPending: state.timerSyncPending,
       }),
+      version: 1,
+      // v0 kept a single unnamed preset; it becomes the first named one
+      migrate: (persisted, version) => {
+        const state = persisted as Pick<
+          FocusState,
+          "timer" | "preset" | "presets" | "activePresetId" | "timerRevision" | "timerChangedAt" | "timerDeviceId" | "timerSyncPending"
+        >;
+        if (version === 0 && state.preset) {
+          return {
+            ...state,
+            presets: [{ ...DEFAULT_PRESET, ...state.preset, id: DEFAULT_PRESET_ID, name: "My preset" }],
+            activePresetId: DEFAULT_PRESET_ID,
+          };
+        }
+        return state;
+      },
     }
   )
 );
@@ -1,11 +1,21 @@
 import { create } from "zustand";
 import { supabase } from "@/integrations/supabase/client";
-import type { Habit, HabitLog, HabitFilter, HabitSchedule } from "@/types";
-import { getToday } from "@/lib/utils";
+import { format, subDays } from "date-fns";
+import type {
+  FocusSession, Habit, HabitCategory, HabitLog, HabitLogStatus, HabitFilter, HabitPause, HabitSchedule, Routine,
+  RoutineStep,
+} from "@/types";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import {
+  getToday, isFutureDate, isHabitDueOnDate, getFreezesRemaining, getProgressStatus, isFocusSessionLinkedToHabit,
+} from "@/lib/utils";
 
 interface HabitState {
   habits: Habit[];
   logs: HabitLog[];
+  pauses: HabitPause[];
+  categories: HabitCategory[];
+  routines: Routine[];
   filter: HabitFilter;
   isLoading: boolean;
   
@@ -16,13 +26,42 @@ interface HabitState {
   deleteHabit: (id: string) => Promise<void>;
   archiveHabit: (id: string) => Promise<void>;
   unarchiveHabit: (id: string) => Promise<void>;
+  reorderHabits: (orderedIds: string[]) => Promise<void>;
+  importHabits: (habits: Omit<Habit, "id" | "createdAt">[]) => Promise<void>;
   
   // Logs
   logHabit: (habitId: string, status: "done" | "skipped", value?: number, note?: string) => Promise<void>;
+  logHabitForDate: (habitId: string, date: string, status: HabitLogStatus, value?: number, note?: string) => Promise<void>;
+  clearHabitLog: (habitId: string, date: string) => Promise<void>;
+  spendFreeze: (habitId: string, date: string) => Promise<void>;
+  logSlip: (habitId: string, date: string, note?: string) => Promise<void>;
+  setHabitValue: (habitId: string, date: string, value: number) => Promise<void>;
+  addHabitProgress: (habitId: string, date: string, amount: number) => Promise<void>;
+  addFocusSessionProgress: (session: FocusSession) => Promise<void>;
+  removeFocusSessionProgress: (session: FocusSession) => Promise<void>;
   updateLog: (logId: string, updates: Partial<HabitLog>) => Promise<void>;
   deleteLog: (logId: string) => Promise<void>;
+  importLogs: (logs: Omit<HabitLog, "id" | "timestamp">[]) => Promise<void>;
   getLogForDate: (habitId: string, date: string) => HabitLog | undefined;
   
+  // Pauses & vacation mode
+  addPause: (pause: Omit<HabitPause, "id">) => Promise<void>;
+  endPause: (id: string) => Promise<void>;
+  deletePause: (id: string) => Promise<void>;
+  startVacation: (reason?: string) => Promise<void>;
+  endVacation: () => Promise<void>;
+  getVacation: () => HabitPause | undefined;
+
+  // Categories
+  addCategory: (category: Omit<HabitCategory, "id" | "sortOrder">) => Promise<void>;
+  updateCategory: (id: string, updates: Partial<HabitCategory>) => Promise<void>;
+  deleteCategory: (id: string) => Promise<void>;
+
+  // Routines
+  addRoutine: (routine: Omit<Routine, "id" | "sortOrder">) => Promise<void>;
+  updateRoutine: (id: string, updates: Partial<Routine>) => Promise<void>;
+  deleteRoutine: (id: string) => Promise<void>;
+  
   // Filter
   setFilter: (filter: HabitFilter) => void;
   
@@ -37,6 +76,10 @@ function mapScheduleType(dbType: string): HabitSchedule["type"] {
     case "weekdays": return "weekdays";
     case "specific": return "customDays";
     case "weekly": return "timesPerWeek";
+    case "interval": return "interval";
+    case "monthly_days": return "monthlyDays";
+    case "monthly_weekday": return "monthlyWeekday";
+    case "monthly": return "timesPerMonth";
     default: return "daily";
   }
 }
@@ -45,16 +88,181 @@ function mapScheduleType(dbType: string): HabitSchedule["type"] {
 function mapScheduleTypeToDb(type: HabitSchedule["type"]): string {
   switch (type) {
     case "daily": return "daily";
-    case "weekdays": return "daily"; // Store as daily, weekdays determined by daysOfWeek
+    case "weekdays": return "weekdays";
     case "customDays": return "specific";
     case "timesPerWeek": return "weekly";
+    case "interval": return "interval";
+    case "monthlyDays": return "monthly_days";
+    case "monthlyWeekday": return "monthly_weekday";
+    case "timesPerMonth": return "monthly";
     default: return "daily";
   }
 }
 
+function mapScheduleFromDb(row: {
+  schedule_type: string;
+  schedule_days_of_week: number[] | null;
+  schedule_times_per_week: number | null;
+  schedule_interval_days: number | null;
+  schedule_start_date: string | null;
+  schedule_days_of_month: number[] | null;
+  schedule_week_of_month: number | null;
+  schedule_times_per_month: number | null;
+}): HabitSchedule {
+  return {
+    type: mapScheduleType(row.schedule_type),
+    daysOfWeek: row.schedule_days_of_week || undefined,
+    timesPerWeek: row.schedule_times_per_week || undefined,
+    intervalDays: row.schedule_interval_days || undefined,
+    startDate: row.schedule_start_date || undefined,
+    daysOfMonth: row.schedule_days_of_month || undefined,
+    weekOfMonth: row.schedule_week_of_month || undefined,
+    timesPerMonth: row.schedule_times_per_month || undefined,
+  };
+}
+
+function mapScheduleToDb(schedule: HabitSchedule) {
+  return {
+    schedule_type: mapScheduleTypeToDb(schedule.type),
+    schedule_days_of_week: schedule.daysOfWeek || null,
+    schedule_times_per_week: schedule.timesPerWeek || null,
+    schedule_interval_days: schedule.intervalDays || null,
+    schedule_start_date: schedule.startDate || null,
+    schedule_days_of_month: schedule.daysOfMonth || null,
+    schedule_week_of_month: schedule.weekOfMonth || null,
+    schedule_times_per_month: schedule.timesPerMonth || null,
+  };
+}
+
+// reminder_time predates multiple reminders and mirrors the first time for older clients
+function mapReminderTimesFromDb(row: {
+  reminder_time: string | null;
+  reminder_times: string[] | null;
+}): string[] | undefined {
+  const times = row.reminder_times?.length ? row.reminder_times : row.reminder_time ? [row.reminder_time] : [];
+  return times.length > 0 ? times : undefined;
+}
+
+function mapReminderTimesToDb(times: string[] | undefined) {
+  const sorted = [...new Set(times || [])].sort();
+  return {
+    reminder_times: sorted.length > 0 ? sorted : null,
+    reminder_time: sorted[0] || null,
+  };
+}
+
+function mapFocusLinkFromDb(row: {
+  focus_link_keyword: string | null;
+  focus_link_mode: string | null;
+}): Habit["focusLink"] {
+  if (!row.focus_link_keyword && !row.focus_link_mode) return undefined;
+  return {
+    keyword: row.focus_link_keyword || undefined,
+    mode: (row.focus_link_mode as FocusSession["mode"]) || undefined,
+  };
+}
+
+function mapHabitFromDb(row: Tables<"habits">): Habit {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || undefined,
+    color: row.color || "#F59E0B",
+    kind: row.kind as Habit["kind"],
+    goalType: row.goal_type as Habit["goalType"],
+    goalTarget: row.goal_target || undefined,
+    freezesPerMonth: row.freezes_per_month || 0,
+    focusLink: mapFocusLinkFromDb(row),
+    schedule: mapScheduleFromDb(row),
+    reminderTimes: mapReminderTimesFromDb(row),
+    createdAt: new Date(row.created_at).getTime(),
+    archived: row.archived || false,
+    categoryId: row.category_id || undefined,
+    sortOrder: row.sort_order,
+  };
+}
+
+function mapLogFromDb(row: Tables<"habit_logs">): HabitLog {
+  return {
+    id: row.id,
+    habitId: row.habit_id,
+    date: row.date,
+    status: row.status as HabitLogStatus,
+    value: row.value || undefined,
+    note: row.note || undefined,
+    timestamp: row.timestamp,
+  };
+}
+
+function mapCategoryFromDb(row: {
+  id: string;
+  name: string;
+  color: string;
+  icon: string | null;
+  sort_order: number;
+}): HabitCategory {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    icon: row.icon || undefined,
+    sortOrder: row.sort_order,
+  };
+}
+
+// Routine steps are stored as a JSON array of { habit_id, duration_minutes }
+function mapRoutineFromDb(row: {
+  id: string;
+  name: string;
+  section: string;
+  steps: Json;
+  sort_order: number;
+}): Routine {
+  const steps = Array.isArray(row.steps) ? row.steps : [];
+  return {
+    id: row.id,
+    name: row.name,
+    section: row.section as Routine["section"],
+    steps: steps.flatMap((step) => {
+      if (!step || typeof step !== "object" || Array.isArray(step) || typeof step.habit_id !== "string") return [];
+      return [{
+        habitId: step.habit_id,
+        durationMinutes: typeof step.duration_minutes === "number" ? step.duration_minutes : undefined,
+      }];
+    }),
+    sortOrder: row.sort_order,
+  };
+}
+
+function mapRoutineStepsToDb(steps: RoutineStep[]): Json {
+  return steps.map((step) => ({
+    habit_id: step.habitId,
+    duration_minutes: step.durationMinutes ?? null,
+  }));
+}
+
+function mapPauseFromDb(row: {
+  id: string;
+  habit_id: string | null;
+  start_date: string;
+  end_date: string | null;
+  reason: string | null;
+}): HabitPause {
+  return {
+    id: row.id,
+    habitId: row.habit_id || undefined,
+    startDate: row.start_date,
+    endDate: row.end_date || undefined,
+    reason: row.reason || undefined,
+  };
+}
+
 export const useHabitStore = create<HabitState>((set, get) => ({
   habits: [],
   logs: [],
+  pauses: [],
+  categories: [],
+  routines: [],
   filter: "today",
   isLoading: false,
 
@@ -67,10 +275,11 @@ export const useHabitStore = create<HabitState>((set, get) => ({
         return;
       }
 
-      // Fetch habits
+      // Fetch habits in their manual order; new habits get a lower sort_order to land on top
       const { data: habitsData, error: habitsError } = await supabase
         .from("habits")
         .select("*")
+        .order("sort_order", { ascending: true })
         .order("created_at", { ascending: false });
 
       if (habitsError) {
@@ -91,34 +300,51 @@ export const useHabitStore = create<HabitState>((set, get) => ({
         return;
       }
 
-      const habits: Habit[] = (habitsData || []).map((row) => ({
-        id: row.id,
-        name: row.name,
-        description: row.description || undefined,
-        color: row.color || "#F59E0B",
-        goalType: row.goal_type as "check" | "count",
-        goalTarget: row.goal_target || undefined,
-        schedule: {
-          type: mapScheduleType(row.schedule_type),
-          daysOfWeek: row.schedule_days_of_week || undefined,
-          timesPerWeek: row.schedule_times_per_week || undefined,
-        },
-        reminderTime: row.reminder_time || undefined,
-        createdAt: new Date(row.created_at).getTime(),
-        archived: row.archived || false,
-      }));
+      // Fetch pauses
+      const { data: pausesData, error: pausesError } = await supabase
+        .from("habit_pauses")
+        .select("*")
+        .order("start_date", { ascending: false });
 
-      const logs: HabitLog[] = (logsData || []).map((row) => ({
-        id: row.id,
-        habitId: row.habit_id,
-        date: row.date,
-        status: row.status as "done" | "skipped",
-        value: row.value || undefined,
-        note: row.note || undefined,
-        timestamp: row.timestamp,
-      }));
+      if (pausesError) {
+        console.error("Error fetching habit pauses:", pausesError);
+        set({ isLoading: false });
+        return;
+      }
 
-      set({ habits, logs, isLoading: false });
+      // Fetch categories
+      const { data: categoriesData, error: categoriesError } = await supabase
+        .from("habit_categories")
+        .select("*")
+        .order("sort_order", { ascending: true });
+
+      if (categoriesError) {
+        console.error("Error fetching habit categories:", categoriesError);
+        set({ isLoading: false });
+        return;
+      }
+
+      // Fetch routines
+      const { data: routinesData, error: routinesError } = await supabase
+        .from("habit_routines")
+        .select("*")
+        .order("sort_order", { ascending: true });
+
+      if (routinesError) {
+        console.error("Error fetching habit routines:", routinesError);
+        set({ isLoading: false });
+        return;
+      }
+
+      const habits = (habitsData || []).map(mapHabitFromDb);
+
+      const logs = (logsData || []).map(mapLogFromDb);
+
+      const pauses = (pausesData || []).map(mapPauseFromDb);
+      const categories = (categoriesData || []).map(mapCategoryFromDb);
+      const routines = (routinesData || []).map(mapRoutineFromDb);
+
+      set({ habits, logs, pauses, categories, routines, isLoading: false });
     } catch (error) {
       console.error("Error fetching habits:", error);
       set({ isLoading: false });
@@ -130,19 +356,25 @@ export const useHabitStore = create<HabitState>((set, get) => ({
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      const topSortOrder = Math.min(0, ...get().habits.map((h) => h.sortOrder ?? 0));
+
       const { data, error } = await supabase
         .from("habits")
         .insert({
           user_id: user.id,
+          category_id: habitData.categoryId || null,
+          sort_order: topSortOrder - 1,
           name: habitData.name,
           description: habitData.description || null,
           color: habitData.color || "#F59E0B",
+          kind: habitData.kind || "build",
           goal_type: habitData.goalType,
           goal_target: habitData.goalTarget || null,
-          schedule_type: mapScheduleTypeToDb(habitData.schedule.type),
-          schedule_days_of_week: habitData.schedule.daysOfWeek || null,
-          schedule_times_per_week: habitData.schedule.timesPerWeek || null,
-          reminder_time: habitData.reminderTime || null,
+          freezes_per_month: habitData.freezesPerMonth || 0,
+          focus_link_keyword: habitData.focusLink?.keyword || null,
+          focus_link_mode: habitData.focusLink?.mode || null,
+          ...mapScheduleToDb(habitData.schedule),
+          ...mapReminderTimesToDb(habitData.reminderTimes),
         })
         .select()
         .single();
@@ -152,22 +384,7 @@ export const useHabitStore = create<HabitState>((set, get) => ({
         return;
       }
 
-      const newHabit: Habit = {
-        id: data.id,
-        name: data.name,
-        description: data.description || undefined,
-        color: data.color || "#F59E0B",
-        goalType: data.goal_type as "check" | "count",
-        goalTarget: data.goal_target || undefined,
-        schedule: {
-          type: mapScheduleType(data.schedule_type),
-          daysOfWeek: data.schedule_days_of_week || undefined,
-          timesPerWeek: data.schedule_times_per_week || undefined,
-        },
-        reminderTime: data.reminder_time || undefined,
-        createdAt: new Date(data.created_at).getTime(),
-        archived: data.archived || false,
-      };
+      const newHabit = mapHabitFromDb(data);
 
       set((state) => ({ habits: [newHabit, ...state.habits] }));
     } catch (error) {
@@ -175,6 +392,47 @@ export const useHabitStore = create<HabitState>((set, get) => ({
     }
   },
 
+  // Bulk insert, e.g. from a CSV import; imported habits land below existing ones
+  importHabits: async (habits) => {
+    if (habits.length === 0) return;
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const bottomSortOrder = Math.max(0, ...get().habits.map((h) => h.sortOrder ?? 0));
+
+      const { data, error } = await supabase
+        .from("habits")
+        .insert(habits.map((habit, i) => ({
+          user_id: user.id,
+          category_id: habit.categoryId || null,
+          sort_order: bottomSortOrder + i + 1,
+          name: habit.name,
+          description: habit.description || null,
+          color: habit.color || "#F59E0B",
+          kind: habit.kind || "build",
+          archived: habit.archived,
+          goal_type: habit.goalType,
+          goal_target: habit.goalTarget || null,
+          freezes_per_month: habit.freezesPerMonth || 0,
+          focus_link_keyword: habit.focusLink?.keyword || null,
+          focus_link_mode: habit.focusLink?.mode || null,
+          ...mapScheduleToDb(habit.schedule),
+          ...mapReminderTimesToDb(habit.reminderTimes),
+        })))
+        .select();
+
+      if (error) {
+        console.error("Error importing habits:", error);
+        return;
+      }
+
+      set((state) => ({ habits: [...state.habits, ...(data || []).map(mapHabitFromDb)] }));
+    } catch (error) {
+      console.error("Error importing habits:", error);
+    }
+  },
+
   updateHabit: async (id, updates) => {
     try {
       const dbUpdates: Record<string, unknown> = {};
@@ -183,13 +441,18 @@ export const useHabitStore = create<HabitState>((set, get) => ({
       if (updates.color !== undefined) dbUpdates.color = updates.color;
       if (updates.goalType !== undefined) dbUpdates.goal_type = updates.goalType;
       if (updates.goalTarget !== undefined) dbUpdates.goal_target = updates.goalTarget || null;
+      if (updates.freezesPerMonth !== undefined) dbUpdates.freezes_per_month = updates.freezesPerMonth;
+      if (updates.kind !== undefined) dbUpdates.kind = updates.kind;
+      if (updates.focusLink !== undefined) {
+        dbUpdates.focus_link_keyword = updates.focusLink?.keyword || null;
+        dbUpdates.focus_link_mode = updates.focusLink?.mode || null;
+      }
       if (updates.schedule !== undefined) {
-        dbUpdates.schedule_type = mapScheduleTypeToDb(updates.schedule.type);
-        dbUpdates.schedule_days_of_week = updates.schedule.daysOfWeek || null;
-        dbUpdates.schedule_times_per_week = updates.schedule.timesPerWeek || null;
+        Object.assign(dbUpdates, mapScheduleToDb(updates.schedule));
       }
-      if (updates.reminderTime !== undefined) dbUpdates.reminder_time = updates.reminderTime || null;
+      if (updates.reminderTimes !== undefined) Object.assign(dbUpdates, mapReminderTimesToDb(updates.reminderTimes));
       if (updates.archived !== undefined) dbUpdates.archived = updates.archived;
+      if (updates.categoryId !== undefined) dbUpdates.category_id = updates.categoryId || null;
 
       const { error } = await supabase
         .from("habits")
@@ -224,6 +487,13 @@ export const useHabitStore = create<HabitState>((set, get) => ({
         habits: state.habits.filter((h) => h.id !== id),
         logs: state.logs.filter((l) => l.habitId !== id),
       }));
+
+      // Drop the habit from any routine that included it
+      for (const routine of get().routines) {
+        if (routine.steps.some((step) => step.habitId === id)) {
+          await get().updateRoutine(routine.id, { steps: routine.steps.filter((step) => step.habitId !== id) });
+        }
+      }
     } catch (error) {
       console.error("Error deleting habit:", error);
     }
@@ -237,14 +507,53 @@ export const useHabitStore = create<HabitState>((set, get) => ({
     await get().updateHabit(id, { archived: false });
   },
 
+  // Reorders the given habits among the slots they already occupy, so a single
+  // category (or any subset) can be reordered without moving other habits
+  reorderHabits: async (orderedIds) => {
+    const habits = get().habits;
+    const queue = orderedIds.filter((id) => habits.some((h) => h.id === id));
+    const moved = new Set(queue);
+    const reordered = habits.map((h) =>
+      moved.has(h.id) ? habits.find((m) => m.id === queue.shift())! : h
+    );
+
+    const changed = reordered
+      .map((h, index) => ({ habit: h, index }))
+      .filter(({ habit, index }) => habit.sortOrder !== index);
+    if (changed.length === 0) return;
+
+    set({ habits: reordered.map((h, index) => ({ ...h, sortOrder: index })) });
+
+    try {
+      const results = await Promise.all(
+        changed.map(({ habit, index }) =>
+          supabase.from("habits").update({ sort_order: index }).eq("id", habit.id)
+        )
+      );
+
+      const failed = results.find((r) => r.error);
+      if (failed) console.error("Error reordering habits:", failed.error);
+    } catch (error) {
+      console.error("Error reordering habits:", error);
+    }
+  },
+
   logHabit: async (habitId, status, value, note) => {
+    await get().logHabitForDate(habitId, getToday(), status, value, note);
+  },
+
+  logHabitForDate: async (habitId, date, status, value, note) => {
+    if (isFutureDate(date)) {
+      console.error("Cannot log habit for a future date:", date);
+      return;
+    }
+
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const today = getToday();
       const existingLog = get().logs.find(
-        (l) => l.habitId === habitId && l.date === today
+        (l) => l.habitId === habitId && l.date === date
       );
 
       if (existingLog) {
@@ -278,7 +587,7 @@ export const useHabitStore = create<HabitState>((set, get) => ({
           .insert({
             user_id: user.id,
             habit_id: habitId,
-            date: today,
+            date,
             status,
             value: value || null,
             note: note || null,
@@ -291,15 +600,7 @@ export const useHabitStore = create<HabitState>((set, get) => ({
           return;
         }
 
-        const newLog: HabitLog = {
-          id: data.id,
-          habitId: data.habit_id,
-          date: data.date,
-          status: data.status as "done" | "skipped",
-          value: data.value || undefined,
-          note: data.note || undefined,
-          timestamp: data.timestamp,
-        };
+        const newLog = mapLogFromDb(data);
 
         set((state) => ({ logs: [...state.logs, newLog] }));
       }
@@ -308,6 +609,15 @@ export const useHabitStore = create<HabitState>((set, get) => ({
     }
   },
 
+  clearHabitLog: async (habitId, date) => {
+    const existingLog = get().logs.find(
+      (l) => l.habitId === habitId && l.date === date
+    );
+    if (!existingLog) return;
+
+    await get().deleteLog(existingLog.id);
+  },
+
   updateLog: async (logId, updates) => {
     try {
       const dbUpdates: Record<string, unknown> = {};
@@ -352,15 +662,377 @@ export const useHabitStore = create<HabitState>((set, get) => ({
     }
   },
 
+  // Bulk insert; logs for a habit and date that already has one are skipped
+  importLogs: async (logs) => {
+    const existing = new Set(get().logs.map((l) => `${l.habitId}|${l.date}`));
+    const fresh = logs.filter((l) => !existing.has(`${l.habitId}|${l.date}`) && !isFutureDate(l.date));
+    if (fresh.length === 0) return;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("habit_logs")
+        .insert(fresh.map((log) => ({
+          user_id: user.id,
+          habit_id: log.habitId,
+          date: log.date,
+          status: log.status,
+          value: log.value || null,
+          note: log.note || null,
+        })))
+        .select();
+
+      if (error) {
+        console.error("Error importing habit logs:", error);
+        return;
+      }
+
+      set((state) => ({ logs: [...state.logs, ...(data || []).map(mapLogFromDb)] }));
+    } catch (error) {
+      console.error("Error importing habit logs:", error);
+    }
+  },
+
   getLogForDate: (habitId, date) => {
     return get().logs.find((l) => l.habitId === habitId && l.date === date);
   },
 
+  spendFreeze: async (habitId, date) => {
+    const habit = get().habits.find((h) => h.id === habitId);
+    if (!habit) return;
+
+    if (date >= getToday()) {
+      console.error("Freezes can only cover past days:", date);
+      return;
+    }
+
+    const existingLog = get().getLogForDate(habitId, date);
+    if (existingLog?.status === "done" || existingLog?.status === "frozen") return;
+
+    const dateObj = new Date(date + "T12:00:00");
+    if (!isHabitDueOnDate(habit, dateObj, get().pauses)) return;
+
+    if (getFreezesRemaining(habit, get().logs, dateObj) <= 0) {
+      console.error("No streak freezes left for this month:", habitId);
+      return;
+    }
+
+    await get().logHabitForDate(habitId, date, "frozen", undefined, existingLog?.note);
+  },
+
+  // Repeated slips on the same day add up in the log's value
+  logSlip: async (habitId, date, note) => {
+    const existingLog = get().getLogForDate(habitId, date);
+    const slips = existingLog?.status === "slipped" ? (existingLog.value || 1) + 1 : 1;
+    await get().logHabitForDate(habitId, date, "slipped", slips, note || existingLog?.note);
+  },
+
+  setHabitValue: async (habitId, date, value) => {
+    const habit = get().habits.find((h) => h.id === habitId);
+    if (!habit) return;
+
+    const existingLog = get().getLogForDate(habitId, date);
+    await get().logHabitForDate(habitId, date, getProgressStatus(habit, value), value, existingLog?.note);
+  },
+
+  addHabitProgress: async (habitId, date, amount) => {
+    const existingLog = get().getLogForDate(habitId, date);
+    const hasProgress = existingLog?.status === "done" || existingLog?.status === "partial";
+    const value = (hasProgress ? existingLog.value || 0 : 0) + amount;
+
+    // A day already marked done stays done even if its recorded value is below target
+    if (existingLog?.status === "done") {
+      await get().logHabitForDate(habitId, date, "done", value, existingLog.note);
+      return;
+    }
+
+    await get().setHabitValue(habitId, date, value);
+  },
+
+  addFocusSessionProgress: async (session) => {
+    if (!session.completed || session.durationMinutes <= 0) return;
+
+    const linkedHabits = get().habits.filter((h) => isFocusSessionLinkedToHabit(h, session));
+    for (const habit of linkedHabits) {
+      await get().addHabitProgress(habit.id, session.date, session.durationMinutes);
+    }
+  },
+
+  // Takes back what addFocusSessionProgress added, for edited or deleted sessions
+  removeFocusSessionProgress: async (session) => {
+    if (!session.completed || session.durationMinutes <= 0) return;
+
+    const linkedHabits = get().habits.filter((h) => isFocusSessionLinkedToHabit(h, session));
+    for (const habit of linkedHabits) {
+      const existingLog = get().getLogForDate(habit.id, session.date);
+      if (existingLog?.status !== "done" && existingLog?.status !== "partial") continue;
+
+      const value = Math.max(0, (existingLog.value || 0) - session.durationMinutes);
+      // A day checked off by hand below target stays done, like in addHabitProgress
+      if (existingLog.status === "done" && (existingLog.value || 0) < (habit.goalTarget || 1)) {
+        await get().logHabitForDate(habit.id, session.date, "done", value, existingLog.note);
+      } else if (value === 0) {
+        await get().clearHabitLog(habit.id, session.date);
+      } else {
+        await get().setHabitValue(habit.id, session.date, value);
+      }
+    }
+  },
+
+  addPause: async (pause) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("habit_pauses")
+        .insert({
+          user_id: user.id,
+          habit_id: pause.habitId || null,
+          start_date: pause.startDate,
+          end_date: pause.endDate || null,
+          reason: pause.reason || null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error("Error adding habit pause:", error);
+        return;
+      }
+
+      set((state) => ({ pauses: [mapPauseFromDb(data), ...state.pauses] }));
+    } catch (error) {
+      console.error("Error adding habit pause:", error);
+    }
+  },
+
+  // Ending a pause keeps the days already paused neutral and makes today due again
+  endPause: async (id) => {
+    const pause = get().pauses.find((p) => p.id === id);
+    if (!pause) return;
+
+    const yesterday = format(subDays(new Date(), 1), "yyyy-MM-dd");
+    if (pause.startDate > yesterday) {
+      await get().deletePause(id);
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("habit_pauses")
+        .update({ end_date: yesterday })
+        .eq("id", id);
+
+      if (error) {
+        console.error("Error ending habit pause:", error);
+        return;
+      }
+
+      set((state) => ({
+        pauses: state.pauses.map((p) =>
+          p.id === id ? { ...p, endDate: yesterday } : p
+        ),
+      }));
+    } catch (error) {
+      console.error("Error ending habit pause:", error);
+    }
+  },
+
+  deletePause: async (id) => {
+    try {
+      const { error } = await supabase.from("habit_pauses").delete().eq("id", id);
+
+      if (error) {
+        console.error("Error deleting habit pause:", error);
+        return;
+      }
+
+      set((state) => ({
+        pauses: state.pauses.filter((p) => p.id !== id),
+      }));
+    } catch (error) {
+      console.error("Error deleting habit pause:", error);
+    }
+  },
+
+  startVacation: async (reason) => {
+    if (get().getVacation()) return;
+    await get().addPause({ startDate: getToday(), reason });
+  },
+
+  endVacation: async () => {
+    const vacation = get().getVacation();
+    if (!vacation) return;
+    await get().endPause(vacation.id);
+  },
+
+  getVacation: () => {
+    const today = getToday();
+    return get().pauses.find((p) =>
+      !p.habitId && p.startDate <= today && (!p.endDate || today <= p.endDate)
+    );
+  },
+
+  addCategory: async (category) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const nextSortOrder = Math.max(-1, ...get().categories.map((c) => c.sortOrder)) + 1;
+
+      const { data, error } = await supabase
+        .from("habit_categories")
+        .insert({
+          user_id: user.id,
+          name: category.name,
+          color: category.color,
+          icon: category.icon || null,
+          sort_order: nextSortOrder,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error("Error adding habit category:", error);
+        return;
+      }
+
+      set((state) => ({ categories: [...state.categories, mapCategoryFromDb(data)] }));
+    } catch (error) {
+      console.error("Error adding habit category:", error);
+    }
+  },
+
+  updateCategory: async (id, updates) => {
+    try {
+      const dbUpdates: Record<string, unknown> = {};
+      if (updates.name !== undefined) dbUpdates.name = updates.name;
+      if (updates.color !== undefined) dbUpdates.color = updates.color;
+      if (updates.icon !== undefined) dbUpdates.icon = updates.icon || null;
+      if (updates.sortOrder !== undefined) dbUpdates.sort_order = updates.sortOrder;
+
+      const { error } = await supabase
+        .from("habit_categories")
+        .update(dbUpdates)
+        .eq("id", id);
+
+      if (error) {
+        console.error("Error updating habit category:", error);
+        return;
+      }
+
+      set((state) => ({
+        categories: state.categories.map((c) =>
+          c.id === id ? { ...c, ...updates } : c
+        ),
+      }));
+    } catch (error) {
+      console.error("Error updating habit category:", error);
+    }
+  },
+
+  // Habits in a deleted category become uncategorized (ON DELETE SET NULL)
+  deleteCategory: async (id) => {
+    try {
+      const { error } = await supabase.from("habit_categories").delete().eq("id", id);
+
+      if (error) {
+        console.error("Error deleting habit category:", error);
+        return;
+      }
+
+      set((state) => ({
+        categories: state.categories.filter((c) => c.id !== id),
+        habits: state.habits.map((h) =>
+          h.categoryId === id ? { ...h, categoryId: undefined } : h
+        ),
+      }));
+    } catch (error) {
+      console.error("Error deleting habit category:", error);
+    }
+  },
+
   setFilter: (filter) => {
     set({ filter });
   },
 
+  addRoutine: async (routine) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const nextSortOrder = Math.max(-1, ...get().routines.map((r) => r.sortOrder)) + 1;
+
+      const { data, error } = await supabase
+        .from("habit_routines")
+        .insert({
+          user_id: user.id,
+          name: routine.name,
+          section: routine.section,
+          steps: mapRoutineStepsToDb(routine.steps),
+          sort_order: nextSortOrder,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error("Error adding habit routine:", error);
+        return;
+      }
+
+      set((state) => ({ routines: [...state.routines, mapRoutineFromDb(data)] }));
+    } catch (error) {
+      console.error("Error adding habit routine:", error);
+    }
+  },
+
+  updateRoutine: async (id, updates) => {
+    try {
+      const dbUpdates: Record<string, unknown> = {};
+      if (updates.name !== undefined) dbUpdates.name = updates.name;
+      if (updates.section !== undefined) dbUpdates.section = updates.section;
+      if (updates.steps !== undefined) dbUpdates.steps = mapRoutineStepsToDb(updates.steps);
+      if (updates.sortOrder !== undefined) dbUpdates.sort_order = updates.sortOrder;
+
+      const { error } = await supabase
+        .from("habit_routines")
+        .update(dbUpdates)
+        .eq("id", id);
+
+      if (error) {
+        console.error("Error updating habit routine:", error);
+        return;
+      }
+
+      set((state) => ({
+        routines: state.routines.map((r) =>
+          r.id === id ? { ...r, ...updates } : r
+        ),
+      }));
+    } catch (error) {
+      console.error("Error updating habit routine:", error);
+    }
+  },
+
+  deleteRoutine: async (id) => {
+    try {
+      const { error } = await supabase.from("habit_routines").delete().eq("id", id);
+
+      if (error) {
+        console.error("Error deleting habit routine:", error);
+        return;
+      }
+
+      set((state) => ({ routines: state.routines.filter((r) => r.id !== id) }));
+    } catch (error) {
+      console.error("Error deleting habit routine:", error);
+    }
+  },
+
   clearAllData: () => {
-    set({ habits: [], logs: [] });
+    set({ habits: [], logs: [], pauses: [], categories: [], routines: [] });
   },
 }));
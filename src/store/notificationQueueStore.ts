@@ -0,0 +1,71 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+import { generateId } from "@/lib/utils";
+import { getFocusModeQuietUntil } from "@/lib/focusMode";
+import { useFocusStore } from "@/store/focusStore";
+import { useSettingsStore } from "@/store/settingsStore";
+import type { HeldNotification, NotificationSource } from "@/types";
+
+interface NotificationQueueState {
+  held: HeldNotification[];
+
+  // Focus mode
+  getQuietUntil: (source: NotificationSource) => number | null;
+  isQuiet: (source: NotificationSource) => boolean;
+
+  // Actions
+  hold: (notification: Omit<HeldNotification, "id" | "at"> & { id?: string; at?: number }) => void;
+  setHeldReminders: (source: NotificationSource, reminders: HeldNotification[]) => void;
+  drop: (id: string) => void;
+  release: () => HeldNotification[];
+  clearAllData: () => void;
+}
+
+// Kept on this device only, so anything held survives a reload mid-session
+export const useNotificationQueueStore = create<NotificationQueueState>()(
+  persist(
+    (set, get) => ({
+      held: [],
+
+      getQuietUntil: (source) =>
+        getFocusModeQuietUntil(useFocusStore.getState().timer, useSettingsStore.getState().settings, source),
+
+      isQuiet: (source) => get().getQuietUntil(source) !== null,
+
+      hold: (notification) => {
+        const item: HeldNotification = { ...notification, id: notification.id || generateId(), at: notification.at ?? Date.now() };
+        set((state) => ({ held: [...state.held.filter((h) => h.id !== item.id), item] }));
+      },
+
+      // Replaces the upcoming reminders held for a source. Ones already due stay
+      // for the summary, even if the planner has since dropped them
+      setHeldReminders: (source, reminders) => {
+        const now = Date.now();
+        set((state) => {
+          const kept = state.held.filter((h) => h.source !== source || h.at <= now);
+          const keptIds = new Set(kept.map((h) => h.id));
+          return { held: [...kept, ...reminders.filter((r) => !keptIds.has(r.id))] };
+        });
+      },
+
+      drop: (id) => {
+        set((state) => ({ held: state.held.filter((h) => h.id !== id) }));
+      },
+
+      // Hands back everything held and empties the queue
+      release: () => {
+        const { held } = get();
+        set({ held: [] });
+        return [...held].sort((a, b) => a.at - b.at);
+      },
+
+      clearAllData: () => {
+        set({ held: [] });
+      },
+    }),
+    {
+      name: "focushabit-notification-queue",
+      partialize: (state) => ({ held: state.held }),
+    }
+  )
+);
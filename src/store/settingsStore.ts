@@ -1,22 +1,10 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
-import type { AppSettings, FocusPreset, WeeklyReview } from "@/types";
-
-const DEFAULT_PRESET: FocusPreset = {
-  workMinutes: 25,
-  breakMinutes: 5,
-  longBreakMinutes: 15,
-  sessionsBeforeLongBreak: 4,
-  deepFocusMinutes: 60,
-  autoStartBreaks: false,
-  autoStartWork: false,
-  alarmSound: "chime",
-};
+import type { AppSettings, WeeklyReview } from "@/types";
 
 const DEFAULT_SETTINGS: AppSettings = {
   theme: "dark",
   weekStartsMonday: true,
-  defaultFocusPreset: DEFAULT_PRESET,
 };
 
 interface SettingsState {
@@ -0,0 +1,156 @@
+import { create } from "zustand";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import type { Task, TaskStatus } from "@/types";
+
+interface TaskState {
+  tasks: Task[];
+  isLoading: boolean;
+
+  // Actions
+  fetchTasks: () => Promise<void>;
+  addTask: (task: Omit<Task, "id" | "actualPomodoros" | "status" | "createdAt" | "completedAt">) => Promise<Task | null>;
+  updateTask: (id: string, updates: Partial<Omit<Task, "id" | "createdAt">>) => Promise<void>;
+  deleteTask: (id: string) => Promise<void>;
+  addActualPomodoro: (id: string, amount?: number) => Promise<void>;
+  clearAllData: () => void;
+}
+
+function mapTaskFromDb(row: Tables<"tasks">): Task {
+  return {
+    id: row.id,
+    title: row.title,
+    project: row.project || undefined,
+    dueDate: row.due_date || undefined,
+    estimatedPomodoros: row.estimated_pomodoros ?? undefined,
+    actualPomodoros: row.actual_pomodoros,
+    status: row.status as TaskStatus,
+    completedAt: row.completed_at ? new Date(row.completed_at).getTime() : undefined,
+    createdAt: new Date(row.created_at).getTime(),
+  };
+}
+
+export const useTaskStore = create<TaskState>((set, get) => ({
+  tasks: [],
+  isLoading: false,
+
+  fetchTasks: async () => {
+    set({ isLoading: true });
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        set({ isLoading: false });
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("tasks")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error fetching tasks:", error);
+        set({ isLoading: false });
+        return;
+      }
+
+      set({ tasks: (data || []).map(mapTaskFromDb), isLoading: false });
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+      set({ isLoading: false });
+    }
+  },
+
+  addTask: async (taskData) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from("tasks")
+        .insert({
+          user_id: user.id,
+          title: taskData.title,
+          project: taskData.project || null,
+          due_date: taskData.dueDate || null,
+          estimated_pomodoros: taskData.estimatedPomodoros ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error("Error adding task:", error);
+        return null;
+      }
+
+      const newTask = mapTaskFromDb(data);
+      set((state) => ({ tasks: [newTask, ...state.tasks] }));
+      return newTask;
+    } catch (error) {
+      console.error("Error adding task:", error);
+      return null;
+    }
+  },
+
+  updateTask: async (id, updates) => {
+    try {
+      const dbUpdates: TablesUpdate<"tasks"> = {};
+      if (updates.title !== undefined) dbUpdates.title = updates.title;
+      if ("project" in updates) dbUpdates.project = updates.project || null;
+      if ("dueDate" in updates) dbUpdates.due_date = updates.dueDate || null;
+      if ("estimatedPomodoros" in updates) dbUpdates.estimated_pomodoros = updates.estimatedPomodoros ?? null;
+      if (updates.actualPomodoros !== undefined) dbUpdates.actual_pomodoros = updates.actualPomodoros;
+
+      // Finishing a task stamps when; reopening it clears the stamp
+      const next = { ...updates };
+      if (updates.status !== undefined) {
+        dbUpdates.status = updates.status;
+        next.completedAt = updates.status === "done" ? Date.now() : undefined;
+        dbUpdates.completed_at = next.completedAt ? new Date(next.completedAt).toISOString() : null;
+      }
+
+      const { error } = await supabase
+        .from("tasks")
+        .update(dbUpdates)
+        .eq("id", id);
+
+      if (error) {
+        console.error("Error updating task:", error);
+        return;
+      }
+
+      set((state) => ({
+        tasks: state.tasks.map((task) => (task.id === id ? { ...task, ...next } : task)),
+      }));
+    } catch (error) {
+      console.error("Error updating task:", error);
+    }
+  },
+
+  deleteTask: async (id) => {
+    try {
+      const { error } = await supabase.from("tasks").delete().eq("id", id);
+
+      if (error) {
+        console.error("Error deleting task:", error);
+        return;
+      }
+
+      set((state) => ({ tasks: state.tasks.filter((task) => task.id !== id) }));
+    } catch (error) {
+      console.error("Error deleting task:", error);
+    }
+  },
+
+  // A negative amount takes pomodoros back when a session is edited or deleted
+  addActualPomodoro: async (id, amount = 1) => {
+    const task = get().tasks.find((t) => t.id === id);
+    if (!task) return;
+
+    await get().updateTask(id, { actualPomodoros: Math.max(0, task.actualPomodoros + amount) });
+  },
+
+  clearAllData: () => {
+    set({ tasks: [] });
+  },
+}));
@@ -6,51 +6,164 @@ export interface Habit {
   color?: string;
   createdAt: number;
   archived: boolean;
+  kind?: "build" | "quit"; // Quit habits log slips instead of completions
   schedule: HabitSchedule;
-  reminderTime?: string; // "HH:MM"
-  goalType: "check" | "count";
-  goalTarget?: number;
+  reminderTimes?: string[]; // "HH:MM", one reminder per time on each due day
+  goalType: "check" | "count" | "duration";
+  goalTarget?: number; // Count target, or minutes per day for duration habits
+  freezesPerMonth?: number; // Streak freezes that can be spent each month
+  focusLink?: HabitFocusLink;
+  categoryId?: string;
+  sortOrder?: number; // Manual position in habit lists
+}
+
+export interface HabitCategory {
+  id: string;
+  name: string;
+  color: string;
+  icon?: string; // Id from the habit icon set
+  sortOrder: number;
+}
+
+// Completed focus sessions matching the link add their minutes to a duration habit
+export interface HabitFocusLink {
+  keyword?: string; // Case-insensitive match against the session task
+  mode?: FocusSession["mode"];
 }
 
 export interface HabitSchedule {
-  type: "daily" | "weekdays" | "customDays" | "timesPerWeek";
+  type:
+    | "daily"
+    | "weekdays"
+    | "customDays"
+    | "timesPerWeek"
+    | "interval"
+    | "monthlyDays"
+    | "monthlyWeekday"
+    | "timesPerMonth";
   daysOfWeek?: number[]; // 0-6 (Sunday = 0)
   timesPerWeek?: number; // 1-7
+  intervalDays?: number; // Every N days, counted from startDate
+  startDate?: string; // YYYY-MM-DD
+  daysOfMonth?: number[]; // 1-31, -1 = last day of the month
+  weekOfMonth?: number; // 1-4, -1 = last; paired with daysOfWeek for monthlyWeekday
+  timesPerMonth?: number; // 1-31
 }
 
+// "frozen" marks a missed day covered by a streak freeze; "partial" records
+// progress on a count or duration habit that hasn't reached its target yet;
+// "slipped" records a relapse on a quit habit
+export type HabitLogStatus = "done" | "skipped" | "frozen" | "partial" | "slipped";
+
 export interface HabitLog {
   id: string;
   habitId: string;
   date: string; // YYYY-MM-DD
-  status: "done" | "skipped";
-  value?: number; // For count habits
+  status: HabitLogStatus;
+  value?: number; // Count, minutes for duration habits, or slips for quit habits
   note?: string;
   timestamp: number;
 }
 
+export interface HabitPause {
+  id: string;
+  habitId?: string; // Unset for vacation mode, which pauses every habit
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, inclusive; open-ended when unset
+  reason?: string;
+}
+
+// Routines walk through an ordered set of habits at one time of day
+export type RoutineSection = "morning" | "afternoon" | "evening";
+
+export interface RoutineStep {
+  habitId: string;
+  durationMinutes?: number; // Optional countdown shown for the step in the player
+}
+
+export interface Routine {
+  id: string;
+  name: string;
+  section: RoutineSection;
+  steps: RoutineStep[];
+  sortOrder: number;
+}
+
 // Focus Types
+// "flow" counts up with no fixed end and is stopped by hand
+export type FocusMode = "pomodoro" | "deepFocus" | "flow";
+
+export const FOCUS_MODE_LABELS: Record<FocusMode, string> = {
+  pomodoro: "Pomodoro",
+  deepFocus: "Deep Focus",
+  flow: "Flow",
+};
+
+export type FocusPauseReason = "meeting" | "distraction" | "break";
+
+export const FOCUS_PAUSE_REASON_LABELS: Record<FocusPauseReason, string> = {
+  meeting: "Meeting",
+  distraction: "Distraction",
+  break: "Break",
+};
+
+export interface FocusPause {
+  pausedAt: number;
+  resumedAt?: number; // Unset while the pause is still running
+  reason?: FocusPauseReason;
+}
+
 export interface FocusSession {
   id: string;
   date: string; // YYYY-MM-DD
   startTime: number;
   durationMinutes: number;
-  mode: "pomodoro" | "deepFocus";
+  mode: FocusMode;
   task?: string;
+  taskId?: string; // Linked Task; task keeps its title at the time
+  calendarEventId?: string; // Focus block the session was started from
   note?: string;
   completed: boolean;
+  pauses?: FocusPause[]; // Unset for sessions logged before pauses were tracked
+  distractions?: number[]; // Timestamps of "I got distracted" taps
+}
+
+export type TaskStatus = "todo" | "inProgress" | "done";
+
+export const TASK_STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: "To do",
+  inProgress: "In progress",
+  done: "Done",
+};
+
+// Each completed work session linked to a task counts as one actual pomodoro
+export interface Task {
+  id: string;
+  title: string;
+  project?: string;
+  dueDate?: string; // YYYY-MM-DD
+  estimatedPomodoros?: number;
+  actualPomodoros: number;
+  status: TaskStatus;
+  completedAt?: number;
+  createdAt: number;
 }
 
 export interface FocusTimer {
   isRunning: boolean;
   isPaused: boolean;
-  mode: "pomodoro" | "deepFocus";
+  mode: FocusMode;
   phase: "work" | "break" | "longBreak";
   startTimestamp: number | null;
   pausedAt: number | null;
   elapsedBeforePause: number; // ms elapsed before pause
-  totalDuration: number; // seconds
+  totalDuration: number; // seconds, 0 for flow sessions
   currentSession: number; // For pomodoro cycles
   task?: string;
+  taskId?: string;
+  calendarEventId?: string; // Focus block the cycle was started from
+  pauses?: FocusPause[]; // Pause log for the current work phase
+  distractions?: number[];
 }
 
 export interface FocusPreset {
@@ -59,9 +172,19 @@ export interface FocusPreset {
   longBreakMinutes: number;
   sessionsBeforeLongBreak: number;
   deepFocusMinutes: number;
+  flowCheckInMinutes?: number; // Gentle chime every N minutes in flow mode, 0 or unset = off
   autoStartBreaks: boolean;
   autoStartWork: boolean;
+  breakWorkouts?: boolean; // Offer a short movement routine when a pomodoro break starts
   alarmSound: "chime" | "bell" | "gentle" | "melody" | "song" | "none";
+  ambientSound?: "white" | "pink" | "brown" | "rain" | "cafe" | "binaural" | "none"; // Background during work phases
+  ambientVolumes?: Record<string, number>; // 0-1 per ambient sound, so each keeps its own level
+}
+
+// A saved set of timer settings, e.g. "Writing 50/10", synced via user_settings
+export interface NamedFocusPreset extends FocusPreset {
+  id: string;
+  name: string;
 }
 
 // Insights Types
@@ -73,11 +196,32 @@ export interface WeeklyReview {
 }
 
 // Settings Types
+// What focus mode can hold back until the break
+export type NotificationSource = "habitReminders" | "calendarReminders" | "toasts";
+
+export const NOTIFICATION_SOURCE_LABELS: Record<NotificationSource, string> = {
+  habitReminders: "Habit reminders",
+  calendarReminders: "Calendar reminders",
+  toasts: "In-app messages",
+};
+
+// A notification focus mode held back, shown in the summary when the break starts
+export interface HeldNotification {
+  id: string;
+  source: NotificationSource;
+  title: string;
+  body?: string;
+  url?: string; // Opened when a rescheduled reminder is tapped
+  at: number; // When it was due (epoch ms)
+  notificationId?: number; // Native reminder taken off the OS schedule, rescheduled if still ahead
+}
+
 export interface AppSettings {
   theme: "light" | "dark" | "system";
   weekStartsMonday: boolean;
-  defaultFocusPreset: FocusPreset;
   focusModeEnabled?: boolean;
+  focusModeAllowed?: NotificationSource[]; // Sources that still get through during a work phase
+  groupHabitsByCategory?: boolean;
 }
 
 // Chart Data Types
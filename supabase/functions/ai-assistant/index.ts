@@ -61,8 +61,11 @@ To create an event, respond with:
 - Archive or manage habits
 To create a habit, respond with:
 \`\`\`json
-{"action": "create_habit", "habit": {"name": "Habit Name", "description": "optional", "scheduleType": "daily|weekdays|customDays|timesPerWeek", "goalType": "check|count", "goalTarget": 8, "daysOfWeek": [0,1,2,3,4,5,6], "timesPerWeek": 3}}
+{"action": "create_habit", "habit": {"name": "Habit Name", "description": "optional", "scheduleType": "daily|weekdays|customDays|timesPerWeek|interval|monthlyDays|monthlyWeekday|timesPerMonth", "goalType": "check|count|duration", "goalTarget": 8, "daysOfWeek": [0,1,2,3,4,5,6], "timesPerWeek": 3}}
 \`\`\`
+Extra schedule fields: "intervalDays": 3 (interval, every N days), "daysOfMonth": [1, 15] (monthlyDays, -1 = last day), "weekOfMonth": -1 with "daysOfWeek": [5] (monthlyWeekday, e.g. last Friday), "timesPerMonth": 4 (timesPerMonth)
+For duration habits, "goalTarget" is minutes per day and "focusKeyword": "Spanish" links matching focus sessions
+For habits to stop (e.g. no sugar), add "kind": "quit" with "scheduleType": "daily"; quit habits log slips, so a habit stat with "kind": "quit" reports daysSinceLastSlip and longestCleanRun instead of completions
 
 ⏱️ FOCUS SESSIONS:
 - Start a focus/pomodoro session
@@ -72,6 +75,8 @@ To start a focus session, respond with:
 \`\`\`json
 {"action": "start_focus", "focus": {"duration": 25, "task": "What you're working on", "mode": "pomodoro|timer|stopwatch"}}
 \`\`\`
+"pomodoro" runs work/break cycles, "timer" is a single countdown of "duration" minutes, "stopwatch" is an open-ended flow session that counts up until stopped (duration is ignored)
+To work on one of the user's tasks (listed in context.tasks), add "taskId": "<id>" and use the task's title as "task"; completed sessions count toward its actualPomodoros against estimatedPomodoros
 
 🏃 ACTIVITY TRACKING:
 - Start/stop runs, walks, cycles, drives
@@ -0,0 +1,23 @@
+-- Pause ranges for habits. A row without habit_id is a vacation that pauses every habit.
+CREATE TABLE public.habit_pauses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  habit_id UUID REFERENCES public.habits(id) ON DELETE CASCADE,
+  start_date TEXT NOT NULL,
+  end_date TEXT,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.habit_pauses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own habit pauses" ON public.habit_pauses FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own habit pauses" ON public.habit_pauses FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own habit pauses" ON public.habit_pauses FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own habit pauses" ON public.habit_pauses FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_habit_pauses_user_id ON public.habit_pauses(user_id);
+CREATE INDEX idx_habit_pauses_habit_id ON public.habit_pauses(habit_id);
+
+-- Monthly budget of streak freezes; spent freezes are stored as habit_logs with status 'frozen'
+ALTER TABLE public.habits ADD COLUMN freezes_per_month INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,7 @@
+-- Interval, monthly and times-per-month habit schedules
+ALTER TABLE public.habits
+  ADD COLUMN schedule_interval_days INTEGER,
+  ADD COLUMN schedule_start_date TEXT,
+  ADD COLUMN schedule_days_of_month INTEGER[],
+  ADD COLUMN schedule_week_of_month INTEGER,
+  ADD COLUMN schedule_times_per_month INTEGER;
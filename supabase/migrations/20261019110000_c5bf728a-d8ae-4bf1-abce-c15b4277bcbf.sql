@@ -0,0 +1,4 @@
+-- Duration habits can be fed by focus sessions matching a task keyword and/or mode
+ALTER TABLE public.habits
+  ADD COLUMN focus_link_keyword TEXT,
+  ADD COLUMN focus_link_mode TEXT;
@@ -0,0 +1,2 @@
+-- Quit habits track slips (habit_logs with status 'slipped') instead of completions
+ALTER TABLE public.habits ADD COLUMN kind TEXT NOT NULL DEFAULT 'build';
@@ -0,0 +1,6 @@
+-- Habits can have several reminder times; reminder_time keeps mirroring the first one
+ALTER TABLE public.habits ADD COLUMN reminder_times TEXT[];
+
+UPDATE public.habits
+SET reminder_times = ARRAY[reminder_time]
+WHERE reminder_time IS NOT NULL;
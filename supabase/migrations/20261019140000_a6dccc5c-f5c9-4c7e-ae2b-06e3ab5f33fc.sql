@@ -0,0 +1,26 @@
+-- User-defined habit categories
+CREATE TABLE public.habit_categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  color TEXT NOT NULL DEFAULT '#F59E0B',
+  icon TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.habit_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own habit categories" ON public.habit_categories FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own habit categories" ON public.habit_categories FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own habit categories" ON public.habit_categories FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own habit categories" ON public.habit_categories FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_habit_categories_user_id ON public.habit_categories(user_id);
+
+-- Category and manual sort order for habits
+ALTER TABLE public.habits
+  ADD COLUMN category_id UUID REFERENCES public.habit_categories(id) ON DELETE SET NULL,
+  ADD COLUMN sort_order INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_habits_category_id ON public.habits(category_id);
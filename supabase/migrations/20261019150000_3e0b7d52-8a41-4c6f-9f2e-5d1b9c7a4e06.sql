@@ -0,0 +1,19 @@
+-- Habit routines: ordered habit steps for a time of day
+CREATE TABLE public.habit_routines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  section TEXT NOT NULL DEFAULT 'morning' CHECK (section IN ('morning', 'afternoon', 'evening')),
+  steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.habit_routines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own habit routines" ON public.habit_routines FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own habit routines" ON public.habit_routines FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own habit routines" ON public.habit_routines FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own habit routines" ON public.habit_routines FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_habit_routines_user_id ON public.habit_routines(user_id);
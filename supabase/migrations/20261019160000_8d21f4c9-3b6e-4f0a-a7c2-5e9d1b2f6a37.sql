@@ -0,0 +1,4 @@
+-- Focus sessions keep their pause log and "I got distracted" markers for a quality score
+ALTER TABLE public.focus_sessions
+  ADD COLUMN pauses JSONB,
+  ADD COLUMN distractions JSONB;
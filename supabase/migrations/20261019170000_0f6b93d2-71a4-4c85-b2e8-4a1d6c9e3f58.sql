@@ -0,0 +1,22 @@
+-- Live focus timer shared across a user's devices. revision guards writes
+-- (compare-and-swap) and device_id marks which device handles notifications
+CREATE TABLE public.focus_timer_state (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  device_id TEXT NOT NULL,
+  revision INTEGER NOT NULL DEFAULT 1,
+  changed_at BIGINT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.focus_timer_state ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own focus timer" ON public.focus_timer_state FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own focus timer" ON public.focus_timer_state FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own focus timer" ON public.focus_timer_state FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own focus timer" ON public.focus_timer_state FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_focus_timer_state_updated_at BEFORE UPDATE ON public.focus_timer_state FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.focus_timer_state;
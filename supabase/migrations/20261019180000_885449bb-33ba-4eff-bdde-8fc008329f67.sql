@@ -0,0 +1,28 @@
+-- Tasks with pomodoro estimates. Completed focus sessions linked to a task
+-- bump its actual_pomodoros
+CREATE TABLE public.tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  project TEXT,
+  due_date DATE,
+  estimated_pomodoros INTEGER,
+  actual_pomodoros INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'todo',
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tasks" ON public.tasks FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create their own tasks" ON public.tasks FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own tasks" ON public.tasks FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own tasks" ON public.tasks FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_tasks_updated_at BEFORE UPDATE ON public.tasks FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_tasks_user_status ON public.tasks(user_id, status);
+
+ALTER TABLE public.focus_sessions ADD COLUMN task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL;
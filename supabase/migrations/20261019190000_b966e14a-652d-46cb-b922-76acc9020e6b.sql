@@ -0,0 +1,4 @@
+-- Break workouts from the focus timer are logged alongside workout plans.
+-- kind tells them apart; exercises records what was done, with reps counted by motion
+ALTER TABLE public.workout_sessions ADD COLUMN kind TEXT NOT NULL DEFAULT 'plan';
+ALTER TABLE public.workout_sessions ADD COLUMN exercises JSONB;
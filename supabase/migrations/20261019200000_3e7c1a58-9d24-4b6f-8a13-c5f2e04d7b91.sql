@@ -0,0 +1,7 @@
+-- Focus blocks: calendar events that plan a focus session with a preset and
+-- task. Sessions started from a block link back to it
+ALTER TABLE public.calendar_events ADD COLUMN kind TEXT NOT NULL DEFAULT 'event';
+ALTER TABLE public.calendar_events ADD COLUMN focus_preset_id TEXT;
+ALTER TABLE public.calendar_events ADD COLUMN task_id UUID REFERENCES public.tasks(id) ON DELETE SET NULL;
+
+ALTER TABLE public.focus_sessions ADD COLUMN calendar_event_id UUID REFERENCES public.calendar_events(id) ON DELETE SET NULL;